@@ -0,0 +1,30 @@
+/**
+ * Tests are colocated with the sources as *.test.ts and compiled to CommonJS
+ * by ts-jest; the `.js` suffixes of the ESM imports are mapped back to `.ts`
+ */
+export default {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          target: 'ES2022',
+          module: 'CommonJS',
+          moduleResolution: 'Node',
+          esModuleInterop: true,
+          importHelpers: false,
+          strict: true,
+          isolatedModules: true,
+          types: ['node', 'jest'],
+        },
+      },
+    ],
+  },
+  collectCoverageFrom: ['src/**/*.ts', '!src/**/*.test.ts'],
+};
@@ -9,6 +9,7 @@ import { config, validateConfig } from './utils/config.js';
 import { logger } from './utils/logger.js';
 import { startHttpServer } from './server/hono-server.js';
 import { startMCPServer } from './server/mcp-server.js';
+import { initializeProviders } from './services/providers/ui-provider-factory.js';
 
 /**
  * Main entry point
@@ -18,11 +19,15 @@ async function main() {
     // Validate configuration
     validateConfig(config);
 
+    // Load provider plugins before any provider is used
+    await initializeProviders();
+
     logger.info('Magic MCP Server starting', {
       mode: config.mode,
       version: '1.0.0',
       node: process.version,
       platform: process.platform,
+      allowedRoots: config.files.roots,
     });
 
     // Start server(s) based on mode
@@ -6,7 +6,7 @@
 import { Context, Next } from 'hono';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
-import { AuthenticationError } from '../utils/errors.js';
+import { AuthenticationError, AuthorizationError } from '../utils/errors.js';
 import { createApiKeyAuth } from './api-key-auth.js';
 import { createBasicAuth } from './basic-auth.js';
 import { createOIDCAuth } from './oidc-auth.js';
@@ -102,3 +102,32 @@ export function createAuthMiddleware(): AuthMiddleware | null {
 export function getAuthContext(c: Context) {
   return c.get('auth');
 }
+
+/**
+ * Identify the caller: the authenticated user, or 'anonymous' without authentication
+ */
+export function getPrincipal(c: Context): string {
+  const auth = getAuthContext(c);
+  return auth?.user ? `${auth.method}:${auth.user}` : 'anonymous';
+}
+
+/**
+ * Check whether the caller is listed in ADMIN_PRINCIPALS
+ */
+export function isAdmin(c: Context): boolean {
+  return config.auth.adminPrincipals.includes(getPrincipal(c));
+}
+
+/**
+ * Restrict routes to the principals listed in ADMIN_PRINCIPALS
+ */
+export async function requireAdmin(c: Context, next: Next): Promise<void> {
+  const principal = getPrincipal(c);
+
+  if (!isAdmin(c)) {
+    logger.warn('Admin access denied', { principal, path: c.req.path });
+    throw new AuthorizationError('Administrator access required');
+  }
+
+  await next();
+}
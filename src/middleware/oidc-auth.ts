@@ -6,6 +6,7 @@ import { Context, Next } from 'hono';
 import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
 import { AuthenticationError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { outboundClient } from '../utils/outbound-client.js';
 import { OIDCConfig, AuthContext } from '../types/index.js';
 
 const BEARER_PREFIX = 'Bearer ';
@@ -34,7 +35,7 @@ export class OIDCAuth {
       const wellKnownUrl = `${this.config.issuer}/.well-known/openid-configuration`;
       logger.debug('Discovering OIDC configuration', { wellKnownUrl });
 
-      const response = await fetch(wellKnownUrl);
+      const response = await outboundClient.fetch(wellKnownUrl, {}, { service: 'OIDC' });
       if (!response.ok) {
         throw new Error(`Failed to fetch OIDC configuration: ${response.status}`);
       }
@@ -0,0 +1,15 @@
+/**
+ * Principal scope middleware
+ * Makes the authenticated principal available to services handling the request
+ */
+
+import { Context, Next } from 'hono';
+import { runAsPrincipal } from '../utils/principal.js';
+import { getPrincipal } from './auth.js';
+
+/**
+ * Run the rest of the request in the principal's scope
+ */
+export async function principalMiddleware(c: Context, next: Next): Promise<void> {
+  await runAsPrincipal(getPrincipal(c), () => next());
+}
@@ -0,0 +1,102 @@
+import { Hono } from 'hono';
+import { createRateLimitMiddleware } from './rate-limit.js';
+import { rateLimiter } from '../services/rate-limiter.js';
+import { config } from '../utils/config.js';
+import { AppError, ExternalServiceError } from '../utils/errors.js';
+import { streamUiEvents } from '../utils/sse.js';
+
+jest.mock('../services/providers/ui-provider-factory.js', () => ({
+  getConfiguredProviderTypes: () => ['magic', 'v0', 'openai'],
+}));
+
+/**
+ * App with the middleware in front of generation routes that answer with the given status
+ */
+function createApp() {
+  const app = new Hono();
+  app.use('/api/*', createRateLimitMiddleware()!);
+  app.post('/api/create-ui', (c) => c.json({ ok: true }));
+  app.post('/api/compare-ui', (c) => c.json({ ok: true }));
+  app.post('/api/refine-ui', (c) => c.json({ ok: false }, 502));
+  app.post('/api/create-ui/stream', (c) => streamUiEvents(c, async function* () {
+    yield { type: 'status', status: 'generating', provider: 'v0' };
+    throw new ExternalServiceError('v0.dev stream ended without a chat id', 'v0.dev');
+  }));
+  app.post('/api/refine-ui/stream', (c) => streamUiEvents(c, async function* () {
+    yield { type: 'result', response: { text: 'done' } };
+  }));
+  app.onError((error, c) => c.json({ error: error.message }, error instanceof AppError ? error.statusCode as any : 500));
+  return app;
+}
+
+const post = (app: Hono, path: string, body: unknown = {}) =>
+  app.request(path, { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } });
+
+describe('rate limit middleware', () => {
+  beforeAll(() => {
+    config.rateLimit.enabled = true;
+    config.rateLimit.rules = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('counts a comparison once per compared provider', async () => {
+    const reserve = jest.spyOn(rateLimiter, 'reserveGenerations');
+    const app = createApp();
+
+    await post(app, '/api/compare-ui', { message: 'm', providers: ['magic', 'v0', 'magic'] });
+    await post(app, '/api/compare-ui', { message: 'm' });
+    await post(app, '/api/create-ui', { message: 'm' });
+
+    expect(reserve.mock.calls.map(([, count]) => count)).toEqual([2, 3, 1]);
+  });
+
+  it('refunds generations of failed requests', async () => {
+    const refund = jest.spyOn(rateLimiter, 'refundGenerations');
+    const app = createApp();
+
+    expect((await post(app, '/api/refine-ui')).status).toBe(502);
+    expect((await post(app, '/api/create-ui')).status).toBe(200);
+
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect(refund).toHaveBeenCalledWith(expect.objectContaining({ principal: 'anonymous', count: 1 }));
+  });
+
+  it('refunds generations of streams that fail after the status was sent', async () => {
+    const refund = jest.spyOn(rateLimiter, 'refundGenerations');
+    const app = createApp();
+
+    const failed = await post(app, '/api/create-ui/stream');
+    expect(failed.status).toBe(200);
+    expect(await failed.text()).toContain('event: error');
+
+    await (await post(app, '/api/refine-ui/stream')).text();
+
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect(refund).toHaveBeenCalledWith(expect.objectContaining({ principal: 'anonymous', count: 1 }));
+  });
+
+  it('rejects generations beyond the quota', async () => {
+    const app = createApp();
+    jest.spyOn(rateLimiter, 'reserveGenerations').mockResolvedValue({
+      reservation: { principal: 'anonymous', count: 1, periods: [] },
+      exhausted: {
+        allowed: false,
+        limit: 5,
+        remaining: 0,
+        reset: 60,
+        retryAfter: 60,
+        policy: '5;w=86400',
+        scope: 'quota:daily',
+      },
+    });
+
+    const response = await post(app, '/api/create-ui');
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect(await response.json()).toEqual({ error: 'Daily generation quota of 5 requests exceeded' });
+  });
+});
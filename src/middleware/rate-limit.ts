@@ -0,0 +1,116 @@
+/**
+ * Rate limiting middleware
+ * Enforces per-principal token buckets and generation quotas after authentication.
+ * Generations are reserved before the request runs and refunded if it fails,
+ * including streams that fail after their status was sent.
+ */
+
+import { Context, Next } from 'hono';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { RateLimitError } from '../utils/errors.js';
+import { rateLimiter, QuotaReservation, RateLimitResult } from '../services/rate-limiter.js';
+import { getConfiguredProviderTypes } from '../services/providers/ui-provider-factory.js';
+import { getPrincipal } from './auth.js';
+import { onStreamError } from '../utils/sse.js';
+
+// Routes that generate components and count against quotas
+const GENERATION_ROUTES = ['/api/create-ui', '/api/refine-ui', '/api/compare-ui'];
+
+function isGeneration(c: Context): boolean {
+  return c.req.method === 'POST' &&
+    GENERATION_ROUTES.some((route) => c.req.path === route || c.req.path.startsWith(`${route}/`));
+}
+
+/**
+ * Generations a request counts as: one per compared provider for compare-ui, else one
+ */
+async function generationsOf(c: Context): Promise<number> {
+  if (c.req.path !== '/api/compare-ui' && !c.req.path.startsWith('/api/compare-ui/')) {
+    return 1;
+  }
+
+  const body = await c.req.json().catch(() => undefined);
+  const providers: unknown = body?.providers;
+  return Array.isArray(providers) && providers.length > 0
+    ? new Set(providers).size
+    : Math.max(1, getConfiguredProviderTypes().length);
+}
+
+/**
+ * Set RateLimit-* headers (and Retry-After when the request is rejected)
+ */
+function setHeaders(c: Context, result: RateLimitResult): void {
+  c.header('RateLimit-Limit', String(result.limit));
+  c.header('RateLimit-Remaining', String(result.remaining));
+  c.header('RateLimit-Reset', String(result.reset));
+  c.header('RateLimit-Policy', result.policy);
+
+  if (result.retryAfter !== undefined) {
+    c.header('Retry-After', String(result.retryAfter));
+  }
+}
+
+/**
+ * Create rate limiting middleware based on configuration
+ */
+export function createRateLimitMiddleware() {
+  if (!config.rateLimit.enabled) {
+    logger.info('Rate limiting disabled');
+    return null;
+  }
+
+  logger.info('Rate limiting enabled', {
+    rules: config.rateLimit.rules.map((rule) => `${rule.route}=${rule.limit}/${rule.windowMs}ms`),
+    quota: config.rateLimit.quota,
+    store: config.rateLimit.store,
+  });
+
+  return async (c: Context, next: Next) => {
+    const principal = getPrincipal(c);
+    const generation = isGeneration(c);
+
+    let reservation: QuotaReservation | undefined;
+    if (generation) {
+      const reserved = await rateLimiter.reserveGenerations(principal, await generationsOf(c));
+      const { exhausted } = reserved;
+      if (exhausted) {
+        setHeaders(c, exhausted);
+        logger.warn('Generation quota exceeded', { principal, quota: exhausted.scope, path: c.req.path });
+        throw new RateLimitError(
+          `${exhausted.scope === 'quota:daily' ? 'Daily' : 'Monthly'} generation quota of ${exhausted.limit} requests exceeded`,
+          exhausted.retryAfter as number,
+          { scope: exhausted.scope, limit: exhausted.limit }
+        );
+      }
+      reservation = reserved.reservation;
+      onStreamError(c, () => rateLimiter.refundGenerations(reserved.reservation));
+    }
+
+    try {
+      const result = await rateLimiter.consume(principal, c.req.path);
+      if (result) {
+        setHeaders(c, result);
+
+        if (!result.allowed) {
+          logger.warn('Rate limit exceeded', { principal, route: result.scope, path: c.req.path });
+          throw new RateLimitError(
+            `Rate limit of ${result.limit} requests exceeded for ${result.scope}`,
+            result.retryAfter as number,
+            { scope: result.scope, limit: result.limit }
+          );
+        }
+      }
+
+      await next();
+    } catch (error) {
+      if (reservation) await rateLimiter.refundGenerations(reservation);
+      throw error;
+    }
+
+    // Failed generations do not count against quotas
+    if (reservation && !c.res.ok) {
+      await rateLimiter.refundGenerations(reservation);
+    }
+  };
+}
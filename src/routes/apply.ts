@@ -0,0 +1,55 @@
+/**
+ * /api/apply routes
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { applyFilesSchema, rollbackSchema } from '../utils/validation.js';
+import { applyService } from '../services/apply-service.js';
+import { logger } from '../utils/logger.js';
+import type { ApiResponse } from '../types/index.js';
+
+const apply = new Hono();
+
+/**
+ * Apply the files of a stored session version to the project
+ *
+ * Defaults to a dry run returning unified diffs; `mode: "write"` writes the
+ * files and returns a backup ID for rollback.
+ */
+apply.post('/', zValidator('json', applyFilesSchema), async (c) => {
+  const request = c.req.valid('json');
+
+  logger.info('Apply request received', {
+    sessionId: request.sessionId,
+    versionId: request.versionId,
+    mode: request.mode,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: await applyService.applySession(request),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Undo a write, restoring replaced files and removing created ones
+ */
+apply.post('/rollback', zValidator('json', rollbackSchema), async (c) => {
+  const { absolutePathToProjectDirectory, backupId } = c.req.valid('json');
+
+  logger.info('Rollback request received', { projectDirectory: absolutePathToProjectDirectory, backupId });
+
+  const response: ApiResponse = {
+    success: true,
+    data: await applyService.rollback(absolutePathToProjectDirectory, backupId),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+export default apply;
@@ -0,0 +1,100 @@
+/**
+ * /api/cache admin routes (principals in ADMIN_PRINCIPALS only)
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/auth.js';
+import { responseCache } from '../services/response-cache.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import type { ApiResponse } from '../types/index.js';
+
+const cache = new Hono();
+
+cache.use('*', requireAdmin);
+
+const operationQuerySchema = z.object({
+  operation: z.enum(['fetch-ui', 'refine-ui', 'logo-search']).optional(),
+});
+
+/**
+ * Cache statistics and entries (`?operation=` filters entries)
+ */
+cache.get('/', zValidator('query', operationQuerySchema), (c) => {
+  const { operation } = c.req.valid('query');
+
+  logger.debug('Cache inspection requested', { operation });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      stats: responseCache.getStats(),
+      entries: responseCache.list(operation),
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Get a cache entry including its cached response
+ */
+cache.get('/:key', (c) => {
+  const key = c.req.param('key');
+  const entry = responseCache.inspect(key);
+
+  if (!entry) {
+    throw new NotFoundError(`Cache entry not found: ${key}`);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: entry,
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Purge all entries, or the entries of one operation (`?operation=`)
+ */
+cache.delete('/', zValidator('query', operationQuerySchema), (c) => {
+  const { operation } = c.req.valid('query');
+
+  logger.info('Cache purge request received', { operation });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { purged: responseCache.purge(operation) },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Delete a single entry
+ */
+cache.delete('/:key', (c) => {
+  const key = c.req.param('key');
+
+  logger.info('Cache entry delete request received', { key });
+
+  if (!responseCache.delete(key)) {
+    throw new NotFoundError(`Cache entry not found: ${key}`);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { deleted: key },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+export default cache;
@@ -0,0 +1,38 @@
+/**
+ * POST /api/compare-ui route
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { compareUiSchema } from '../utils/validation.js';
+import { compareService, UiComparison } from '../services/compare-service.js';
+import { logger } from '../utils/logger.js';
+import type { ApiResponse } from '../types/index.js';
+
+const compareUi = new Hono();
+
+/**
+ * Generate the same component with several providers side by side
+ *
+ * Providers that fail or time out are reported per provider; the request
+ * itself only fails for invalid input or unknown provider names.
+ */
+compareUi.post('/', zValidator('json', compareUiSchema), async (c) => {
+  const { providers, timeout, ...request } = c.req.valid('json');
+
+  logger.info('Compare UI request received', {
+    searchQuery: request.searchQuery,
+    providers,
+    timeout,
+  });
+
+  const response: ApiResponse<UiComparison> = {
+    success: true,
+    data: await compareService.compare(request, providers, timeout),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+export default compareUi;
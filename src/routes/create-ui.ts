@@ -6,6 +6,10 @@ import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { createUiSchema } from '../utils/validation.js';
 import { getUiProvider } from '../services/providers/ui-provider-factory.js';
+import { streamCreateUi } from '../services/providers/ui-stream.js';
+import { applyService, ApplyResult } from '../services/apply-service.js';
+import type { DependencyReport } from '../services/dependency-resolver.js';
+import { streamUiEvents } from '../utils/sse.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/errors.js';
 import type { ApiResponse } from '../types/index.js';
@@ -13,13 +17,13 @@ import type { ApiResponse } from '../types/index.js';
 const createUi = new Hono();
 
 /**
- * Create a new UI component
+ * Create a new UI component, optionally applying its files to the project
  */
 createUi.post(
   '/',
   zValidator('json', createUiSchema),
   async (c) => {
-    const request = c.req.valid('json');
+    const { apply, overwrite, ...request } = c.req.valid('json');
 
     logger.info('Create UI request received', {
       searchQuery: request.searchQuery,
@@ -27,15 +31,38 @@ createUi.post(
     });
 
     try {
-      const provider = getUiProvider();
+      const provider = getUiProvider(request.provider);
       const providerResponse = await provider.createUi(request);
+      const applyResult = apply
+        ? await applyService.apply(
+          providerResponse.files || [],
+          { projectDirectory: request.absolutePathToProjectDirectory },
+          { mode: apply, overwrite }
+        )
+        : undefined;
 
-      const response: ApiResponse<{ text: string; previewUrl?: string; provider: string }> = {
+      const response: ApiResponse<{
+        text: string;
+        previewUrl?: string;
+        files?: Array<{ name: string; content: string; path?: string }>;
+        instructions?: string;
+        sessionId?: string;
+        provider: string;
+        metadata?: Record<string, any>;
+        dependencies?: DependencyReport;
+        apply?: ApplyResult;
+      }> = {
         success: true,
         data: {
           text: providerResponse.text,
           previewUrl: providerResponse.previewUrl,
+          files: providerResponse.files,
+          instructions: providerResponse.instructions,
+          sessionId: providerResponse.sessionId,
           provider: providerResponse.provider,
+          metadata: providerResponse.metadata,
+          dependencies: providerResponse.dependencies,
+          apply: applyResult,
         },
         timestamp: new Date().toISOString(),
       };
@@ -63,4 +90,26 @@ createUi.post(
   }
 );
 
+/**
+ * Create a new UI component, streaming progress as Server-Sent Events
+ */
+createUi.post(
+  '/stream',
+  zValidator('json', createUiSchema),
+  async (c) => {
+    // Streamed results are not applied; apply them afterwards through /api/apply
+    const { apply: _apply, overwrite: _overwrite, ...request } = c.req.valid('json');
+
+    logger.info('Create UI stream request received', {
+      searchQuery: request.searchQuery,
+      file: request.absolutePathToCurrentFile,
+    });
+
+    // Resolve the provider before streaming so configuration errors return a normal JSON error
+    const provider = getUiProvider(request.provider);
+
+    return streamUiEvents(c, () => streamCreateUi(provider, request));
+  }
+);
+
 export default createUi;
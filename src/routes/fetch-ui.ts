@@ -6,6 +6,7 @@ import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { fetchUiSchema } from '../utils/validation.js';
 import { getUiProvider } from '../services/providers/ui-provider-factory.js';
+import { responseCache, bypassesCache } from '../services/response-cache.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/errors.js';
 import type { ApiResponse } from '../types/index.js';
@@ -26,14 +27,26 @@ fetchUi.post(
     });
 
     try {
-      const provider = getUiProvider();
-      const providerResponse = await provider.fetchUi(request);
+      const provider = getUiProvider(request.provider);
+      const { result: providerResponse, status } = await responseCache.run(
+        bypassesCache(c.req.header('Cache-Control')),
+        () => provider.fetchUi(request)
+      );
+      if (status) c.header('X-Cache', status);
 
-      const response: ApiResponse<{ text: string; previewUrl?: string; provider: string }> = {
+      const response: ApiResponse<{
+        text: string;
+        previewUrl?: string;
+        files?: Array<{ name: string; content: string; path?: string }>;
+        instructions?: string;
+        provider: string;
+      }> = {
         success: true,
         data: {
           text: providerResponse.text,
           previewUrl: providerResponse.previewUrl,
+          files: providerResponse.files,
+          instructions: providerResponse.instructions,
           provider: providerResponse.provider,
         },
         timestamp: new Date().toISOString(),
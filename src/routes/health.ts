@@ -5,6 +5,7 @@
 import { Hono } from 'hono';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { outboundClient } from '../utils/outbound-client.js';
 
 const health = new Hono();
 
@@ -20,7 +21,7 @@ health.get('/', (c) => {
 });
 
 /**
- * Detailed health check with configuration info
+ * Detailed health check with configuration info and upstream circuit breakers
  */
 health.get('/detailed', (c) => {
   return c.json({
@@ -36,6 +37,7 @@ health.get('/detailed', (c) => {
       authMethods: config.auth.methods,
       baseUrl: config.baseUrl,
     },
+    circuitBreakers: outboundClient.getBreakerStates(),
     uptime: process.uptime(),
     memory: process.memoryUsage(),
   });
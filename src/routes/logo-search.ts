@@ -6,6 +6,7 @@ import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { logoSearchSchema } from '../utils/validation.js';
 import { logoService } from '../services/logo-service.js';
+import { responseCache, bypassesCache } from '../services/response-cache.js';
 import { logger } from '../utils/logger.js';
 import { AppError } from '../utils/errors.js';
 import type { ApiResponse } from '../types/index.js';
@@ -27,7 +28,11 @@ logoSearch.post(
     });
 
     try {
-      const result = await logoService.searchLogos(request);
+      const { result, status } = await responseCache.run(
+        bypassesCache(c.req.header('Cache-Control')),
+        () => logoService.searchLogos(request)
+      );
+      if (status) c.header('X-Cache', status);
 
       const response: ApiResponse = {
         success: true,
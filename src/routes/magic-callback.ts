@@ -0,0 +1,50 @@
+/**
+ * Headless Magic callback routes
+ *
+ * Mounted outside /api, and only in headless mode, because the relayed
+ * 21st.dev payload carries no credentials: each job's relay URL is
+ * authorized by its per-job token instead.
+ */
+
+import { Hono } from 'hono';
+import { magicJobs } from '../services/magic-jobs.js';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+
+const magicCallback = new Hono();
+
+/**
+ * Read the component payload, sent as raw text (or JSON `{ "data": "..." }`)
+ */
+function readComponentData(body: string, contentType?: string): string {
+  let data = body;
+
+  if (contentType?.includes('application/json')) {
+    try {
+      const parsed = JSON.parse(body);
+      data = typeof parsed?.data === 'string' ? parsed.data : body;
+    } catch {
+      // Not JSON after all, keep the raw body
+    }
+  }
+
+  if (!data.trim()) {
+    throw new ValidationError('Component data is empty');
+  }
+  return data;
+}
+
+/**
+ * Manual relay callback for a specific job (`?token=` from the job's callbackUrl)
+ */
+magicCallback.post('/callback/magic/:jobId', async (c) => {
+  const jobId = c.req.param('jobId');
+  const data = readComponentData(await c.req.text(), c.req.header('content-type'));
+
+  logger.info('Magic relay callback received', { jobId, bodyLength: data.length });
+
+  await magicJobs.complete(jobId, c.req.query('token') || '', data);
+  return c.text('success');
+});
+
+export default magicCallback;
@@ -0,0 +1,34 @@
+/**
+ * GET /api/magic/jobs route
+ */
+
+import { Hono } from 'hono';
+import { magicJobs, MagicJob } from '../services/magic-jobs.js';
+import { getPrincipal } from '../middleware/auth.js';
+import { logger } from '../utils/logger.js';
+import type { ApiResponse } from '../types/index.js';
+
+const magicJobsRoute = new Hono();
+
+/**
+ * Poll a headless Magic generation job
+ *
+ * `status` is 'pending' until the component arrives, then 'completed' with
+ * `result` holding the same data as a blocking create-ui response. Jobs of
+ * other principals are reported as not found.
+ */
+magicJobsRoute.get('/:jobId', (c) => {
+  const jobId = c.req.param('jobId');
+
+  logger.debug('Magic job status requested', { jobId });
+
+  const response: ApiResponse<MagicJob> = {
+    success: true,
+    data: magicJobs.get(jobId, getPrincipal(c)),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+export default magicJobsRoute;
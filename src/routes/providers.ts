@@ -0,0 +1,31 @@
+/**
+ * GET /api/providers route
+ */
+
+import { Hono } from 'hono';
+import { listProviders } from '../services/providers/ui-provider-factory.js';
+import { logger } from '../utils/logger.js';
+import type { ApiResponse } from '../types/index.js';
+
+const providers = new Hono();
+
+/**
+ * List configured UI providers and their capabilities
+ *
+ * Pass `?status=true` to also check each provider's availability.
+ */
+providers.get('/', async (c) => {
+  const includeStatus = c.req.query('status') === 'true';
+
+  logger.debug('Providers list requested', { includeStatus });
+
+  const response: ApiResponse<Awaited<ReturnType<typeof listProviders>>> = {
+    success: true,
+    data: await listProviders(includeStatus),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+export default providers;
@@ -7,21 +7,56 @@ import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { refineUiSchema } from '../utils/validation.js';
 import { getUiProvider } from '../services/providers/ui-provider-factory.js';
+import { streamRefineUi } from '../services/providers/ui-stream.js';
+import { responseCache, bypassesCache } from '../services/response-cache.js';
+import { applyService, ApplyResult } from '../services/apply-service.js';
+import type { DependencyReport } from '../services/dependency-resolver.js';
+import { createRefinementDiff, RefinementDiff } from '../services/refinement-diff.js';
+import { fileSandbox } from '../services/file-sandbox.js';
+import { streamUiEvents } from '../utils/sse.js';
 import { logger } from '../utils/logger.js';
 import { AppError, ValidationError } from '../utils/errors.js';
 import type { ApiResponse } from '../types/index.js';
-import { promises as fs } from 'fs';
 
 const refineUi = new Hono();
 
-// Extended schema for API that includes fileContent and sessionId
+// Extended schema for API that includes fileContent
 const refineUiApiSchema = refineUiSchema.extend({
   fileContent: z.string().optional(),
-  sessionId: z.string().optional(),
 });
 
+type RefineUiApiInput = z.infer<typeof refineUiApiSchema>;
+
+/**
+ * Get file content either from request or by reading file inside the sandbox
+ */
+async function resolveFileContent(request: RefineUiApiInput): Promise<string> {
+  if (request.fileContent) {
+    return request.fileContent;
+  }
+
+  try {
+    return await fileSandbox.readFile(request.absolutePathToRefiningFile);
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Failed to read file for refinement', error, {
+      file: request.absolutePathToRefiningFile,
+    });
+    throw new ValidationError(
+      `Failed to read file: ${request.absolutePathToRefiningFile}`,
+      { originalError: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+}
+
 /**
- * Refine an existing UI component
+ * Refine an existing UI component, optionally applying its files to the project
+ *
+ * With `responseFormat: "diff"` the refined file is returned as a unified diff
+ * against its current content instead of the whole component.
  */
 refineUi.post(
   '/',
@@ -34,49 +69,72 @@ refineUi.post(
     });
 
     try {
-      // Get file content either from request or by reading file
-      let fileContent = request.fileContent;
-
-      if (!fileContent) {
-        try {
-          fileContent = await fs.readFile(
-            request.absolutePathToRefiningFile,
-            'utf-8'
-          );
-        } catch (error) {
-          logger.error('Failed to read file for refinement', error, {
-            file: request.absolutePathToRefiningFile,
-          });
-          throw new ValidationError(
-            `Failed to read file: ${request.absolutePathToRefiningFile}`,
-            { originalError: error instanceof Error ? error.message : 'Unknown error' }
-          );
-        }
-      }
+      const provider = getUiProvider(request.provider);
+      const fileContent = await resolveFileContent(request);
 
-      const provider = getUiProvider();
-      const providerResponse = await provider.refineUi(
-        {
-          userMessage: request.userMessage,
-          absolutePathToRefiningFile: request.absolutePathToRefiningFile,
-          context: request.context,
-        },
-        fileContent,
-        request.sessionId
+      const { result: providerResponse, status } = await responseCache.run(
+        bypassesCache(c.req.header('Cache-Control')),
+        () => provider.refineUi(
+          {
+            userMessage: request.userMessage,
+            absolutePathToRefiningFile: request.absolutePathToRefiningFile,
+            context: request.context,
+            provider: request.provider,
+            absolutePathToProjectDirectory: request.absolutePathToProjectDirectory,
+          },
+          fileContent,
+          request.sessionId
+        )
       );
+      if (status) c.header('X-Cache', status);
+
+      const applyResult = request.apply
+        ? await applyService.apply(
+          providerResponse.files || [],
+          {
+            projectDirectory: request.absolutePathToProjectDirectory,
+            targetFile: request.absolutePathToRefiningFile,
+            refinements: provider.getCapabilities().refinements,
+            baseContent: fileContent,
+          },
+          { mode: request.apply, overwrite: request.overwrite }
+        )
+        : undefined;
+
+      const refinementDiff = request.responseFormat === 'diff'
+        ? createRefinementDiff(
+          request.absolutePathToRefiningFile,
+          fileContent,
+          providerResponse.files || [],
+          provider.getCapabilities().refinements
+        )
+        : undefined;
 
       const response: ApiResponse<{
-        text: string;
+        text?: string;
         previewUrl?: string;
+        files?: Array<{ name: string; content: string; path?: string }>;
+        instructions?: string;
         sessionId?: string;
         provider: string;
+        diff?: RefinementDiff;
+        dependencies?: DependencyReport;
+        apply?: ApplyResult;
       }> = {
         success: true,
         data: {
-          text: providerResponse.text,
+          // The diff replaces the full text and the refined file; other generated files are kept
+          text: refinementDiff ? undefined : providerResponse.text,
           previewUrl: providerResponse.previewUrl,
+          files: refinementDiff
+            ? providerResponse.files?.filter((file) => (file.path || file.name) !== refinementDiff.source)
+            : providerResponse.files,
+          instructions: providerResponse.instructions,
           sessionId: providerResponse.sessionId,
           provider: providerResponse.provider,
+          diff: refinementDiff,
+          dependencies: providerResponse.dependencies,
+          apply: applyResult,
         },
         timestamp: new Date().toISOString(),
       };
@@ -104,4 +162,39 @@ refineUi.post(
   }
 );
 
+/**
+ * Refine an existing UI component, streaming progress as Server-Sent Events
+ */
+refineUi.post(
+  '/stream',
+  zValidator('json', refineUiApiSchema),
+  async (c) => {
+    const request = c.req.valid('json');
+
+    logger.info('Refine UI stream request received', {
+      file: request.absolutePathToRefiningFile,
+    });
+
+    // Resolve provider and file before streaming so these errors return a normal JSON error
+    const provider = getUiProvider(request.provider);
+    const fileContent = await resolveFileContent(request);
+
+    // Streamed results are not applied; apply them afterwards through /api/apply
+    return streamUiEvents(c, () =>
+      streamRefineUi(
+        provider,
+        {
+          userMessage: request.userMessage,
+          absolutePathToRefiningFile: request.absolutePathToRefiningFile,
+          context: request.context,
+          provider: request.provider,
+          absolutePathToProjectDirectory: request.absolutePathToProjectDirectory,
+        },
+        fileContent,
+        request.sessionId
+      )
+    );
+  }
+);
+
 export default refineUi;
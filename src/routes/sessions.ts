@@ -0,0 +1,237 @@
+/**
+ * /api/sessions routes
+ */
+
+import { Hono, Context } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { versionService } from '../services/version-service.js';
+import { sessionHistory, SessionRecord } from '../services/session-history.js';
+import { getPrincipal } from '../middleware/auth.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import type { ApiResponse } from '../types/index.js';
+
+const sessions = new Hono();
+
+const providerQuerySchema = z.object({
+  provider: z.string().min(1).optional(),
+});
+
+const forkBodySchema = z.object({
+  versionId: z.string().min(1).optional(),
+  provider: z.string().min(1).optional(),
+});
+
+const diffQuerySchema = providerQuerySchema.extend({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+/**
+ * Get a stored session owned by the caller
+ *
+ * Every /:sessionId route starts with this check. Sessions of other
+ * principals, and sessions this server has not recorded, are reported as not found.
+ */
+function getOwnSession(c: Context, sessionId: string): SessionRecord {
+  const session = sessionHistory.get(sessionId);
+
+  if (!session || session.principal !== getPrincipal(c)) {
+    throw new NotFoundError(`Session not found: ${sessionId}`);
+  }
+  return session;
+}
+
+/**
+ * List the caller's sessions, most recently updated first
+ */
+sessions.get('/', (c) => {
+  const principal = getPrincipal(c);
+
+  logger.info('List sessions request received', { principal });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      sessions: sessionHistory.list(principal),
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Get a session with every turn's request and files
+ */
+sessions.get('/:sessionId', (c) => {
+  const sessionId = c.req.param('sessionId');
+
+  logger.info('Get session request received', { sessionId });
+
+  const response: ApiResponse = {
+    success: true,
+    data: getOwnSession(c, sessionId),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Delete a stored session
+ *
+ * Only the local record is removed; native sessions (e.g. v0 chats) remain upstream.
+ */
+sessions.delete('/:sessionId', (c) => {
+  const sessionId = c.req.param('sessionId');
+
+  logger.info('Delete session request received', { sessionId });
+
+  getOwnSession(c, sessionId);
+  sessionHistory.delete(sessionId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { deleted: sessionId },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * List versions of a session, newest first
+ */
+sessions.get('/:sessionId/versions', zValidator('query', providerQuerySchema), async (c) => {
+  const sessionId = c.req.param('sessionId');
+  const { provider } = c.req.valid('query');
+
+  logger.info('List versions request received', { sessionId, provider });
+
+  getOwnSession(c, sessionId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      sessionId,
+      versions: await versionService.listVersions(sessionId, provider),
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Get the files of a specific version
+ */
+sessions.get('/:sessionId/versions/:versionId', zValidator('query', providerQuerySchema), async (c) => {
+  const sessionId = c.req.param('sessionId');
+  const versionId = c.req.param('versionId');
+  const { provider } = c.req.valid('query');
+
+  logger.info('Get version request received', { sessionId, versionId, provider });
+
+  getOwnSession(c, sessionId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: await versionService.getVersion(sessionId, versionId, provider),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Diff the files of two versions (`?from=<versionId>&to=<versionId>`)
+ */
+sessions.get('/:sessionId/diff', zValidator('query', diffQuerySchema), async (c) => {
+  const sessionId = c.req.param('sessionId');
+  const { from, to, provider } = c.req.valid('query');
+
+  logger.info('Diff versions request received', { sessionId, from, to, provider });
+
+  getOwnSession(c, sessionId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: await versionService.diffVersions(sessionId, from, to, provider),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+/**
+ * Restore an older version as the base for the next refinement
+ *
+ * The response's sessionId should be passed to later refine-ui requests.
+ */
+sessions.post(
+  '/:sessionId/versions/:versionId/restore',
+  zValidator('query', providerQuerySchema),
+  async (c) => {
+    const sessionId = c.req.param('sessionId');
+    const versionId = c.req.param('versionId');
+    const { provider } = c.req.valid('query');
+
+    logger.info('Restore version request received', { sessionId, versionId, provider });
+
+    getOwnSession(c, sessionId);
+
+    const result = await versionService.restoreVersion(sessionId, versionId, provider);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        text: result.text,
+        previewUrl: result.previewUrl,
+        files: result.files,
+        instructions: result.instructions,
+        sessionId: result.sessionId,
+        provider: result.provider,
+        metadata: result.metadata,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response);
+  }
+);
+
+/**
+ * Fork a session into a new one that can be refined independently
+ *
+ * Body: `{ versionId?, provider? }`. Pass the returned sessionId to refine-ui.
+ */
+sessions.post('/:sessionId/fork', zValidator('json', forkBodySchema), async (c) => {
+  const sessionId = c.req.param('sessionId');
+  const { versionId, provider } = c.req.valid('json');
+
+  logger.info('Fork session request received', { sessionId, versionId, provider });
+
+  getOwnSession(c, sessionId);
+
+  const result = await versionService.forkSession(sessionId, versionId, provider);
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      text: result.text,
+      previewUrl: result.previewUrl,
+      files: result.files,
+      instructions: result.instructions,
+      sessionId: result.sessionId,
+      provider: result.provider,
+      metadata: result.metadata,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response, 201);
+});
+
+export default sessions;
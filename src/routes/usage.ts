@@ -0,0 +1,126 @@
+/**
+ * /api/usage route
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { usageTracker, UsageRecord, UsageSummary } from '../services/usage-tracker.js';
+import { getPrincipal, isAdmin } from '../middleware/auth.js';
+import { logger } from '../utils/logger.js';
+import { toCsv } from '../utils/csv.js';
+import type { ApiResponse } from '../types/index.js';
+
+const usage = new Hono();
+
+const GROUP_BY_FIELDS = ['principal', 'provider', 'operation', 'day'] as const;
+
+const RECORD_COLUMNS: Array<keyof UsageRecord> = [
+  'id',
+  'timestamp',
+  'principal',
+  'provider',
+  'operation',
+  'durationMs',
+  'success',
+  'errorCode',
+  'inputSize',
+  'outputSize',
+  'chatId',
+];
+
+const SUMMARY_COLUMNS: Array<keyof UsageSummary> = [
+  'calls',
+  'succeeded',
+  'failed',
+  'chats',
+  'durationMs',
+  'avgDurationMs',
+  'inputSize',
+  'outputSize',
+];
+
+const dateField = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Must be an ISO 8601 date or timestamp')
+  .transform((value) => new Date(value));
+
+const usageQuerySchema = z.object({
+  principal: z.string().min(1).optional(),
+  provider: z.string().min(1).optional(),
+  operation: z.enum(['create-ui', 'fetch-ui', 'refine-ui', 'restore-version', 'fork-session']).optional(),
+  from: dateField.optional(),
+  to: dateField.optional(),
+  groupBy: z
+    .string()
+    .transform((value) => value.split(',').map((field) => field.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(GROUP_BY_FIELDS)).min(1))
+    .optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+  limit: z.coerce.number().int().min(1).max(10000).default(1000),
+});
+
+/**
+ * Usage records, or summaries grouped by `groupBy` (any of principal, provider,
+ * operation, day), as JSON or CSV (`format=csv`)
+ *
+ * Non-admins only see their own usage, as records carry upstream chat IDs
+ * that give access to the chats' code.
+ */
+usage.get('/', zValidator('query', usageQuerySchema), (c) => {
+  const { groupBy, format, limit, ...filter } = c.req.valid('query');
+  if (!isAdmin(c)) {
+    filter.principal = getPrincipal(c);
+  }
+
+  logger.info('Usage request received', { ...filter, groupBy, format });
+
+  const records = usageTracker.query(filter);
+
+  if (groupBy) {
+    const groups = usageTracker.aggregate(records, groupBy);
+
+    if (format === 'csv') {
+      c.header('Content-Disposition', 'attachment; filename="usage-summary.csv"');
+      return c.body(toCsv(groups, [...groupBy, ...SUMMARY_COLUMNS]), 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        groupBy,
+        groups,
+        total: usageTracker.summarize(records),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response);
+  }
+
+  // The most recent records, in chronological order
+  const recent = records.slice(-limit);
+
+  if (format === 'csv') {
+    c.header('Content-Disposition', 'attachment; filename="usage.csv"');
+    return c.body(toCsv(recent, RECORD_COLUMNS), 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+    });
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      records: recent,
+      truncated: recent.length < records.length,
+      total: usageTracker.summarize(records),
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(response);
+});
+
+export default usage;
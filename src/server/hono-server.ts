@@ -10,15 +10,26 @@ import { serve } from '@hono/node-server';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
 import { createAuthMiddleware } from '../middleware/auth.js';
+import { createRateLimitMiddleware } from '../middleware/rate-limit.js';
+import { principalMiddleware } from '../middleware/principal.js';
 import { AppError } from '../utils/errors.js';
 import type { ApiResponse } from '../types/index.js';
 
 // Import routes
 import health from '../routes/health.js';
 import createUi from '../routes/create-ui.js';
+import compareUi from '../routes/compare-ui.js';
 import fetchUi from '../routes/fetch-ui.js';
 import refineUi from '../routes/refine-ui.js';
 import logoSearch from '../routes/logo-search.js';
+import providers from '../routes/providers.js';
+import sessions from '../routes/sessions.js';
+import magicJobs from '../routes/magic-jobs.js';
+import magicCallback from '../routes/magic-callback.js';
+import cache from '../routes/cache.js';
+import usage from '../routes/usage.js';
+import apply from '../routes/apply.js';
+import { listProviders } from '../services/providers/ui-provider-factory.js';
 
 /**
  * Create and configure Hono app
@@ -36,8 +47,18 @@ export function createApp(): Hono {
     cors({
       origin: '*',
       allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
-      exposeHeaders: ['Content-Length', 'X-Request-Id'],
+      allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Cache-Control'],
+      exposeHeaders: [
+        'Content-Length',
+        'X-Request-Id',
+        'X-Cache',
+        'RateLimit-Limit',
+        'RateLimit-Remaining',
+        'RateLimit-Reset',
+        'RateLimit-Policy',
+        'Retry-After',
+        'Content-Disposition',
+      ],
       maxAge: 86400,
       credentials: true,
     })
@@ -49,15 +70,36 @@ export function createApp(): Hono {
     app.use('/api/*', authMiddleware);
   }
 
+  // Rate limiting middleware (if enabled), keyed on the authenticated principal
+  const rateLimitMiddleware = createRateLimitMiddleware();
+  if (rateLimitMiddleware) {
+    app.use('/api/*', rateLimitMiddleware);
+  }
+
+  // Attribute usage and sessions to the authenticated principal
+  app.use('/api/*', principalMiddleware);
+
   // Mount routes
   app.route('/health', health);
   app.route('/api/create-ui', createUi);
+  app.route('/api/compare-ui', compareUi);
   app.route('/api/fetch-ui', fetchUi);
   app.route('/api/refine-ui', refineUi);
   app.route('/api/logo-search', logoSearch);
+  app.route('/api/providers', providers);
+  app.route('/api/sessions', sessions);
+  app.route('/api/magic/jobs', magicJobs);
+  app.route('/api/cache', cache);
+  app.route('/api/usage', usage);
+  app.route('/api/apply', apply);
+  if (config.uiProvider.magic?.headless) {
+    app.route('/', magicCallback);
+  }
 
   // Root endpoint
-  app.get('/', (c) => {
+  app.get('/', async (c) => {
+    const { default: defaultProvider, providers: configuredProviders } = await listProviders();
+
     return c.json({
       name: 'Magic MCP Server',
       version: '1.0.0',
@@ -66,10 +108,29 @@ export function createApp(): Hono {
         health: '/health',
         healthDetailed: '/health/detailed',
         createUi: 'POST /api/create-ui',
+        createUiStream: 'POST /api/create-ui/stream',
+        compareUi: 'POST /api/compare-ui',
         fetchUi: 'POST /api/fetch-ui',
         refineUi: 'POST /api/refine-ui',
+        refineUiStream: 'POST /api/refine-ui/stream',
         logoSearch: 'POST /api/logo-search',
+        providers: 'GET /api/providers',
+        sessions: 'GET /api/sessions',
+        session: 'GET|DELETE /api/sessions/:sessionId',
+        sessionVersions: 'GET /api/sessions/:sessionId/versions',
+        sessionVersion: 'GET /api/sessions/:sessionId/versions/:versionId',
+        sessionDiff: 'GET /api/sessions/:sessionId/diff?from=&to=',
+        sessionRestore: 'POST /api/sessions/:sessionId/versions/:versionId/restore',
+        sessionFork: 'POST /api/sessions/:sessionId/fork',
+        magicJob: 'GET /api/magic/jobs/:jobId',
+        cache: 'GET|DELETE /api/cache',
+        cacheEntry: 'GET|DELETE /api/cache/:key',
+        usage: 'GET /api/usage',
+        apply: 'POST /api/apply',
+        applyRollback: 'POST /api/apply/rollback',
       },
+      defaultProvider,
+      providers: configuredProviders.map(({ name, capabilities }) => ({ name, capabilities })),
       documentation: 'https://github.com/yourusername/magic-mcp-server',
     });
   });
@@ -124,7 +185,7 @@ export async function startHttpServer(): Promise<void> {
     authEnabled: config.auth.enabled,
   });
 
-  serve(
+  const server = serve(
     {
       fetch: app.fetch,
       port: config.port,
@@ -138,4 +199,13 @@ export async function startHttpServer(): Promise<void> {
       });
     }
   );
+
+  // Exit on termination signals, so persisted state is flushed on exit
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      logger.info(`HTTP: Received ${signal}, shutting down`);
+      server.close();
+      process.exit(0);
+    });
+  }
 }
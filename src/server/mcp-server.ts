@@ -9,15 +9,31 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../utils/logger.js';
+import { currentPrincipal } from '../utils/principal.js';
 import { getUiProvider } from '../services/providers/ui-provider-factory.js';
 import { logoService } from '../services/logo-service.js';
+import { versionService } from '../services/version-service.js';
+import { magicJobs } from '../services/magic-jobs.js';
+import { compareService } from '../services/compare-service.js';
+import { applyService, ApplyResult } from '../services/apply-service.js';
+import { fileSandbox } from '../services/file-sandbox.js';
+import { createRefinementDiff, formatRefinementDiff } from '../services/refinement-diff.js';
+import type { UiProviderResponse } from '../services/providers/ui-provider.interface.js';
 import {
   createUiSchema,
+  compareUiSchema,
   fetchUiSchema,
   refineUiSchema,
   logoSearchSchema,
+  listVersionsSchema,
+  getVersionSchema,
+  diffVersionsSchema,
+  restoreVersionSchema,
+  forkSessionSchema,
+  magicJobSchema,
+  applyFilesSchema,
+  rollbackSchema,
 } from '../utils/validation.js';
-import { promises as fs } from 'fs';
 
 /**
  * MCP Tool definitions
@@ -26,8 +42,9 @@ const TOOLS = [
   {
     name: '21st_magic_component_builder',
     description: `Use this tool when the user requests a new UI component—e.g., mentions /ui, /21 /21st, or asks for a button, input, dialog, table, form, banner, card, or other React component.
-This tool ONLY returns the text snippet for that UI component.
-After calling this tool, you must edit or add files to integrate the snippet into the codebase.`,
+By default this tool returns the text snippet for that UI component, and you must edit or add files to integrate it into the codebase.
+Set apply to "dry-run" to preview the generated files as diffs against the project, or to "write" to write them (following the project's components directory and path aliases); conflicting files are only replaced with overwrite: true, and writes can be undone with 21st_magic_component_rollback.
+If the server runs headless, this tool returns a 21st.dev URL for the user to open and a job ID; fetch the component with 21st_magic_component_job once the user has picked one.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -54,6 +71,21 @@ After calling this tool, you must edit or add files to integrate the snippet int
           description:
             "You need to formulate what component user wants to create, based on his message, possible chat history and a place where he makes the request. Extract additional context about what should be done to create a ui component/page based on the user's message, search query, and conversation history, files. Don't hallucinate and be on point.",
         },
+        provider: {
+          type: 'string',
+          description:
+            "Optional UI provider to use for this request (e.g. 'magic', 'v0', 'local', 'openai' or a plugin provider). Defaults to the server's configured provider",
+        },
+        apply: {
+          type: 'string',
+          enum: ['dry-run', 'write'],
+          description:
+            "Optional: write the generated files into the project ('write') or preview them as diffs ('dry-run'). Omit to only return the snippet",
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Optional: with apply "write", replace existing files that differ from the generated ones',
+        },
       },
       required: [
         'message',
@@ -80,6 +112,11 @@ After calling this tool, you must edit or add files to integrate the snippet int
           description:
             "Search query for 21st.dev (library for searching UI components) to find a UI component that matches the user's message. Must be a two-four words max or phrase",
         },
+        provider: {
+          type: 'string',
+          description:
+            "Optional UI provider to use for this request (e.g. 'magic', 'v0', 'local', 'openai' or a plugin provider). Defaults to the server's configured provider",
+        },
       },
       required: ['message', 'searchQuery'],
     },
@@ -88,7 +125,9 @@ After calling this tool, you must edit or add files to integrate the snippet int
     name: '21st_magic_component_refiner',
     description: `Use this tool when the user requests to re-design/refine/improve current UI component with /ui or /21 commands,
 or when context is about improving, or refining UI for a React component or molecule (NOT for big pages).
-This tool improves UI of components and returns redesigned version of the component and instructions on how to implement it.`,
+This tool improves UI of components and returns redesigned version of the component and instructions on how to implement it.
+Set apply to "dry-run" to preview the changes as diffs, or to "write" to update the refined file directly (backed up for 21st_magic_component_rollback).
+Set responseFormat to "diff" to get a unified diff of the refined file instead of the whole component, which is easier to review and apply to large files.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -105,10 +144,277 @@ This tool improves UI of components and returns redesigned version of the compon
           description:
             'Extract the specific UI elements and aspects that need improvement based on user messages, code, and conversation history. Identify exactly which components (buttons, forms, modals, etc.) the user is referring to and what aspects (styling, layout, responsiveness, etc.) they want to enhance. Do not include generic improvements - focus only on what the user explicitly mentions or what can be reasonably inferred from the available context. If nothing specific is mentioned or you cannot determine what needs improvement, return an empty string.',
         },
+        sessionId: {
+          type: 'string',
+          description: 'Optional session ID to continue, from a previous generation or fork',
+        },
+        provider: {
+          type: 'string',
+          description:
+            "Optional UI provider to use for this request (e.g. 'magic', 'v0', 'local', 'openai' or a plugin provider). Defaults to the server's configured provider",
+        },
+        absolutePathToProjectDirectory: {
+          type: 'string',
+          description:
+            'Optional absolute path to the project root directory, used with apply. Defaults to the nearest directory with a package.json',
+        },
+        responseFormat: {
+          type: 'string',
+          enum: ['full', 'diff'],
+          description:
+            "Optional: 'diff' returns a unified diff of the refined file against its current content instead of the whole component. Defaults to 'full'",
+        },
+        apply: {
+          type: 'string',
+          enum: ['dry-run', 'write'],
+          description:
+            "Optional: write the generated files into the project ('write') or preview them as diffs ('dry-run'). Omit to only return the snippet",
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Optional: with apply "write", replace existing files that differ from the generated ones',
+        },
       },
       required: ['userMessage', 'absolutePathToRefiningFile', 'context'],
     },
   },
+  {
+    name: '21st_magic_component_versions',
+    description: `List the versions (iterations) of a UI generation session, newest first.
+Use this when the user wants to see earlier iterations of a generated or refined component,
+e.g. before going back to a previous version. Requires a provider with version history (v0).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session ID returned by a previous generation (e.g. the v0 chat ID)',
+        },
+        provider: {
+          type: 'string',
+          description: 'Optional UI provider owning the session. Defaults to the first configured provider with version history',
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: '21st_magic_component_version',
+    description: `Fetch the files of a specific version of a UI generation session.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session ID returned by a previous generation (e.g. the v0 chat ID)',
+        },
+        versionId: {
+          type: 'string',
+          description: 'Version ID to fetch',
+        },
+        provider: {
+          type: 'string',
+          description: 'Optional UI provider owning the session. Defaults to the first configured provider with version history',
+        },
+      },
+      required: ['sessionId', 'versionId'],
+    },
+  },
+  {
+    name: '21st_magic_component_version_diff',
+    description: `Show a unified diff between two versions of a UI generation session.
+Use this to explain what changed between iterations.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session ID returned by a previous generation (e.g. the v0 chat ID)',
+        },
+        fromVersionId: {
+          type: 'string',
+          description: 'Older version ID to compare from',
+        },
+        toVersionId: {
+          type: 'string',
+          description: 'Newer version ID to compare to',
+        },
+        provider: {
+          type: 'string',
+          description: 'Optional UI provider owning the session. Defaults to the first configured provider with version history',
+        },
+      },
+      required: ['sessionId', 'fromVersionId', 'toVersionId'],
+    },
+  },
+  {
+    name: '21st_magic_component_version_restore',
+    description: `Restore an older version of a UI generation session as the base for the next refinement.
+Use this when the user wants to go back to a previous iteration after a refinement went wrong.
+Returns the restored component and the session ID to use for further refinements.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session ID returned by a previous generation (e.g. the v0 chat ID)',
+        },
+        versionId: {
+          type: 'string',
+          description: 'Version ID to restore',
+        },
+        provider: {
+          type: 'string',
+          description: 'Optional UI provider owning the session. Defaults to the first configured provider with version history',
+        },
+      },
+      required: ['sessionId', 'versionId'],
+    },
+  },
+  {
+    name: '21st_magic_component_fork',
+    description: `Fork a UI generation session to explore a different direction from the same point.
+Use this when the user wants to try an alternative variant without losing the current one.
+Returns the component at the fork point and a new session ID to refine independently with the refiner tool.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session ID returned by a previous generation',
+        },
+        versionId: {
+          type: 'string',
+          description: 'Optional version ID to fork from. Defaults to the latest version',
+        },
+        provider: {
+          type: 'string',
+          description: 'Optional UI provider owning the session. Defaults to the provider that created it',
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: '21st_magic_component_job',
+    description: `Get the result of a headless 21st_magic_component_builder call.
+When the server runs headless, the builder returns a 21st.dev chat URL and a job ID instead of waiting.
+After the user has picked a component in the browser, call this tool with the job ID to get the component code.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: {
+          type: 'string',
+          description: 'Job ID returned by a headless Magic component builder call',
+        },
+      },
+      required: ['jobId'],
+    },
+  },
+  {
+    name: '21st_magic_component_compare',
+    description: `Generate the same UI component with several providers side by side (e.g. 21st.dev Magic and v0).
+Use this only when the user explicitly wants to compare providers or pick between their results.
+Returns each provider's component with its timing, size and any error, plus session IDs to refine the preferred result with the refiner tool.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          description: 'Full users message',
+        },
+        searchQuery: {
+          type: 'string',
+          description:
+            "Search query for 21st.dev (library for searching UI components) to find a UI component that matches the user's message. Must be a two-four words max or phrase",
+        },
+        absolutePathToCurrentFile: {
+          type: 'string',
+          description:
+            'Absolute path to the current file to which we want to apply changes',
+        },
+        absolutePathToProjectDirectory: {
+          type: 'string',
+          description: 'Absolute path to the project root directory',
+        },
+        standaloneRequestQuery: {
+          type: 'string',
+          description:
+            'Detailed description of the component to create, based on the user\'s message and conversation context',
+        },
+        providers: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Optional providers to compare. Defaults to every configured provider',
+        },
+        timeout: {
+          type: 'number',
+          description: 'Optional per-provider timeout in milliseconds (1000-600000)',
+        },
+      },
+      required: [
+        'message',
+        'searchQuery',
+        'absolutePathToCurrentFile',
+        'absolutePathToProjectDirectory',
+        'standaloneRequestQuery',
+      ],
+    },
+  },
+  {
+    name: '21st_magic_component_apply',
+    description: `Write the files of a UI generation session into the project, or preview them as diffs.
+Use this after the builder or refiner when the user wants the generated component added to the codebase.
+Defaults to a dry run listing each file as create/modify/unchanged/conflict with unified diffs; call again with mode "write" to write the files.
+Existing files that differ are only replaced with overwrite: true. A write returns a backup ID for 21st_magic_component_rollback.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session ID returned by a previous generation',
+        },
+        versionId: {
+          type: 'string',
+          description: 'Optional version ID to apply. Defaults to the latest version',
+        },
+        absolutePathToProjectDirectory: {
+          type: 'string',
+          description: 'Optional absolute path to the project root directory. Defaults to the one the session was generated for',
+        },
+        mode: {
+          type: 'string',
+          enum: ['dry-run', 'write'],
+          description: "Optional: 'dry-run' (default) to preview diffs, 'write' to write the files",
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Optional: replace existing files that differ from the generated ones',
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: '21st_magic_component_rollback',
+    description: `Undo a write made by the apply option or 21st_magic_component_apply: restores replaced files and deletes created ones.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        absolutePathToProjectDirectory: {
+          type: 'string',
+          description: 'Absolute path to the project root directory the files were written to',
+        },
+        backupId: {
+          type: 'string',
+          description: 'Backup ID returned by the write',
+        },
+      },
+      required: ['absolutePathToProjectDirectory', 'backupId'],
+    },
+  },
   {
     name: 'logo_search',
     description: `Search and return logos in specified format (JSX, TSX, SVG).
@@ -156,6 +462,22 @@ Each result includes:
   },
 ];
 
+/**
+ * Append the session ID so later refine/fork tool calls can continue the session
+ */
+function withSessionId(response: UiProviderResponse): string {
+  return response.sessionId
+    ? `${response.text}\n\n**Session ID**: ${response.sessionId}`
+    : response.text;
+}
+
+/**
+ * Append the result of applying the generated files, when requested
+ */
+function withApplyResult(text: string, result?: ApplyResult): string {
+  return result ? `${text}\n\n${applyService.format(result)}` : text;
+}
+
 /**
  * Create and configure MCP server
  */
@@ -187,17 +509,32 @@ export function createMCPServer(): Server {
     try {
       switch (name) {
         case '21st_magic_component_builder': {
-          const validated = createUiSchema.parse(args);
-          const provider = getUiProvider();
+          const { apply, overwrite, ...validated } = createUiSchema.parse(args);
+          const provider = getUiProvider(validated.provider);
           const response = await provider.createUi(validated);
+          const applied = apply
+            ? await applyService.apply(
+              response.files || [],
+              { projectDirectory: validated.absolutePathToProjectDirectory },
+              { mode: apply, overwrite }
+            )
+            : undefined;
           return {
-            content: [{ type: 'text' as const, text: response.text }],
+            content: [{ type: 'text' as const, text: withApplyResult(withSessionId(response), applied) }],
+          };
+        }
+
+        case '21st_magic_component_compare': {
+          const { providers, timeout, ...validated } = compareUiSchema.parse(args);
+          const comparison = await compareService.compare(validated, providers, timeout);
+          return {
+            content: [{ type: 'text' as const, text: compareService.formatComparison(comparison) }],
           };
         }
 
         case '21st_magic_component_inspiration': {
           const validated = fetchUiSchema.parse(args);
-          const provider = getUiProvider();
+          const provider = getUiProvider(validated.provider);
           const response = await provider.fetchUi(validated);
           return {
             content: [{ type: 'text' as const, text: response.text }],
@@ -205,15 +542,135 @@ export function createMCPServer(): Server {
         }
 
         case '21st_magic_component_refiner': {
-          const validated = refineUiSchema.parse(args);
-          const fileContent = await fs.readFile(
-            validated.absolutePathToRefiningFile,
-            'utf-8'
+          const { apply, overwrite, responseFormat, ...validated } = refineUiSchema.parse(args);
+          const provider = getUiProvider(validated.provider);
+          const fileContent = await fileSandbox.readFile(validated.absolutePathToRefiningFile);
+          const response = await provider.refineUi(validated, fileContent, validated.sessionId);
+          const applied = apply
+            ? await applyService.apply(
+              response.files || [],
+              {
+                projectDirectory: validated.absolutePathToProjectDirectory,
+                targetFile: validated.absolutePathToRefiningFile,
+                refinements: provider.getCapabilities().refinements,
+                baseContent: fileContent,
+              },
+              { mode: apply, overwrite }
+            )
+            : undefined;
+          const refinementDiff = responseFormat === 'diff'
+            ? createRefinementDiff(
+              validated.absolutePathToRefiningFile,
+              fileContent,
+              response.files || [],
+              provider.getCapabilities().refinements
+            )
+            : undefined;
+          const text = refinementDiff
+            ? withSessionId({
+              ...response,
+              text: [
+                formatRefinementDiff(refinementDiff),
+                // Other generated files are new, so they are returned whole
+                ...(response.files || [])
+                  .filter((file) => (file.path || file.name) !== refinementDiff.source)
+                  .map((file) => `### ${file.path || file.name}\n\n\`\`\`\n${file.content}\n\`\`\``),
+                response.instructions,
+              ].filter(Boolean).join('\n\n'),
+            })
+            : withSessionId(response);
+          return {
+            content: [{ type: 'text' as const, text: withApplyResult(text, applied) }],
+          };
+        }
+
+        case '21st_magic_component_versions': {
+          const validated = listVersionsSchema.parse(args);
+          const versions = await versionService.listVersions(validated.sessionId, validated.provider);
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(versions, null, 2) }],
+          };
+        }
+
+        case '21st_magic_component_version': {
+          const validated = getVersionSchema.parse(args);
+          const version = await versionService.getVersion(
+            validated.sessionId,
+            validated.versionId,
+            validated.provider
           );
-          const provider = getUiProvider();
-          const response = await provider.refineUi(validated, fileContent);
           return {
-            content: [{ type: 'text' as const, text: response.text }],
+            content: [{ type: 'text' as const, text: JSON.stringify(version, null, 2) }],
+          };
+        }
+
+        case '21st_magic_component_version_diff': {
+          const validated = diffVersionsSchema.parse(args);
+          const diff = await versionService.diffVersions(
+            validated.sessionId,
+            validated.fromVersionId,
+            validated.toVersionId,
+            validated.provider
+          );
+          return {
+            content: [{ type: 'text' as const, text: versionService.formatDiff(diff) }],
+          };
+        }
+
+        case '21st_magic_component_version_restore': {
+          const validated = restoreVersionSchema.parse(args);
+          const response = await versionService.restoreVersion(
+            validated.sessionId,
+            validated.versionId,
+            validated.provider
+          );
+          return {
+            content: [
+              { type: 'text' as const, text: `**Session ID for further refinements**: ${response.sessionId}\n\n${response.text}` },
+            ],
+          };
+        }
+
+        case '21st_magic_component_fork': {
+          const validated = forkSessionSchema.parse(args);
+          const response = await versionService.forkSession(
+            validated.sessionId,
+            validated.versionId,
+            validated.provider
+          );
+          return {
+            content: [
+              { type: 'text' as const, text: `**Forked session ID**: ${response.sessionId}\n\n${response.text}` },
+            ],
+          };
+        }
+
+        case '21st_magic_component_job': {
+          const validated = magicJobSchema.parse(args);
+          const job = magicJobs.get(validated.jobId, currentPrincipal());
+          const text = job.result
+            ? job.result.text
+            : job.status === 'pending'
+              ? `Job ${job.id} is still pending. Open ${job.chatUrl} and pick a component, then call this tool again. The job expires at ${job.expiresAt}.`
+              : `Job ${job.id} expired before a component was received. Call 21st_magic_component_builder again.`;
+          return {
+            content: [{ type: 'text' as const, text }],
+          };
+        }
+
+        case '21st_magic_component_apply': {
+          const validated = applyFilesSchema.parse(args);
+          const result = await applyService.applySession(validated);
+          return {
+            content: [{ type: 'text' as const, text: applyService.format(result) }],
+          };
+        }
+
+        case '21st_magic_component_rollback': {
+          const validated = rollbackSchema.parse(args);
+          const result = await applyService.rollback(validated.absolutePathToProjectDirectory, validated.backupId);
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
           };
         }
 
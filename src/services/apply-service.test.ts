@@ -0,0 +1,145 @@
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyService } from './apply-service.js';
+import { config } from '../utils/config.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors.js';
+
+jest.mock('./providers/ui-provider-factory.js', () => ({
+  getUiProvider: jest.fn(),
+}));
+
+const original = 'export function Pricing() {\n  return <table />;\n}\n';
+const refined = 'export function Pricing() {\n  return <table className="dark" />;\n}\n';
+
+describe('ApplyService', () => {
+  let root: string;
+  let targetFile: string;
+
+  beforeAll(() => {
+    root = realpathSync(mkdtempSync(path.join(os.tmpdir(), 'apply-')));
+    config.files.roots = [root];
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    rmSync(path.join(root, 'src'), { recursive: true, force: true });
+    rmSync(path.join(root, '.magic'), { recursive: true, force: true });
+    mkdirSync(path.join(root, 'src', 'components'), { recursive: true });
+    writeFileSync(path.join(root, 'package.json'), '{}');
+    targetFile = path.join(root, 'src', 'components', 'pricing.tsx');
+    writeFileSync(targetFile, original);
+  });
+
+  it('replaces the refined file with the generated file of the same name', async () => {
+    const result = await applyService.apply(
+      [{ name: 'pricing.tsx', content: refined }],
+      { projectDirectory: root, targetFile, baseContent: original },
+      { mode: 'dry-run' }
+    );
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({ path: targetFile, status: 'modify', additions: 1, deletions: 1 }),
+    ]);
+    expect(result.changes[0].diff).toContain('+  return <table className="dark" />;');
+    expect(readFileSync(targetFile, 'utf-8')).toBe(original);
+  });
+
+  it('replaces the refined file with a single differently named file only for edit refinements', async () => {
+    const files = [{ name: 'component.tsx', content: refined }];
+
+    const edit = await applyService.apply(files, { projectDirectory: root, targetFile, refinements: 'edit' }, { mode: 'dry-run' });
+    const unknown = await applyService.apply(files, { projectDirectory: root, targetFile }, { mode: 'dry-run' });
+
+    expect(edit.changes[0]).toEqual(expect.objectContaining({ path: targetFile, status: 'modify' }));
+    expect(unknown.changes[0]).toEqual(expect.objectContaining({
+      relativePath: path.join('src', 'components', 'component.tsx'),
+      status: 'create',
+    }));
+  });
+
+  it('never replaces the refined file with reference files', async () => {
+    const result = await applyService.apply(
+      [{ name: 'pricing.tsx', content: '// Template\n' }],
+      { projectDirectory: root, targetFile, refinements: 'reference' },
+      { mode: 'write' }
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.changes[0]).toEqual(expect.objectContaining({
+      status: 'conflict',
+      reason: 'File already exists with different content',
+    }));
+    expect(readFileSync(targetFile, 'utf-8')).toBe(original);
+  });
+
+  it('reports a conflict when the refined file changed since it was read', async () => {
+    writeFileSync(targetFile, `${original}// Edited meanwhile\n`);
+
+    const result = await applyService.apply(
+      [{ name: 'pricing.tsx', content: refined }],
+      { projectDirectory: root, targetFile, baseContent: original },
+      { mode: 'write' }
+    );
+
+    expect(result.changes[0]).toEqual(expect.objectContaining({
+      status: 'conflict',
+      reason: 'File changed since it was read for refinement',
+    }));
+    expect(result.applied).toBe(false);
+  });
+
+  it('writes files and rolls the write back', async () => {
+    const result = await applyService.apply(
+      [
+        { name: 'pricing.tsx', content: refined },
+        { name: 'badge.tsx', content: 'export const Badge = 1;\n' },
+      ],
+      { projectDirectory: root, targetFile, baseContent: original },
+      { mode: 'write' }
+    );
+
+    expect(result.applied).toBe(true);
+    expect(readFileSync(targetFile, 'utf-8')).toBe(refined);
+    expect(readFileSync(path.join(root, 'src', 'components', 'badge.tsx'), 'utf-8')).toBe('export const Badge = 1;\n');
+
+    const rollback = await applyService.rollback(root, result.backupId!);
+
+    expect(rollback.restored).toEqual([path.join('src', 'components', 'pricing.tsx')]);
+    expect(rollback.removed).toEqual([path.join('src', 'components', 'badge.tsx')]);
+    expect(readFileSync(targetFile, 'utf-8')).toBe(original);
+  });
+
+  it('only rolls back backups inside the project backup directory', async () => {
+    await expect(applyService.rollback(root, '../../src')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(applyService.rollback(root, '..')).rejects.toBeInstanceOf(NotFoundError);
+
+    // A backup directory linked elsewhere in the project
+    const elsewhere = path.join(root, 'src', 'backups');
+    mkdirSync(path.join(elsewhere, 'backup-1'), { recursive: true });
+    writeFileSync(path.join(elsewhere, 'backup-1', 'manifest.json'), JSON.stringify({ id: 'backup-1', files: [] }));
+    mkdirSync(path.join(root, '.magic'));
+    symlinkSync(elsewhere, path.join(root, '.magic', 'backups'));
+
+    await expect(applyService.rollback(root, 'backup-1')).rejects.toBeInstanceOf(NotFoundError);
+    expect(existsSync(path.join(elsewhere, 'backup-1', 'manifest.json'))).toBe(true);
+    expect(existsSync(targetFile)).toBe(true);
+  });
+
+  it('rejects files outside the project and projects outside the allowed roots', async () => {
+    await expect(applyService.apply(
+      [{ name: 'passwd', path: '../../etc/passwd', content: '' }],
+      { projectDirectory: root },
+      { mode: 'dry-run' }
+    )).rejects.toBeInstanceOf(ValidationError);
+
+    await expect(applyService.apply(
+      [{ name: 'pricing.tsx', content: refined }],
+      { projectDirectory: os.homedir() },
+      { mode: 'dry-run' }
+    )).rejects.toBeInstanceOf(AuthorizationError);
+  });
+});
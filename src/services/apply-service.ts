@@ -0,0 +1,433 @@
+/**
+ * Apply generated files to a project
+ *
+ * Maps provider files onto the project's layout (shadcn components.json
+ * aliases and tsconfig/jsconfig path aliases such as `@/`), previews the
+ * changes as unified diffs, detects conflicts with existing files, and backs
+ * up replaced files so a write can be rolled back.
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { createUnifiedDiff, diffStats } from '../utils/diff.js';
+import { sessionHistory } from './session-history.js';
+import { fileSandbox } from './file-sandbox.js';
+import { projectAnalyzer, ProjectProfile } from './project-analyzer.js';
+import { getUiProvider } from './providers/ui-provider-factory.js';
+import type { ApplyFilesInput } from '../utils/validation.js';
+import type { UiProviderCapabilities } from './providers/ui-provider.interface.js';
+
+export type ApplyMode = 'dry-run' | 'write';
+
+type GeneratedFile = { name: string; content: string; path?: string };
+
+/**
+ * Planned change to one project file
+ */
+export interface FileChange {
+  source: string; // File name as returned by the provider
+  path: string; // Absolute target path
+  relativePath: string;
+  status: 'create' | 'modify' | 'unchanged' | 'conflict';
+  reason?: string; // Why the change conflicts
+  additions: number;
+  deletions: number;
+  diff?: string;
+}
+
+export interface ApplyResult {
+  mode: ApplyMode;
+  projectDirectory: string;
+  applied: boolean; // Files were written (never for dry runs, nor with unresolved conflicts)
+  changes: FileChange[];
+  conflicts: number;
+  backupId?: string; // Pass to rollback to undo the write
+}
+
+export interface ApplyTarget {
+  projectDirectory?: string; // Defaults to the nearest directory above targetFile with a package.json
+  targetFile?: string; // File being refined; the matching generated file replaces it
+  refinements?: UiProviderCapabilities['refinements']; // How the provider's files match targetFile
+  baseContent?: string; // Content the refinement started from, to detect edits made meanwhile
+}
+
+export interface RollbackResult {
+  backupId: string;
+  restored: string[];
+  removed: string[];
+}
+
+interface PlannedChange extends FileChange {
+  content: string;
+  existing?: string;
+}
+
+interface BackupManifest {
+  id: string;
+  createdAt: string;
+  files: Array<{ relativePath: string; existed: boolean }>;
+}
+
+const BACKUP_DIR = path.join('.magic', 'backups');
+
+async function readIfExists(file: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+export class ApplyService {
+  /**
+   * Preview or write generated files into a project
+   *
+   * Writes are all-or-nothing: with unresolved conflicts nothing is written.
+   *
+   * @throws ValidationError if the project directory is missing or a file resolves outside it
+   * @throws AuthorizationError if a path is outside the file sandbox
+   */
+  async apply(
+    files: GeneratedFile[],
+    target: ApplyTarget,
+    options: { mode: ApplyMode; overwrite?: boolean }
+  ): Promise<ApplyResult> {
+    const { root, changes } = await this.plan(files, target);
+    const conflicts = changes.filter((change) => change.status === 'conflict').length;
+    const result = (applied: boolean, backupId?: string): ApplyResult => ({
+      mode: options.mode,
+      projectDirectory: root,
+      applied,
+      changes: changes.map(({ content: _content, existing: _existing, ...change }) => change),
+      conflicts,
+      backupId,
+    });
+
+    if (options.mode === 'dry-run') {
+      return result(false);
+    }
+
+    if (conflicts > 0 && !options.overwrite) {
+      logger.warn('Generated files not applied due to conflicts', { projectDirectory: root, conflicts });
+      return result(false);
+    }
+
+    const writes = changes.filter((change) => change.status !== 'unchanged');
+    if (writes.length === 0) {
+      return result(true);
+    }
+
+    const backupId = await this.backup(root, writes);
+
+    try {
+      for (const change of writes) {
+        await fs.mkdir(path.dirname(change.path), { recursive: true });
+        await fs.writeFile(change.path, change.content, 'utf-8');
+      }
+    } catch (error) {
+      logger.error('Failed to write generated files, rolling back', error, { projectDirectory: root, backupId });
+      await this.rollback(root, backupId);
+      throw error;
+    }
+
+    logger.info('Generated files applied', {
+      projectDirectory: root,
+      files: writes.map((change) => change.relativePath),
+      backupId,
+    });
+
+    return result(true, backupId);
+  }
+
+  /**
+   * Apply the files of a stored session turn owned by the caller
+   *
+   * @throws NotFoundError if the session or turn does not exist
+   */
+  async applySession(input: ApplyFilesInput): Promise<ApplyResult> {
+    const session = sessionHistory.getOwn(input.sessionId);
+    if (!session) {
+      throw new NotFoundError(`Session not found: ${input.sessionId}`);
+    }
+
+    const turn = input.versionId
+      ? session.turns.find((candidate) => candidate.id === input.versionId)
+      : session.turns[session.turns.length - 1];
+    if (!turn) {
+      throw new NotFoundError(`Version ${input.versionId} not found in session ${input.sessionId}`);
+    }
+
+    const { request } = turn;
+    return this.apply(
+      turn.files,
+      {
+        projectDirectory: input.absolutePathToProjectDirectory ?? request.absolutePathToProjectDirectory,
+        targetFile: 'absolutePathToRefiningFile' in request ? request.absolutePathToRefiningFile : undefined,
+        refinements: this.refinementsOf(session.provider),
+      },
+      { mode: input.mode, overwrite: input.overwrite }
+    );
+  }
+
+  /**
+   * Undo a write: restore replaced files and remove created ones
+   *
+   * @throws NotFoundError if the backup does not exist
+   */
+  async rollback(projectDirectory: string, backupId: string): Promise<RollbackResult> {
+    const root = await fileSandbox.resolve(projectDirectory);
+    const directory = await this.backupDirectory(root, backupId);
+    const manifestFile = path.join(directory, 'manifest.json');
+
+    if (!existsSync(manifestFile)) {
+      throw new NotFoundError(`Backup not found: ${backupId}`);
+    }
+
+    const manifest = JSON.parse(await fs.readFile(manifestFile, 'utf-8')) as BackupManifest;
+    const restored: string[] = [];
+    const removed: string[] = [];
+
+    for (const file of manifest.files) {
+      const targetPath = await fileSandbox.resolve(path.join(root, file.relativePath));
+
+      if (file.existed) {
+        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+        const backupPath = await fileSandbox.resolve(path.join(directory, 'files', file.relativePath));
+        if (!backupPath.startsWith(`${directory}${path.sep}`)) {
+          throw new ValidationError(`Invalid path in backup ${backupId}: ${file.relativePath}`);
+        }
+        await fs.copyFile(backupPath, targetPath);
+        restored.push(file.relativePath);
+      } else {
+        await fs.rm(targetPath, { force: true });
+        removed.push(file.relativePath);
+      }
+    }
+
+    await fs.rm(directory, { recursive: true, force: true });
+
+    logger.info('Generated files rolled back', { projectDirectory: root, backupId, restored, removed });
+
+    return { backupId, restored, removed };
+  }
+
+  /**
+   * Format an apply result as text for MCP tools
+   */
+  format(result: ApplyResult): string {
+    let text = `## ${result.mode === 'dry-run' ? 'Dry run' : 'Apply'}: ${result.projectDirectory}\n\n`;
+
+    if (result.changes.length === 0) {
+      return `${text}The response contains no files to apply.`;
+    }
+
+    for (const change of result.changes) {
+      text += `- **${change.status}** ${change.relativePath} (+${change.additions} -${change.deletions})`;
+      text += change.reason ? ` — ${change.reason}\n` : '\n';
+    }
+
+    if (result.mode === 'dry-run') {
+      for (const change of result.changes) {
+        if (change.diff) {
+          text += `\n\`\`\`diff\n${change.diff}\`\`\`\n`;
+        }
+      }
+    } else if (!result.applied) {
+      text += `\nNothing was written: ${result.conflicts} file(s) conflict with existing files. Review them and apply again with overwrite: true to replace them.`;
+    } else if (result.backupId) {
+      text += `\nFiles written. **Backup ID**: ${result.backupId} (pass it to 21st_magic_component_rollback to undo)`;
+    } else {
+      text += '\nAll files are already up to date.';
+    }
+
+    return text;
+  }
+
+  /**
+   * Resolve target paths and compare them with the project's files
+   */
+  private async plan(files: GeneratedFile[], target: ApplyTarget): Promise<{ root: string; changes: PlannedChange[] }> {
+    const projectDirectory = target.projectDirectory
+      ?? (target.targetFile ? await projectAnalyzer.findProjectRoot(target.targetFile) : undefined);
+    if (!projectDirectory) {
+      throw new ValidationError('absolutePathToProjectDirectory is required to apply files');
+    }
+
+    const root = await fileSandbox.resolve(projectDirectory);
+    if (!existsSync(root)) {
+      throw new ValidationError(`Project directory does not exist: ${root}`);
+    }
+
+    const layout = await projectAnalyzer.analyze(root);
+    // Reference files are never edits of the refined file, even with the same name
+    const targetFile = target.refinements !== 'reference' && target.targetFile
+      ? await fileSandbox.resolve(target.targetFile)
+      : undefined;
+    const single = files.length === 1 && target.refinements === 'edit';
+    const seen = new Set<string>();
+    const changes: PlannedChange[] = [];
+
+    for (const file of files) {
+      const targetPath = await fileSandbox.resolve(this.resolvePath(file, layout, targetFile, single));
+      const relativePath = path.relative(root, targetPath);
+      const existing = await readIfExists(targetPath);
+
+      let status: FileChange['status'];
+      let reason: string | undefined;
+
+      if (seen.has(targetPath)) {
+        status = 'conflict';
+        reason = 'Another generated file maps to the same path';
+      } else if (existing === undefined) {
+        status = 'create';
+      } else if (existing === file.content) {
+        status = 'unchanged';
+      } else if (targetPath !== targetFile) {
+        status = 'conflict';
+        reason = 'File already exists with different content';
+      } else if (target.baseContent !== undefined && existing !== target.baseContent) {
+        status = 'conflict';
+        reason = 'File changed since it was read for refinement';
+      } else {
+        status = 'modify';
+      }
+      seen.add(targetPath);
+
+      changes.push({
+        source: file.path || file.name,
+        path: targetPath,
+        relativePath,
+        status,
+        reason,
+        ...(status === 'unchanged' ? { additions: 0, deletions: 0 } : diffStats(existing ?? '', file.content)),
+        diff: status === 'unchanged'
+          ? undefined
+          : createUnifiedDiff(
+            existing === undefined ? '/dev/null' : `a/${relativePath}`,
+            `b/${relativePath}`,
+            existing ?? '',
+            file.content
+          ),
+        content: file.content,
+        existing,
+      });
+    }
+
+    return { root, changes };
+  }
+
+  /**
+   * How the files of a provider's refinements match the refined file
+   * (undefined if the provider is no longer configured)
+   */
+  private refinementsOf(providerName: string): UiProviderCapabilities['refinements'] {
+    try {
+      return getUiProvider(providerName).getCapabilities().refinements;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Map a generated file name onto the project
+   *
+   * The refined file is replaced by the generated file with the same name (or
+   * the only one, when the provider's refinements are edits). Alias paths
+   * ('@/components/…') follow tsconfig paths, other relative paths are placed
+   * under the source root unless their first directory exists at the project
+   * root, and bare names go to the components directory.
+   */
+  private resolvePath(
+    file: GeneratedFile,
+    layout: ProjectProfile,
+    targetFile: string | undefined,
+    single: boolean
+  ): string {
+    const name = (file.path || file.name).replace(/\\/g, '/');
+    let resolved: string;
+
+    if (targetFile && (single || path.basename(name) === path.basename(targetFile))) {
+      resolved = targetFile;
+    } else if (path.isAbsolute(name)) {
+      resolved = path.normalize(name);
+    } else {
+      const alias = layout.aliases.find((candidate) => name.startsWith(candidate.prefix));
+      const relative = name.replace(/^\.\//, '');
+
+      if (alias) {
+        resolved = path.join(alias.directory, name.slice(alias.prefix.length));
+      } else if (!relative.includes('/')) {
+        resolved = path.join(layout.componentsDir, relative);
+      } else {
+        const first = relative.split('/')[0];
+        resolved = path.join(existsSync(path.join(layout.root, first)) ? layout.root : layout.sourceRoot, relative);
+      }
+    }
+
+    const relativePath = path.relative(layout.root, resolved);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new ValidationError(`Generated file ${name} resolves outside the project directory`, {
+        file: name,
+        projectDirectory: layout.root,
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Resolve the directory of a backup, which must be directly inside the
+   * project's backup directory, before anything in it is read or removed
+   *
+   * @throws NotFoundError if the backup ID resolves anywhere else (e.g. through `..` or symlinks)
+   */
+  private async backupDirectory(root: string, backupId: string): Promise<string> {
+    const backups = path.join(root, BACKUP_DIR);
+    const directory = await fileSandbox.resolve(path.join(backups, backupId));
+
+    if (path.dirname(directory) !== backups) {
+      logger.warn('Backup outside the backup directory denied', { projectDirectory: root, backupId, resolved: directory });
+      throw new NotFoundError(`Backup not found: ${backupId}`);
+    }
+
+    return directory;
+  }
+
+  /**
+   * Copy the files about to be replaced and record which ones are new
+   *
+   * @returns Backup ID
+   */
+  private async backup(root: string, changes: PlannedChange[]): Promise<string> {
+    const id = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`;
+    const directory = path.join(root, BACKUP_DIR, id);
+
+    for (const change of changes) {
+      if (change.existing !== undefined) {
+        const backupPath = path.join(directory, 'files', change.relativePath);
+        await fs.mkdir(path.dirname(backupPath), { recursive: true });
+        await fs.writeFile(backupPath, change.existing, 'utf-8');
+      }
+    }
+
+    const manifest: BackupManifest = {
+      id,
+      createdAt: new Date().toISOString(),
+      files: changes.map((change) => ({
+        relativePath: change.relativePath,
+        existed: change.existing !== undefined,
+      })),
+    };
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+
+    return id;
+  }
+}
+
+// Export singleton instance
+export const applyService = new ApplyService();
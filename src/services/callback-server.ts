@@ -6,7 +6,6 @@ import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
 import net from 'net';
 import { logger } from '../utils/logger.js';
 import { CallbackResponse } from '../types/index.js';
-import { TimeoutError } from '../utils/errors.js';
 
 export interface CallbackServerConfig {
   timeout?: number;
@@ -0,0 +1,141 @@
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { codeFormatter } from './code-formatter.js';
+import { config } from '../utils/config.js';
+import { loadProjectModule, loadServerModule } from '../utils/project-module.js';
+
+jest.mock('./providers/ui-provider-factory.js', () => ({
+  getUiProvider: jest.fn(),
+}));
+
+// Prettier and ESLint stand-ins, so tests see which installation and options are used
+jest.mock('../utils/project-module.js', () => ({
+  loadProjectModule: jest.fn(),
+  loadServerModule: jest.fn(),
+}));
+
+const generated = 'export const Pricing = () => null';
+
+/**
+ * Prettier stand-in resolving the given config file and options, and tagging formatted code
+ */
+function fakePrettier(tag: string, configFile: string | null, options: Record<string, unknown> | null) {
+  return {
+    resolveConfigFile: jest.fn(async () => configFile),
+    resolveConfig: jest.fn(async () => options),
+    getFileInfo: jest.fn(async () => ({ ignored: false, inferredParser: 'typescript' })),
+    format: jest.fn(async (content: string) => `${content};\n// ${tag}\n`),
+  };
+}
+
+class FakeESLint {
+  async isPathIgnored() {
+    return false;
+  }
+
+  async lintText(content: string) {
+    return [{ messages: [], output: `${content} // eslint` }];
+  }
+}
+
+describe('CodeFormatter', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = realpathSync(mkdtempSync(path.join(os.tmpdir(), 'format-')));
+    config.files.roots = [root];
+    writeFileSync(path.join(root, 'package.json'), '{}');
+    writeFileSync(path.join(root, '.prettierrc.json'), '{"semi": false}');
+    writeFileSync(path.join(root, '.prettierrc'), '"@company/prettier-config"');
+    writeFileSync(path.join(root, 'prettier.config.js'), 'module.exports = { semi: false };');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  /**
+   * Format a generated file of the project
+   */
+  function format(options: { eslint?: boolean; trustProject?: boolean } = {}) {
+    return codeFormatter.format(
+      [{ name: 'pricing.tsx', content: generated }],
+      `Pricing:\n\n\`\`\`tsx\n${generated}\n\`\`\``,
+      { projectDirectory: root },
+      { eslint: false, trustProject: false, ...options }
+    );
+  }
+
+  it("formats with the server's Prettier and a data config unless the project is trusted", async () => {
+    const prettier = fakePrettier('server', path.join(root, '.prettierrc.json'), { semi: false });
+    jest.mocked(loadServerModule).mockResolvedValue(prettier);
+
+    const result = await format();
+
+    expect(loadServerModule).toHaveBeenCalledWith('prettier');
+    expect(loadProjectModule).not.toHaveBeenCalled();
+    expect(result?.files[0].content).toBe(`${generated};\n// server\n`);
+    expect(result?.text).toBe(`Pricing:\n\n\`\`\`tsx\n${generated};\n// server\n\`\`\``);
+    expect(result?.report).toEqual({
+      projectDirectory: root,
+      prettier: true,
+      eslint: false,
+      formatted: ['pricing.tsx'],
+      warnings: [],
+    });
+    expect(prettier.format).toHaveBeenCalledWith(generated, { semi: false, filepath: path.join(root, 'components', 'pricing.tsx') });
+  });
+
+  it('leaves files with configs that run code unformatted without trust', async () => {
+    for (const configFile of ['prettier.config.js', '.prettierrc']) {
+      const prettier = fakePrettier('server', path.join(root, configFile), { semi: false });
+      jest.mocked(loadServerModule).mockResolvedValue(prettier);
+
+      const result = await format();
+
+      expect(prettier.format).not.toHaveBeenCalled();
+      expect(result?.files[0].content).toBe(generated);
+      expect(result?.report.warnings).toEqual([`Prettier config ${configFile} runs code and needs FORMAT_TRUST_PROJECT=true`]);
+    }
+  });
+
+  it('does not load Prettier plugins or run ESLint without trust', async () => {
+    const prettier = fakePrettier('server', path.join(root, '.prettierrc.json'), { semi: false, plugins: ['prettier-plugin-tailwindcss'] });
+    jest.mocked(loadServerModule).mockResolvedValue(prettier);
+
+    const result = await format({ eslint: true });
+
+    expect(loadProjectModule).not.toHaveBeenCalled();
+    expect(prettier.format).toHaveBeenCalledWith(generated, expect.not.objectContaining({ plugins: expect.anything() }));
+    expect(prettier.getFileInfo).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ resolveConfig: false }));
+    expect(result?.report).toEqual(expect.objectContaining({
+      prettier: true,
+      eslint: false,
+      warnings: [
+        'ESLint fixes run the project\'s ESLint config and need FORMAT_TRUST_PROJECT=true',
+        'Prettier plugins are not loaded without FORMAT_TRUST_PROJECT=true: prettier-plugin-tailwindcss',
+      ],
+    }));
+  });
+
+  it("runs the project's Prettier with any config and plugins, and its ESLint, when trusted", async () => {
+    const prettier = fakePrettier('project', path.join(root, 'prettier.config.js'), { semi: false, plugins: ['prettier-plugin-tailwindcss'] });
+    jest.mocked(loadProjectModule).mockImplementation(async (_root, name) => (name === 'prettier' ? prettier : { ESLint: FakeESLint }));
+
+    const result = await format({ eslint: true, trustProject: true });
+
+    expect(jest.mocked(loadProjectModule).mock.calls).toEqual([[root, 'prettier'], [root, 'eslint']]);
+    expect(loadServerModule).not.toHaveBeenCalled();
+    expect(prettier.format).toHaveBeenCalledWith(
+      `${generated} // eslint`,
+      expect.objectContaining({ plugins: ['prettier-plugin-tailwindcss'] })
+    );
+    expect(result?.files[0].content).toBe(`${generated} // eslint;\n// project\n`);
+    expect(result?.report).toEqual(expect.objectContaining({ prettier: true, eslint: true, warnings: [] }));
+  });
+});
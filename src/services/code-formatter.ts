@@ -0,0 +1,284 @@
+/**
+ * Code formatter
+ *
+ * Formats generated files with the target project's Prettier config and,
+ * optionally, applies its ESLint fixes, so generated code matches the
+ * project's style. Files are resolved to the paths they would be applied to,
+ * so per-directory configs and ignore files apply. Formatter failures are
+ * reported as warnings and leave the affected file unformatted.
+ *
+ * Project packages, JavaScript configs and plugins run code from the project,
+ * so unless the project is trusted (FORMAT_TRUST_PROJECT), the server's own
+ * Prettier formats with data configs only, and ESLint is not run.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type * as Prettier from 'prettier';
+import type { ESLint as ESLintApi } from 'eslint';
+import { applyService, ApplyTarget } from './apply-service.js';
+import { logger } from '../utils/logger.js';
+import { loadProjectModule, loadServerModule } from '../utils/project-module.js';
+import type { UiProviderResponse } from './providers/ui-provider.interface.js';
+
+type GeneratedFile = NonNullable<UiProviderResponse['files']>[number];
+
+/**
+ * Outcome of formatting a response
+ */
+export interface FormatReport {
+  projectDirectory?: string;
+  prettier: boolean; // The project has a Prettier config and it was applied
+  eslint: boolean; // ESLint fixes were applied
+  formatted: string[]; // Files whose content changed, named as returned by the provider
+  warnings: string[]; // Formatter failures; the affected files are returned unformatted
+}
+
+export interface FormatOptions {
+  eslint: boolean; // Also apply ESLint fixes
+  trustProject: boolean; // Run the project's formatter packages, JavaScript configs and plugins
+}
+
+const LINTED_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+// Prettier configs that hold data rather than code
+const DATA_CONFIG_FILES = new Set([
+  'package.json',
+  '.prettierrc',
+  '.prettierrc.json',
+  '.prettierrc.json5',
+  '.prettierrc.yaml',
+  '.prettierrc.yml',
+  '.prettierrc.toml',
+]);
+
+/**
+ * Error message of a formatter failure
+ */
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message.split('\n')[0] : 'Unknown error';
+}
+
+/**
+ * Add a warning once, e.g. for a config shared by several files
+ */
+function warnOnce(report: FormatReport, warning: string): void {
+  if (!report.warnings.includes(warning)) {
+    report.warnings.push(warning);
+  }
+}
+
+/**
+ * Check whether a Prettier config file is plain data
+ *
+ * Configs that name a shared config package (a string instead of options)
+ * load that package, so they count as code.
+ */
+async function isDataConfig(configFile: string): Promise<boolean> {
+  const name = path.basename(configFile);
+  if (!DATA_CONFIG_FILES.has(name)) {
+    return false;
+  }
+  if (name === '.prettierrc.toml') {
+    return true;
+  }
+
+  const contents = await fs.readFile(configFile, 'utf-8');
+  try {
+    const parsed = JSON.parse(contents);
+    return typeof (name === 'package.json' ? parsed.prettier : parsed) !== 'string';
+  } catch {
+    // YAML or JSON5: a shared config is a single value without keys
+    return contents.includes(':');
+  }
+}
+
+/**
+ * Replace the code of a file wherever it appears in a text, e.g. in its code block
+ */
+function replaceCode(text: string, original: string, formatted: string): string {
+  const code = original.trim();
+  if (!code) {
+    return text;
+  }
+  return text.split(code).join(formatted.trim());
+}
+
+export class CodeFormatter {
+  /**
+   * Format generated files and the code blocks in a response text
+   *
+   * @param target Where the files would be applied (see ApplyService.apply)
+   * @returns undefined if there are no files to format
+   */
+  async format(
+    files: GeneratedFile[],
+    text: string,
+    target: ApplyTarget,
+    options: FormatOptions
+  ): Promise<{ files: GeneratedFile[]; text: string; report: FormatReport } | undefined> {
+    if (files.length === 0) {
+      return undefined;
+    }
+
+    const report: FormatReport = { prettier: false, eslint: false, formatted: [], warnings: [] };
+
+    // Resolve the files to their target paths the same way they would be applied
+    let root: string;
+    let targets: string[];
+    try {
+      const plan = await applyService.apply(files, target, { mode: 'dry-run' });
+      root = plan.projectDirectory;
+      targets = plan.changes.map((change) => change.path);
+    } catch (error) {
+      report.warnings.push(`Project directory could not be resolved: ${messageOf(error)}`);
+      return { files, text, report };
+    }
+    report.projectDirectory = root;
+
+    const prettier = options.trustProject
+      ? await loadProjectModule<typeof Prettier>(root, 'prettier')
+      : await loadServerModule<typeof Prettier>('prettier');
+    if (!prettier) {
+      report.warnings.push('Prettier is not installed');
+    }
+
+    let eslint: ESLintApi | undefined;
+    if (options.eslint && !options.trustProject) {
+      report.warnings.push('ESLint fixes run the project\'s ESLint config and need FORMAT_TRUST_PROJECT=true');
+    } else if (options.eslint) {
+      eslint = await this.createEslint(root, report);
+    }
+    report.eslint = !!eslint;
+
+    const formattedFiles: GeneratedFile[] = [];
+    let formattedText = text;
+
+    for (const [index, file] of files.entries()) {
+      const source = file.path || file.name;
+      let content = file.content;
+
+      if (eslint && LINTED_EXTENSIONS.has(path.extname(targets[index]))) {
+        content = await this.fixWithEslint(eslint, content, targets[index], source, report);
+      }
+      if (prettier) {
+        content = await this.formatWithPrettier(prettier, content, targets[index], source, root, options, report);
+      }
+
+      if (content !== file.content) {
+        report.formatted.push(source);
+        formattedText = replaceCode(formattedText, file.content, content);
+      }
+      formattedFiles.push({ ...file, content });
+    }
+
+    if (report.warnings.length > 0) {
+      logger.warn('Generated files formatted with warnings', { projectDirectory: root, warnings: report.warnings });
+    } else {
+      logger.debug('Generated files formatted', { projectDirectory: root, formatted: report.formatted.length });
+    }
+
+    return { files: formattedFiles, text: formattedText, report };
+  }
+
+  /**
+   * ESLint instance using the project's config, with fixes enabled
+   */
+  private async createEslint(root: string, report: FormatReport): Promise<ESLintApi | undefined> {
+    const eslint = await loadProjectModule<{ ESLint: typeof ESLintApi }>(root, 'eslint');
+    if (!eslint?.ESLint) {
+      report.warnings.push('ESLint is installed neither in the project nor on the server');
+      return undefined;
+    }
+
+    try {
+      return new eslint.ESLint({ cwd: root, fix: true });
+    } catch (error) {
+      report.warnings.push(`ESLint could not be configured: ${messageOf(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply the ESLint fixes for a file
+   */
+  private async fixWithEslint(
+    eslint: ESLintApi,
+    content: string,
+    filePath: string,
+    source: string,
+    report: FormatReport
+  ): Promise<string> {
+    try {
+      if (await eslint.isPathIgnored(filePath)) {
+        return content;
+      }
+
+      const [result] = await eslint.lintText(content, { filePath, warnIgnored: false });
+      const fatal = result?.messages.find((message) => message.fatal);
+      if (fatal) {
+        report.warnings.push(`ESLint could not parse ${source}: ${fatal.message}`);
+      }
+
+      return result?.output ?? content;
+    } catch (error) {
+      report.warnings.push(`ESLint failed on ${source}: ${messageOf(error)}`);
+      return content;
+    }
+  }
+
+  /**
+   * Format a file with the Prettier config that applies to its path
+   *
+   * Files without a Prettier config are left as they are, and so are files
+   * whose config is code when the project is not trusted.
+   */
+  private async formatWithPrettier(
+    prettier: typeof Prettier,
+    content: string,
+    filePath: string,
+    source: string,
+    root: string,
+    options: FormatOptions,
+    report: FormatReport
+  ): Promise<string> {
+    try {
+      const configFile = await prettier.resolveConfigFile(filePath);
+      if (configFile && !options.trustProject && !await isDataConfig(configFile)) {
+        warnOnce(report, `Prettier config ${path.relative(root, configFile)} runs code and needs FORMAT_TRUST_PROJECT=true`);
+        return content;
+      }
+
+      const resolved = await prettier.resolveConfig(filePath, { editorconfig: true });
+      if (!resolved) {
+        return content;
+      }
+
+      const { plugins, ...config } = resolved;
+      if (plugins?.length && !options.trustProject) {
+        warnOnce(report, `Prettier plugins are not loaded without FORMAT_TRUST_PROJECT=true: ${plugins.join(', ')}`);
+      }
+
+      const { ignored, inferredParser } = await prettier.getFileInfo(filePath, {
+        ignorePath: path.join(root, '.prettierignore'),
+        resolveConfig: options.trustProject, // The config's plugins may add parsers
+      });
+      if (ignored || !inferredParser) {
+        return content;
+      }
+
+      report.prettier = true;
+      return await prettier.format(content, {
+        ...config,
+        ...(options.trustProject ? { plugins } : {}),
+        filepath: filePath,
+      });
+    } catch (error) {
+      report.warnings.push(`Prettier failed on ${source}: ${messageOf(error)}`);
+      return content;
+    }
+  }
+}
+
+// Export singleton instance
+export const codeFormatter = new CodeFormatter();
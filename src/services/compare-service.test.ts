@@ -0,0 +1,98 @@
+import { compareService } from './compare-service.js';
+import { getConfiguredProviderTypes, getUiProvider } from './providers/ui-provider-factory.js';
+import { ExternalServiceError, ValidationError } from '../utils/errors.js';
+import type { UiProvider, UiProviderResponse } from './providers/ui-provider.interface.js';
+import type { CreateUiRequest } from '../types/index.js';
+
+jest.mock('./providers/ui-provider-factory.js', () => ({
+  getConfiguredProviderTypes: jest.fn(),
+  getUiProvider: jest.fn(),
+}));
+
+const request: CreateUiRequest = {
+  message: 'Create a pricing table',
+  searchQuery: 'pricing table',
+  absolutePathToCurrentFile: '/project/src/app/page.tsx',
+  absolutePathToProjectDirectory: '/project',
+  standaloneRequestQuery: 'pricing table with 3 tiers',
+};
+
+/**
+ * Provider whose createUi runs the given implementation
+ */
+function fakeProvider(name: string, createUi: () => Promise<UiProviderResponse>): UiProvider {
+  return { name, createUi } as unknown as UiProvider;
+}
+
+const providers: Record<string, UiProvider> = {
+  v0: fakeProvider('v0', async () => ({
+    text: 'v0 result',
+    files: [{ name: 'pricing.tsx', content: 'export {}' }],
+    sessionId: 'chat_1',
+  })),
+  magic: fakeProvider('magic', async () => {
+    throw new ExternalServiceError('21st.dev is down', '21st.dev');
+  }),
+  openai: fakeProvider('openai', () => new Promise(() => {})),
+  local: fakeProvider('local', async () => {
+    throw new Error('Unexpected');
+  }),
+};
+
+describe('CompareService', () => {
+  beforeEach(() => {
+    jest.mocked(getConfiguredProviderTypes).mockReturnValue(['v0', 'magic', 'openai']);
+    jest.mocked(getUiProvider).mockImplementation((name?: string) => {
+      if (!name || !providers[name]) {
+        throw new ValidationError(`UI provider '${name}' is not configured`);
+      }
+      return providers[name];
+    });
+  });
+
+  it('compares every configured provider, reporting successes, errors and timeouts', async () => {
+    const comparison = await compareService.compare(request, undefined, 50);
+
+    expect(comparison.results).toEqual([
+      expect.objectContaining({
+        provider: 'v0',
+        status: 'success',
+        size: { textLength: 9, fileCount: 1, fileBytes: 9 },
+      }),
+      expect.objectContaining({
+        provider: 'magic',
+        status: 'error',
+        error: { code: 'EXTERNAL_SERVICE_ERROR', message: '21st.dev is down' },
+      }),
+      expect.objectContaining({
+        provider: 'openai',
+        status: 'timeout',
+        error: { code: 'TIMEOUT_ERROR', message: "Provider 'openai' did not respond within 50ms" },
+      }),
+    ]);
+    expect(comparison.summary).toEqual({ succeeded: 1, failed: 1, timedOut: 1, fastest: 'v0' });
+    expect(comparison.timeout).toBe(50);
+  });
+
+  it('compares the named providers once each', async () => {
+    const comparison = await compareService.compare(request, ['local', 'v0', 'local'], 50);
+
+    expect(comparison.results.map((result) => [result.provider, result.status])).toEqual([
+      ['local', 'error'],
+      ['v0', 'success'],
+    ]);
+    expect(comparison.results[0].error).toEqual({ code: 'INTERNAL_ERROR', message: 'Unexpected' });
+  });
+
+  it('fails the whole comparison when a named provider is not configured', async () => {
+    await expect(compareService.compare(request, ['v0', 'unknown'], 50)).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('formats a comparison for MCP tools', async () => {
+    const text = compareService.formatComparison(await compareService.compare(request, ['v0', 'magic'], 50));
+
+    expect(text).toMatch(/\| v0 \| success \| \d+ms \| 1 \| 9 chars \|/);
+    expect(text).toContain('**Session ID**: chat_1');
+    expect(text).toContain('Failed (EXTERNAL_SERVICE_ERROR): 21st.dev is down');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Side-by-side comparison of UI providers on the same request
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { AppError, TimeoutError } from '../utils/errors.js';
+import { getConfiguredProviderTypes, getUiProvider } from './providers/ui-provider-factory.js';
+import type { UiProvider, UiProviderResponse } from './providers/ui-provider.interface.js';
+import type { CreateUiRequest } from '../types/index.js';
+
+/**
+ * Outcome of one provider in a comparison
+ */
+export interface ProviderComparison {
+  provider: string;
+  status: 'success' | 'error' | 'timeout';
+  durationMs: number;
+  size?: {
+    textLength: number;
+    fileCount: number;
+    fileBytes: number;
+  };
+  response?: UiProviderResponse;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Result of comparing providers on one request
+ */
+export interface UiComparison {
+  timeout: number;
+  durationMs: number;
+  results: ProviderComparison[];
+  summary: {
+    succeeded: number;
+    failed: number;
+    timedOut: number;
+    fastest?: string;
+  };
+}
+
+/**
+ * Reject with a TimeoutError if the promise does not settle in time
+ *
+ * The provider call itself keeps running; its late result is discarded.
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number, provider: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const deadline = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new TimeoutError(`Provider '${provider}' did not respond within ${timeout}ms`)),
+      timeout
+    );
+  });
+
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
+export class CompareService {
+  /**
+   * Run a create request against several providers concurrently
+   *
+   * @param providers Provider types to compare (defaults to every configured provider)
+   * @param timeout Per-provider timeout in milliseconds (defaults to COMPARE_TIMEOUT)
+   * @throws ValidationError if a named provider is not configured
+   */
+  async compare(
+    request: CreateUiRequest,
+    providers?: string[],
+    timeout: number = config.uiProvider.compareTimeout
+  ): Promise<UiComparison> {
+    const types = [...new Set(providers || getConfiguredProviderTypes())];
+
+    // Resolve every provider first so an unknown name fails the whole request
+    const instances = types.map((type) => getUiProvider(type));
+
+    logger.info('Comparing UI providers', { providers: types, timeout });
+
+    const startedAt = Date.now();
+    const results = await Promise.all(
+      instances.map((provider) => this.run(provider, request, timeout))
+    );
+
+    const succeeded = results.filter((result) => result.status === 'success');
+    const fastest = succeeded.sort((a, b) => a.durationMs - b.durationMs)[0];
+
+    return {
+      timeout,
+      durationMs: Date.now() - startedAt,
+      results,
+      summary: {
+        succeeded: succeeded.length,
+        failed: results.filter((result) => result.status === 'error').length,
+        timedOut: results.filter((result) => result.status === 'timeout').length,
+        fastest: fastest?.provider,
+      },
+    };
+  }
+
+  /**
+   * Run one provider and record its timing, size or error
+   */
+  private async run(
+    provider: UiProvider,
+    request: CreateUiRequest,
+    timeout: number
+  ): Promise<ProviderComparison> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await withTimeout(provider.createUi(request), timeout, provider.name);
+      const files = response.files || [];
+
+      return {
+        provider: provider.name,
+        status: 'success',
+        durationMs: Date.now() - startedAt,
+        size: {
+          textLength: response.text.length,
+          fileCount: files.length,
+          fileBytes: files.reduce((total, file) => total + Buffer.byteLength(file.content), 0),
+        },
+        response,
+      };
+    } catch (error) {
+      logger.warn('Provider failed during comparison', {
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return {
+        provider: provider.name,
+        status: error instanceof TimeoutError ? 'timeout' : 'error',
+        durationMs: Date.now() - startedAt,
+        error: {
+          code: (error instanceof AppError && error.code) || 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Format a comparison as text for MCP tools
+   */
+  formatComparison(comparison: UiComparison): string {
+    let text = `# Provider Comparison\n\n`;
+    text += `| Provider | Status | Time | Files | Size |\n`;
+    text += `|----------|--------|------|-------|------|\n`;
+
+    for (const result of comparison.results) {
+      text += `| ${result.provider} | ${result.status} | ${result.durationMs}ms | ${result.size?.fileCount ?? '-'} | ${result.size ? `${result.size.textLength} chars` : '-'} |\n`;
+    }
+
+    for (const result of comparison.results) {
+      text += `\n## ${result.provider}\n\n`;
+      if (result.response) {
+        text += result.response.sessionId ? `**Session ID**: ${result.response.sessionId}\n\n` : '';
+        text += `${result.response.text}\n`;
+      } else {
+        text += `Failed (${result.error?.code}): ${result.error?.message}\n`;
+      }
+    }
+
+    return text;
+  }
+}
+
+// Export singleton instance
+export const compareService = new CompareService();
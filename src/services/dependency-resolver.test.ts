@@ -0,0 +1,98 @@
+import { dependencyResolver } from './dependency-resolver.js';
+import type { ProjectProfile } from './project-analyzer.js';
+
+const pricing = [
+  'import * as React from "react";',
+  'import { Check } from "lucide-react";',
+  'import { motion } from "framer-motion/dist/es";',
+  "import type { VariantProps } from 'class-variance-authority';",
+  'import { Button } from "@/components/ui/button";',
+  'import { Card, CardHeader } from "@/components/ui/card";',
+  'import { Badge } from "@/components/ui/badge";',
+  'import { cn } from "@/lib/utils";',
+  'import { readFile } from "node:fs";',
+  'import path from "path";',
+  'import { PricingTier } from "./pricing-tier";',
+  'export { Slot } from "@radix-ui/react-slot";',
+  'const Chart = React.lazy(() => import("recharts"));',
+].join('\n');
+
+const profile: ProjectProfile = {
+  root: '/project',
+  packageManager: 'pnpm',
+  dependencies: ['react', 'next', 'lucide-react'],
+  typescript: true,
+  aliases: [{ prefix: '@/', directory: '/project/src' }],
+  sourceRoot: '/project/src',
+  componentsDir: '/project/src/components',
+  uiDir: '/project/src/components/ui',
+  uiComponents: ['button'],
+};
+
+describe('DependencyResolver', () => {
+  it('reports missing components and packages with commands for the project package manager', () => {
+    const report = dependencyResolver.resolve(
+      [
+        { name: 'pricing.tsx', content: pricing },
+        { name: 'badge.tsx', path: 'components/ui/badge.tsx', content: 'export function Badge() {}' },
+      ],
+      profile
+    );
+
+    expect(report).toEqual({
+      projectDirectory: '/project',
+      components: ['card'],
+      existingComponents: ['button'],
+      packages: ['@radix-ui/react-slot', 'class-variance-authority', 'framer-motion', 'recharts'],
+      commands: [
+        'pnpm dlx shadcn@latest add card',
+        'pnpm add @radix-ui/react-slot class-variance-authority framer-motion recharts',
+      ],
+    });
+  });
+
+  it('uses the import path of the project UI directory, including aliases of the directory itself', () => {
+    const report = dependencyResolver.resolve(
+      [{ name: 'pricing.tsx', content: 'import { Button } from "@ui/button";\nimport { Card } from "@/components/ui/card";' }],
+      {
+        ...profile,
+        aliases: [{ prefix: '@ui/', directory: '/project/src/components/ui' }, ...profile.aliases],
+        uiComponents: [],
+      }
+    );
+
+    expect(report.components).toEqual(['button']);
+    expect(report.packages).toEqual([]);
+  });
+
+  it('reports everything but React and Next.js without a project', () => {
+    const report = dependencyResolver.resolve([
+      { name: 'pricing.tsx', content: pricing },
+      { name: 'README.md', content: 'import x from "not-code";' },
+    ]);
+
+    expect(report.projectDirectory).toBeUndefined();
+    expect(report.components).toEqual(['badge', 'button', 'card']);
+    expect(report.packages).toEqual([
+      '@radix-ui/react-slot',
+      'class-variance-authority',
+      'framer-motion',
+      'lucide-react',
+      'recharts',
+    ]);
+    expect(report.commands[0]).toBe('npx shadcn@latest add badge button card');
+    expect(report.commands[1]).toMatch(/^npm install /);
+  });
+
+  it('formats reports as install instructions', () => {
+    const report = dependencyResolver.resolve([{ name: 'pricing.tsx', content: pricing }], profile);
+
+    const text = dependencyResolver.format(report);
+    expect(text).toContain('that the project does not have yet');
+    expect(text).toContain('```bash\npnpm dlx shadcn@latest add badge card\n');
+    expect(text).toContain('Already installed: button');
+
+    expect(dependencyResolver.format(dependencyResolver.resolve([{ name: 'a.tsx', content: 'import "react";' }], profile)))
+      .toBe('All shadcn/ui components and packages imported by the generated code are already installed.');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Dependency resolver
+ *
+ * Parses the imports of generated files and compares them with the project:
+ * shadcn/ui components imported from the UI alias (e.g. `@/components/ui/*`)
+ * that the project does not have yet, and npm packages missing from
+ * package.json. Produces the exact install commands for the project's
+ * package manager instead of generic instructions.
+ */
+
+import { builtinModules } from 'module';
+import path from 'path';
+import { projectAnalyzer, ProjectProfile } from './project-analyzer.js';
+import type { UiProviderResponse } from './providers/ui-provider.interface.js';
+
+type GeneratedFile = NonNullable<UiProviderResponse['files']>[number];
+
+/**
+ * Components and packages generated code needs
+ */
+export interface DependencyReport {
+  projectDirectory?: string; // Project the imports were checked against
+  components: string[]; // shadcn/ui components to add
+  existingComponents: string[]; // Imported shadcn/ui components the project already has
+  packages: string[]; // npm packages missing from package.json
+  commands: string[]; // Install commands, e.g. 'npx shadcn@latest add button card'
+}
+
+const CODE_EXTENSIONS = new Set(['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs']);
+
+// Static imports and re-exports, dynamic imports and require calls
+const IMPORT_PATTERN =
+  /(?:^|[\s;])(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"\n]+)['"]|import\(\s*['"]([^'"\n]+)['"]\s*\)|require\(\s*['"]([^'"\n]+)['"]\s*\)/g;
+
+// Assumed to be installed when there is no project to check against
+const IMPLICIT_PACKAGES = new Set(['react', 'react-dom', 'next']);
+
+const DEFAULT_UI_IMPORT = '@/components/ui';
+const DEFAULT_LOCAL_PREFIXES = ['@/', '~/'];
+
+const SHADCN_COMMANDS: Record<string, string> = {
+  pnpm: 'pnpm dlx shadcn@latest add',
+  bun: 'bunx --bun shadcn@latest add',
+};
+
+const INSTALL_COMMANDS: Record<string, string> = {
+  pnpm: 'pnpm add',
+  yarn: 'yarn add',
+  bun: 'bun add',
+};
+
+/**
+ * Module specifiers imported by a source file
+ */
+function importsOf(content: string): string[] {
+  return [...content.matchAll(IMPORT_PATTERN)].map((match) => match[1] ?? match[2] ?? match[3]);
+}
+
+/**
+ * Package name of a bare specifier ('@radix-ui/react-slot/dist' -> '@radix-ui/react-slot')
+ */
+function packageName(specifier: string): string {
+  const segments = specifier.split('/');
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+export class DependencyResolver {
+  /**
+   * Resolve the dependencies of generated files
+   *
+   * @param profile Project to check against; without one, every imported
+   *                shadcn/ui component and package (except React and Next.js) is reported
+   */
+  resolve(files: GeneratedFile[], profile?: ProjectProfile): DependencyReport {
+    // An alias of the UI directory itself imports as its bare prefix ('@ui/')
+    const uiImport = profile ? projectAnalyzer.importPath(profile, profile.uiDir).replace(/\/$/, '') : DEFAULT_UI_IMPORT;
+    const localPrefixes = profile ? profile.aliases.map((alias) => alias.prefix) : DEFAULT_LOCAL_PREFIXES;
+    const installed = new Set(profile?.dependencies ?? IMPLICIT_PACKAGES);
+    const existing = new Set(profile?.uiComponents);
+
+    // UI components generated alongside the code count as present
+    const generated = new Set(
+      files
+        .map((file) => (file.path || file.name).replace(/\\/g, '/'))
+        .filter((name) => name.includes('components/ui/'))
+        .map((name) => path.basename(name, path.extname(name)))
+    );
+
+    const components = new Set<string>();
+    const existingComponents = new Set<string>();
+    const packages = new Set<string>();
+
+    for (const file of files) {
+      if (!CODE_EXTENSIONS.has(path.extname(file.path || file.name))) continue;
+
+      for (const specifier of importsOf(file.content)) {
+        if (specifier.startsWith(`${uiImport}/`)) {
+          const component = specifier.slice(uiImport.length + 1).split('/')[0];
+          if (existing.has(component)) {
+            existingComponents.add(component);
+          } else if (!generated.has(component)) {
+            components.add(component);
+          }
+          continue;
+        }
+
+        const local = specifier.startsWith('.') || specifier.startsWith('/') ||
+          localPrefixes.some((prefix) => specifier.startsWith(prefix));
+        if (local || specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0])) {
+          continue;
+        }
+
+        const name = packageName(specifier);
+        if (!installed.has(name)) {
+          packages.add(name);
+        }
+      }
+    }
+
+    const manager = profile?.packageManager ?? 'npm';
+    const commands: string[] = [];
+    if (components.size > 0) {
+      commands.push(`${SHADCN_COMMANDS[manager] ?? 'npx shadcn@latest add'} ${[...components].sort().join(' ')}`);
+    }
+    if (packages.size > 0) {
+      commands.push(`${INSTALL_COMMANDS[manager] ?? 'npm install'} ${[...packages].sort().join(' ')}`);
+    }
+
+    return {
+      projectDirectory: profile?.root,
+      components: [...components].sort(),
+      existingComponents: [...existingComponents].sort(),
+      packages: [...packages].sort(),
+      commands,
+    };
+  }
+
+  /**
+   * Format a dependency report as Markdown instructions
+   */
+  format(report: DependencyReport): string {
+    if (report.commands.length === 0) {
+      return report.projectDirectory
+        ? 'All shadcn/ui components and packages imported by the generated code are already installed.'
+        : 'The generated code imports no shadcn/ui components or packages that need to be installed.';
+    }
+
+    let text = report.projectDirectory
+      ? 'Install the shadcn/ui components and packages the generated code imports that the project does not have yet:'
+      : 'Install the shadcn/ui components and packages the generated code imports, unless the project already has them:';
+    text += `\n\n\`\`\`bash\n${report.commands.join('\n')}\n\`\`\``;
+
+    if (report.existingComponents.length > 0) {
+      text += `\n\nAlready installed: ${report.existingComponents.join(', ')}`;
+    }
+
+    return text;
+  }
+}
+
+// Export singleton instance
+export const dependencyResolver = new DependencyResolver();
@@ -0,0 +1,68 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSandbox } from './file-sandbox.js';
+import { config } from '../utils/config.js';
+import { AuthorizationError, ValidationError } from '../utils/errors.js';
+
+describe('FileSandbox', () => {
+  let base: string;
+  let root: string;
+  let sandbox: FileSandbox;
+
+  beforeAll(() => {
+    base = realpathSync(mkdtempSync(path.join(os.tmpdir(), 'sandbox-')));
+    root = path.join(base, 'project');
+    mkdirSync(path.join(root, 'src'), { recursive: true });
+    mkdirSync(path.join(base, 'project-other'));
+    writeFileSync(path.join(root, 'src', 'page.tsx'), 'export default function Page() {}\n');
+    writeFileSync(path.join(base, 'secret.txt'), 'secret');
+    symlinkSync(path.join(base, 'secret.txt'), path.join(root, 'src', 'link.txt'));
+    symlinkSync(base, path.join(root, 'parent'));
+
+    config.files.roots = [root];
+    config.files.denyPatterns = ['.env', '.env.*', '*.pem', '.ssh'];
+    sandbox = new FileSandbox();
+  });
+
+  afterAll(() => {
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it('resolves paths inside the allowed roots, including files not written yet', async () => {
+    await expect(sandbox.resolve(path.join(root, 'src', 'page.tsx'))).resolves.toBe(path.join(root, 'src', 'page.tsx'));
+    await expect(sandbox.resolve(path.join(root, 'src', 'new', 'card.tsx'))).resolves.toBe(path.join(root, 'src', 'new', 'card.tsx'));
+    await expect(sandbox.resolve(path.join(root, 'src', '..', 'package.json'))).resolves.toBe(path.join(root, 'package.json'));
+  });
+
+  it('rejects paths that leave the allowed roots', async () => {
+    await expect(sandbox.resolve(path.join(root, '..', 'secret.txt'))).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(sandbox.resolve(path.join(base, 'project-other', 'file.ts'))).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(sandbox.resolve('/etc/passwd')).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('rejects symlinks that point outside the allowed roots', async () => {
+    await expect(sandbox.resolve(path.join(root, 'src', 'link.txt'))).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(sandbox.resolve(path.join(root, 'parent', 'secret.txt'))).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(sandbox.resolve(path.join(root, 'parent', 'new.txt'))).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('rejects protected files at any depth', async () => {
+    for (const file of ['.env', '.env.local', 'certs/server.pem', 'home/.ssh/id_rsa']) {
+      await expect(sandbox.resolve(path.join(root, file))).rejects.toThrow('protected file pattern');
+    }
+  });
+
+  it('limits the size of files read', async () => {
+    const maxFileSize = config.files.maxFileSize;
+    config.files.maxFileSize = 10;
+
+    try {
+      await expect(sandbox.readFile(path.join(root, 'src', 'page.tsx'))).rejects.toBeInstanceOf(ValidationError);
+    } finally {
+      config.files.maxFileSize = maxFileSize;
+    }
+
+    await expect(sandbox.readFile(path.join(root, 'src', 'page.tsx'))).resolves.toContain('Page');
+  });
+});
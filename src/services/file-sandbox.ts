@@ -0,0 +1,120 @@
+/**
+ * File sandbox
+ *
+ * Checks paths received from clients before the server reads or writes them.
+ * Paths are resolved (`..` segments and symlinks) and must stay inside one of
+ * the allowed roots (ALLOWED_ROOTS), no segment below the root may match the
+ * deny list of secret files (FILE_DENY_PATTERNS), and reads are limited to
+ * FILE_MAX_SIZE bytes.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { AuthorizationError, ValidationError } from '../utils/errors.js';
+
+/**
+ * Convert a glob with `*` and `?` wildcards to a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolve symlinks of the longest existing prefix of a path
+ *
+ * Paths that do not exist yet (files about to be written) keep their
+ * remaining segments as they are.
+ */
+async function realPath(filePath: string): Promise<string> {
+  const missing: string[] = [];
+  let current = path.resolve(filePath);
+
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch (error) {
+      const parent = path.dirname(current);
+      const code = (error as NodeJS.ErrnoException).code;
+      if ((code !== 'ENOENT' && code !== 'ENOTDIR') || parent === current) {
+        throw error;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+export class FileSandbox {
+  private roots?: string[];
+  private denyPatterns = config.files.denyPatterns.map(globToRegExp);
+
+  /**
+   * Resolve a path and check it against the sandbox
+   *
+   * @returns The resolved real path
+   * @throws AuthorizationError if the path is outside the allowed roots or denied
+   */
+  async resolve(filePath: string): Promise<string> {
+    const resolved = await realPath(filePath);
+    const roots = await this.getRoots();
+
+    const relative = roots
+      .map((root) => path.relative(root, resolved))
+      .find((candidate) => !candidate.startsWith(`..${path.sep}`) && candidate !== '..' && !path.isAbsolute(candidate));
+
+    if (relative === undefined) {
+      logger.warn('File access outside the allowed roots denied', { path: filePath, resolved });
+      throw new AuthorizationError(`Access denied: ${filePath} is outside the allowed project roots`);
+    }
+
+    const denied = relative
+      .split(path.sep)
+      .find((segment) => this.denyPatterns.some((pattern) => pattern.test(segment)));
+
+    if (denied) {
+      logger.warn('File access to a protected file denied', { path: filePath, resolved, segment: denied });
+      throw new AuthorizationError(`Access denied: ${filePath} matches a protected file pattern`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Read a text file inside the sandbox
+   *
+   * @throws AuthorizationError if the path is not allowed
+   * @throws ValidationError if the file exceeds FILE_MAX_SIZE
+   */
+  async readFile(filePath: string): Promise<string> {
+    const resolved = await this.resolve(filePath);
+    const { size } = await fs.stat(resolved);
+
+    if (size > config.files.maxFileSize) {
+      throw new ValidationError(`File is too large: ${filePath}`, {
+        size,
+        maxFileSize: config.files.maxFileSize,
+      });
+    }
+
+    return fs.readFile(resolved, 'utf-8');
+  }
+
+  /**
+   * Allowed roots with their symlinks resolved, computed on first use
+   */
+  private async getRoots(): Promise<string[]> {
+    if (!this.roots) {
+      this.roots = await Promise.all(config.files.roots.map((root) => realPath(root)));
+    }
+    return this.roots;
+  }
+}
+
+// Export singleton instance
+export const fileSandbox = new FileSandbox();
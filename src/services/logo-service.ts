@@ -4,6 +4,9 @@
 
 import { logger } from '../utils/logger.js';
 import { ExternalServiceError, ValidationError } from '../utils/errors.js';
+import { cassette } from '../utils/cassette.js';
+import { outboundClient } from '../utils/outbound-client.js';
+import { responseCache } from './response-cache.js';
 import type { LogoSearchRequest, SVGLogo } from '../types/index.js';
 
 interface LogoSearchResult {
@@ -11,6 +14,7 @@ interface LogoSearchResult {
   success: boolean;
   content?: string;
   message?: string;
+  error?: boolean; // Lookup failed, as opposed to no logo found
 }
 
 interface LogoSearchResponse {
@@ -33,11 +37,18 @@ export class LogoService {
    */
   private async fetchLogos(query: string): Promise<SVGLogo[]> {
     const url = `${this.SVGL_API_BASE}?search=${encodeURIComponent(query)}`;
+    return cassette.run('svgl', { method: 'GET', url }, () => this.requestLogos(query, url));
+  }
+
+  /**
+   * Request logos from SVGL API
+   */
+  private async requestLogos(query: string, url: string): Promise<SVGLogo[]> {
 
     logger.debug('Fetching logos from SVGL', { query, url });
 
     try {
-      const response = await fetch(url);
+      const response = await outboundClient.fetch(url, {}, { service: 'SVGL' });
 
       if (response.status === 404) {
         return []; // No results found
@@ -76,10 +87,17 @@ export class LogoService {
    * Fetch SVG content from URL
    */
   private async fetchSVGContent(url: string): Promise<string> {
+    return cassette.run('svgl', { method: 'GET', url }, () => this.requestSVGContent(url));
+  }
+
+  /**
+   * Request SVG content from URL
+   */
+  private async requestSVGContent(url: string): Promise<string> {
     logger.debug('Fetching SVG content', { url });
 
     try {
-      const response = await fetch(url);
+      const response = await outboundClient.fetch(url, {}, { service: 'SVGL' });
 
       if (!response.ok) {
         throw new ExternalServiceError(
@@ -188,14 +206,32 @@ export class LogoService {
         query,
         success: false,
         message: error instanceof Error ? error.message : 'Unknown error',
+        error: true,
       };
     }
   }
 
   /**
-   * Search for logos
+   * Search for logos, from the response cache when possible
    */
   async searchLogos(request: LogoSearchRequest): Promise<LogoSearchResponse> {
+    const { response } = await responseCache.wrap(
+      'logo-search',
+      'svgl',
+      request,
+      () => this.search(request),
+      // Failed lookups are retried next time rather than cached as "not found"
+      { shouldCache: (result) => !result.lookupFailed }
+    );
+    return response;
+  }
+
+  /**
+   * Search for logos on SVGL
+   */
+  private async search(
+    request: LogoSearchRequest
+  ): Promise<{ response: LogoSearchResponse; lookupFailed: boolean }> {
     logger.info('Searching for logos', {
       queries: request.queries,
       format: request.format,
@@ -262,9 +298,12 @@ export class LogoService {
       ].join('\n');
 
       return {
-        icons: foundIcons,
-        notFound: missingIcons,
-        setup,
+        response: {
+          icons: foundIcons,
+          notFound: missingIcons,
+          setup,
+        },
+        lookupFailed: failed.some((f) => f.error),
       };
     } catch (error) {
       logger.error('Logo search failed', error);
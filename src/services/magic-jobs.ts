@@ -0,0 +1,249 @@
+/**
+ * Pending headless Magic UI generations
+ *
+ * In headless mode the 21st.dev chat is opened by the caller instead of this
+ * server, so each generation becomes a job. 21st.dev only posts the result to
+ * the browser's own machine, so the user relays that payload by hand to the
+ * job's callback URL, which completes the job, and the caller polls for it.
+ * Jobs belong to the principal that created them, and their results go
+ * through the same provider decorators as blocking generations.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { currentPrincipal, runAsPrincipal } from '../utils/principal.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors.js';
+import type { UiProviderResponse } from './providers/ui-provider.interface.js';
+
+/**
+ * Public view of a job
+ */
+export interface MagicJob {
+  id: string;
+  principal: string; // Owner; other principals cannot see the job
+  status: 'pending' | 'completed' | 'expired';
+  query: string;
+  chatUrl: string;
+  callbackUrl: string;
+  createdAt: string;
+  expiresAt: string;
+  completedAt?: string;
+  result?: UiProviderResponse;
+}
+
+type ResultTransform = (response: UiProviderResponse) => UiProviderResponse | Promise<UiProviderResponse>;
+
+interface JobEntry {
+  job: MagicJob;
+  token: string;
+  complete: (data: string) => UiProviderResponse;
+  transforms: ResultTransform[]; // Applied in order to the completed result
+  completing: boolean; // A callback is being processed
+}
+
+/**
+ * Job ID of a pending headless response, as returned by the provider
+ */
+function pendingJobId(response: UiProviderResponse): string | undefined {
+  return response.metadata?.status === 'pending' && typeof response.metadata.jobId === 'string'
+    ? response.metadata.jobId
+    : undefined;
+}
+
+export class MagicJobStore {
+  private jobs = new Map<string, JobEntry>();
+  private waiters = new Map<string, Array<(job: MagicJob) => void>>();
+
+  /**
+   * Create a pending job
+   *
+   * @param options.chatUrl 21st.dev chat URL the caller must open
+   * @param options.publicUrl Externally reachable URL of this server
+   * @param options.ttl Time in milliseconds before a pending job expires
+   * @param options.complete Builds the provider response from the callback payload
+   */
+  create(options: {
+    query: string;
+    chatUrl: string;
+    publicUrl: string;
+    ttl: number;
+    complete: (data: string) => UiProviderResponse;
+  }): MagicJob {
+    this.sweep();
+
+    const id = `job_${randomUUID()}`;
+    const token = randomBytes(24).toString('base64url');
+    const now = Date.now();
+
+    const job: MagicJob = {
+      id,
+      principal: currentPrincipal(),
+      status: 'pending',
+      query: options.query,
+      chatUrl: options.chatUrl,
+      callbackUrl: `${options.publicUrl}/callback/magic/${id}?token=${token}`,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + options.ttl).toISOString(),
+    };
+
+    this.jobs.set(id, { job, token, complete: options.complete, transforms: [], completing: false });
+    logger.info('Magic job created', { jobId: id, expiresAt: job.expiresAt });
+
+    return job;
+  }
+
+  /**
+   * Get a job by id
+   *
+   * @param principal Only return the job if it belongs to this principal
+   * @throws NotFoundError if the job does not exist (or was cleaned up)
+   */
+  get(id: string, principal?: string): MagicJob {
+    this.sweep();
+
+    const entry = this.jobs.get(id);
+    if (!entry || (principal !== undefined && entry.job.principal !== principal)) {
+      throw new NotFoundError(`Magic job not found: ${id}`);
+    }
+    return entry.job;
+  }
+
+  /**
+   * Complete a job from its relay callback URL
+   *
+   * @throws AuthorizationError if the token does not match
+   */
+  async complete(id: string, token: string, data: string): Promise<MagicJob> {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      throw new NotFoundError(`Magic job not found: ${id}`);
+    }
+
+    const expected = Buffer.from(entry.token);
+    const received = Buffer.from(token);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new AuthorizationError('Invalid callback token');
+    }
+
+    return this.resolve(entry, data);
+  }
+
+  /**
+   * Post-process the result of a pending job response once it completes
+   *
+   * Provider decorators register their processing (formatting, type checks,
+   * sessions, usage) here, in the order they would have applied it to a
+   * blocking response. Transforms run on behalf of the job's principal.
+   *
+   * @returns false if the response is not a pending job
+   */
+  afterCompletion(response: UiProviderResponse, transform: ResultTransform): boolean {
+    const id = pendingJobId(response);
+    const entry = id ? this.jobs.get(id) : undefined;
+    if (!entry || entry.job.status !== 'pending') {
+      return false;
+    }
+
+    entry.transforms.push(transform);
+    return true;
+  }
+
+  /**
+   * Wait until a job is completed or expires
+   */
+  waitFor(id: string): Promise<MagicJob> {
+    const job = this.get(id);
+    if (job.status !== 'pending') {
+      return Promise.resolve(job);
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.sweep();
+        this.notify(job);
+      }, Math.max(0, Date.parse(job.expiresAt) - Date.now()));
+
+      const waiters = this.waiters.get(id) || [];
+      waiters.push((settled) => {
+        clearTimeout(timer);
+        resolve(settled);
+      });
+      this.waiters.set(id, waiters);
+    });
+  }
+
+  private notify(job: MagicJob): void {
+    const waiters = this.waiters.get(job.id) || [];
+    this.waiters.delete(job.id);
+    waiters.forEach((waiter) => waiter(job));
+  }
+
+  private async resolve(entry: JobEntry, data: string): Promise<MagicJob> {
+    this.expire(entry);
+
+    if (entry.job.status !== 'pending' || entry.completing) {
+      throw new ValidationError(`Magic job ${entry.job.id} is already ${entry.completing ? 'completing' : entry.job.status}`);
+    }
+
+    let result = entry.complete(data);
+    entry.completing = true;
+    try {
+      result = await runAsPrincipal(entry.job.principal, async () => {
+        for (const transform of entry.transforms) {
+          result = await transform(result);
+        }
+        return result;
+      });
+    } catch (error) {
+      // The component is kept with the processing done so far rather than lost
+      logger.warn('Magic job result processing failed', {
+        jobId: entry.job.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    entry.completing = false;
+    entry.job.result = result;
+    entry.job.status = 'completed';
+    entry.job.completedAt = new Date().toISOString();
+
+    logger.info('Magic job completed', {
+      jobId: entry.job.id,
+      componentDataLength: data.length,
+    });
+
+    this.notify(entry.job);
+    return entry.job;
+  }
+
+  /**
+   * Mark a pending job as expired once its deadline has passed, unless its
+   * component has already arrived
+   */
+  private expire(entry: JobEntry): void {
+    if (entry.job.status === 'pending' && !entry.completing && Date.parse(entry.job.expiresAt) <= Date.now()) {
+      entry.job.status = 'expired';
+      logger.warn('Magic job expired', { jobId: entry.job.id });
+    }
+  }
+
+  /**
+   * Expire overdue jobs and drop jobs kept longer than their own lifetime past expiry
+   */
+  private sweep(): void {
+    const now = Date.now();
+
+    for (const [id, entry] of this.jobs) {
+      this.expire(entry);
+
+      const createdAt = Date.parse(entry.job.createdAt);
+      const expiresAt = Date.parse(entry.job.expiresAt);
+      if (now > expiresAt + (expiresAt - createdAt)) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const magicJobs = new MagicJobStore();
@@ -0,0 +1,68 @@
+import { mkdtempSync, mkdirSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { projectAnalyzer } from './project-analyzer.js';
+import { config } from '../utils/config.js';
+
+describe('ProjectAnalyzer', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = realpathSync(mkdtempSync(path.join(os.tmpdir(), 'project-')));
+    config.files.roots = [root];
+
+    const write = (file: string, content: string) => {
+      mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      writeFileSync(path.join(root, file), content);
+    };
+    write('package.json', JSON.stringify({
+      name: 'shop',
+      dependencies: { next: '^15.1.0', react: '^19.0.0' },
+      devDependencies: { tailwindcss: '^3.4.0', typescript: '^5.6.0' },
+    }));
+    write('node_modules/react/package.json', '{"version":"19.0.2"}');
+    write('pnpm-lock.yaml', '');
+    write('tailwind.config.ts', '');
+    write('tsconfig.json', '{\n  // Aliases\n  "compilerOptions": { "paths": { "@/*": ["./src/*"], "@ui/*": ["./src/components/ui/*"], }, },\n}');
+    write('components.json', JSON.stringify({ style: 'new-york', aliases: { components: '@/components', ui: '@/components/ui' } }));
+    write('src/app/page.tsx', '');
+    write('src/components/ui/button.tsx', '');
+    write('src/components/ui/card.tsx', '');
+    write('src/components/ui/README.md', '');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds the nearest directory with a package.json', async () => {
+    await expect(projectAnalyzer.findProjectRoot(path.join(root, 'src', 'app', 'page.tsx'))).resolves.toBe(root);
+  });
+
+  it('profiles the framework, styling, aliases and existing UI components', async () => {
+    const profile = await projectAnalyzer.analyze(root);
+
+    expect(profile).toEqual(expect.objectContaining({
+      name: 'shop',
+      packageManager: 'pnpm',
+      framework: { name: 'Next.js', version: '15.1.0', router: 'app' },
+      react: '19.0.2',
+      typescript: true,
+      tailwind: { version: '3.4.0', config: 'tailwind.config.ts' },
+      sourceRoot: path.join(root, 'src'),
+      uiDir: path.join(root, 'src', 'components', 'ui'),
+      uiComponents: ['button', 'card'],
+    }));
+    expect(profile.aliases.map((alias) => alias.prefix)).toEqual(['@ui/', '@/']);
+    expect(projectAnalyzer.importPath(profile, profile.componentsDir)).toBe('@/components');
+    expect(projectAnalyzer.describe(profile)).toContain('- Existing UI components in "@ui/": button, card');
+  });
+
+  it('profiles the project of a request file and skips directories without a package.json', async () => {
+    const request = { userMessage: 'Darker', absolutePathToRefiningFile: path.join(root, 'src', 'app', 'page.tsx'), context: '' };
+
+    await expect(projectAnalyzer.profileFor(request)).resolves.toEqual(expect.objectContaining({ root }));
+    await expect(projectAnalyzer.profileFor({ ...request, absolutePathToProjectDirectory: path.join(root, 'src') }))
+      .resolves.toBeUndefined();
+  });
+});
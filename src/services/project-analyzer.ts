@@ -0,0 +1,378 @@
+/**
+ * Project analyzer
+ *
+ * Inspects a project directory (package.json, framework, React, Tailwind,
+ * shadcn/ui components.json, existing UI components and tsconfig path
+ * aliases) and summarizes it as a compact profile for generation prompts, so
+ * providers use the project's aliases and existing primitives instead of
+ * assuming a fresh shadcn setup.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { fileSandbox } from './file-sandbox.js';
+import type { CreateUiRequest, RefineUiRequest } from '../types/index.js';
+
+export interface ProjectAlias {
+  prefix: string; // e.g. '@/'
+  directory: string; // Absolute directory the prefix maps to
+}
+
+export interface ProjectProfile {
+  root: string;
+  name?: string;
+  packageManager?: 'npm' | 'pnpm' | 'yarn' | 'bun';
+  dependencies: string[]; // Package names from dependencies, devDependencies and peerDependencies
+  framework?: {
+    name: string;
+    version?: string;
+    router?: 'app' | 'pages'; // Next.js only
+  };
+  react?: string;
+  typescript: boolean;
+  tailwind?: {
+    version?: string;
+    config?: string; // Config file name; Tailwind 4 projects may configure it in CSS instead
+  };
+  shadcn?: {
+    style?: string;
+    baseColor?: string;
+    iconLibrary?: string;
+    rsc?: boolean;
+  };
+  aliases: ProjectAlias[]; // Wildcard tsconfig/jsconfig paths, longest prefix first
+  sourceRoot: string; // Directory '@/' points to, else src/ or the project root
+  componentsDir: string;
+  uiDir: string;
+  uiComponents: string[]; // Existing files in uiDir, without extension
+}
+
+// Checked in order; the first framework found in the dependencies wins
+const FRAMEWORKS: Array<{ name: string; dependency: string }> = [
+  { name: 'Next.js', dependency: 'next' },
+  { name: 'Remix', dependency: '@remix-run/react' },
+  { name: 'React Router', dependency: '@react-router/dev' },
+  { name: 'Astro', dependency: 'astro' },
+  { name: 'Gatsby', dependency: 'gatsby' },
+  { name: 'Vite', dependency: 'vite' },
+  { name: 'Create React App', dependency: 'react-scripts' },
+];
+
+const LOCKFILES: Array<{ file: string; manager: NonNullable<ProjectProfile['packageManager']> }> = [
+  { file: 'pnpm-lock.yaml', manager: 'pnpm' },
+  { file: 'yarn.lock', manager: 'yarn' },
+  { file: 'bun.lockb', manager: 'bun' },
+  { file: 'bun.lock', manager: 'bun' },
+  { file: 'package-lock.json', manager: 'npm' },
+];
+
+const TAILWIND_CONFIGS = ['tailwind.config.ts', 'tailwind.config.js', 'tailwind.config.mjs', 'tailwind.config.cjs'];
+
+const COMPONENT_EXTENSIONS = new Set(['.tsx', '.jsx', '.ts', '.js']);
+
+// Existing UI components listed in prompts
+const MAX_LISTED_COMPONENTS = 60;
+
+/**
+ * Parse JSON with comments and trailing commas (tsconfig.json style)
+ */
+function parseJsonc(text: string): any {
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i < 0) break;
+      i++;
+    } else {
+      output += char;
+    }
+  }
+
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(() => true, () => false);
+}
+
+/**
+ * Read a JSON config file, or undefined if it is missing or invalid
+ */
+async function readJson(file: string): Promise<any> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  try {
+    return parseJsonc(text);
+  } catch (error) {
+    logger.warn('Failed to parse project config', {
+      file,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Version of a dependency: the installed one if available, else the declared range without its operator
+ */
+async function dependencyVersion(root: string, name: string, declared?: string): Promise<string | undefined> {
+  const installed = (await readJson(path.join(root, 'node_modules', name, 'package.json')))?.version;
+  if (typeof installed === 'string') return installed;
+  return declared?.replace(/^[^\d]*/, '') || declared;
+}
+
+/**
+ * First candidate whose file exists, checking in order
+ */
+async function firstExisting<T>(candidates: T[], fileOf: (candidate: T) => string): Promise<T | undefined> {
+  for (const candidate of candidates) {
+    if (await exists(fileOf(candidate))) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Format a path relative to the project root with forward slashes
+ */
+function relativeTo(root: string, directory: string): string {
+  return path.relative(root, directory).split(path.sep).join('/') || '.';
+}
+
+export class ProjectAnalyzer {
+  /**
+   * Nearest directory at or above the file's directory containing a package.json
+   *
+   * Falls back to the file's directory when there is none.
+   */
+  async findProjectRoot(file: string): Promise<string> {
+    let directory = path.dirname(path.resolve(file));
+
+    while (!await exists(path.join(directory, 'package.json'))) {
+      const parent = path.dirname(directory);
+      if (parent === directory) return path.dirname(path.resolve(file));
+      directory = parent;
+    }
+    return directory;
+  }
+
+  /**
+   * Inspect a project directory
+   */
+  async analyze(root: string): Promise<ProjectProfile> {
+    const [pkg = {}, tsconfig, jsconfig, components] = await Promise.all([
+      readJson(path.join(root, 'package.json')),
+      readJson(path.join(root, 'tsconfig.json')),
+      readJson(path.join(root, 'jsconfig.json')),
+      readJson(path.join(root, 'components.json')),
+    ]);
+    const dependencies: Record<string, string> = { ...pkg.peerDependencies, ...pkg.devDependencies, ...pkg.dependencies };
+
+    const options = (tsconfig ?? jsconfig)?.compilerOptions ?? {};
+    const baseUrl = path.resolve(root, options.baseUrl ?? '.');
+
+    // Only wildcard aliases ("@/*": ["./src/*"]) map import paths to directories
+    const aliases = Object.entries<unknown>(options.paths ?? {})
+      .filter((entry): entry is [string, string[]] => {
+        const [key, targets] = entry;
+        return key.endsWith('/*') && Array.isArray(targets) &&
+          typeof targets[0] === 'string' && targets[0].endsWith('/*');
+      })
+      .map(([key, targets]) => ({
+        prefix: key.slice(0, -1),
+        directory: path.resolve(baseUrl, targets[0].slice(0, -2)),
+      }))
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+
+    const sourceRoot = aliases.find((alias) => alias.prefix === '@/')?.directory
+      ?? (await exists(path.join(root, 'src')) ? path.join(root, 'src') : root);
+
+    const resolveAlias = (value: unknown): string | undefined => {
+      if (typeof value !== 'string') return undefined;
+      const alias = aliases.find((candidate) => value.startsWith(candidate.prefix));
+      return alias && path.join(alias.directory, value.slice(alias.prefix.length));
+    };
+
+    // shadcn/ui projects declare their components directories in components.json
+    const componentsDir = resolveAlias(components?.aliases?.components) ?? path.join(sourceRoot, 'components');
+    const uiDir = resolveAlias(components?.aliases?.ui) ?? path.join(componentsDir, 'ui');
+
+    const uiComponents = (await fs.readdir(uiDir, { withFileTypes: true }).catch(() => []))
+      .filter((entry) => entry.isFile() && COMPONENT_EXTENSIONS.has(path.extname(entry.name)))
+      .map((entry) => path.basename(entry.name, path.extname(entry.name)))
+      .sort();
+
+    const framework = FRAMEWORKS.find(({ dependency }) => dependencies[dependency]);
+    const [tailwindConfig, lockfile] = await Promise.all([
+      firstExisting(TAILWIND_CONFIGS, (file) => path.join(root, file)),
+      firstExisting(LOCKFILES, ({ file }) => path.join(root, file)),
+    ]);
+
+    return {
+      root,
+      name: typeof pkg.name === 'string' ? pkg.name : undefined,
+      packageManager: lockfile?.manager,
+      dependencies: Object.keys(dependencies),
+      framework: framework && {
+        name: framework.name,
+        version: await dependencyVersion(root, framework.dependency, dependencies[framework.dependency]),
+        router: framework.dependency !== 'next'
+          ? undefined
+          : await exists(path.join(root, 'app')) || await exists(path.join(root, 'src', 'app'))
+            ? 'app'
+            : 'pages',
+      },
+      react: dependencies.react ? await dependencyVersion(root, 'react', dependencies.react) : undefined,
+      typescript: !!tsconfig || !!dependencies.typescript,
+      tailwind: dependencies.tailwindcss || tailwindConfig
+        ? { version: await dependencyVersion(root, 'tailwindcss', dependencies.tailwindcss), config: tailwindConfig }
+        : undefined,
+      shadcn: components && {
+        style: components.style,
+        baseColor: components.tailwind?.baseColor,
+        iconLibrary: components.iconLibrary,
+        rsc: components.rsc,
+      },
+      aliases,
+      sourceRoot,
+      componentsDir,
+      uiDir,
+      uiComponents,
+    };
+  }
+
+  /**
+   * Import path of a directory, through an alias when one covers it
+   */
+  importPath(profile: ProjectProfile, directory: string): string {
+    const alias = profile.aliases.find((candidate) => {
+      const relative = path.relative(candidate.directory, directory);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+
+    if (!alias) {
+      return relativeTo(profile.root, directory);
+    }
+
+    const relative = relativeTo(alias.directory, directory);
+    return relative === '.' ? alias.prefix : `${alias.prefix}${relative}`;
+  }
+
+  /**
+   * Summarize a profile as prompt context
+   */
+  describe(profile: ProjectProfile): string {
+    const lines: string[] = [];
+    const { framework, tailwind, shadcn } = profile;
+
+    if (framework) {
+      const router = framework.router ? ` (${framework.router === 'app' ? 'App Router' : 'Pages Router'})` : '';
+      lines.push(`Framework: ${framework.name}${framework.version ? ` ${framework.version}` : ''}${router}`);
+    }
+
+    const language = profile.typescript ? 'TypeScript' : 'JavaScript';
+    lines.push(profile.react ? `React ${profile.react}, ${language}` : language);
+
+    if (tailwind) {
+      const version = tailwind.version ? ` ${tailwind.version}` : '';
+      const config = tailwind.config ?? (tailwind.version?.startsWith('4') ? 'configured in CSS' : undefined);
+      lines.push(`Tailwind CSS${version}${config ? ` (${config})` : ''}`);
+    }
+
+    if (shadcn) {
+      const details = [
+        shadcn.style && `style ${shadcn.style}`,
+        shadcn.baseColor && `base color ${shadcn.baseColor}`,
+        shadcn.iconLibrary && `icons ${shadcn.iconLibrary}`,
+        shadcn.rsc && 'React Server Components',
+      ].filter(Boolean);
+      lines.push(`shadcn/ui${details.length > 0 ? `: ${details.join(', ')}` : ''}`);
+    }
+
+    if (profile.aliases.length > 0) {
+      const aliases = profile.aliases.map((alias) => `${alias.prefix}* → ${relativeTo(profile.root, alias.directory)}/*`);
+      lines.push(`Import aliases: ${aliases.join(', ')}`);
+    }
+
+    lines.push(`Components: ${relativeTo(profile.root, profile.componentsDir)} (import from "${this.importPath(profile, profile.componentsDir)}")`);
+
+    if (profile.uiComponents.length > 0) {
+      const listed = profile.uiComponents.slice(0, MAX_LISTED_COMPONENTS);
+      const more = profile.uiComponents.length - listed.length;
+      lines.push(
+        `Existing UI components in "${this.importPath(profile, profile.uiDir)}": ${listed.join(', ')}${more > 0 ? ` and ${more} more` : ''}`
+      );
+    }
+
+    return [
+      'Project context (follow these conventions and reuse the existing components instead of recreating them):',
+      ...lines.map((line) => `- ${line}`),
+    ].join('\n');
+  }
+
+  /**
+   * Profile of the project a request targets
+   *
+   * Uses `absolutePathToProjectDirectory`, else the project containing the
+   * request's file. Projects outside the file sandbox or without a
+   * package.json are skipped, and analysis errors never fail a generation.
+   */
+  async profileFor(request: CreateUiRequest | RefineUiRequest): Promise<ProjectProfile | undefined> {
+    const file = 'absolutePathToRefiningFile' in request
+      ? request.absolutePathToRefiningFile
+      : request.absolutePathToCurrentFile;
+    const directory = request.absolutePathToProjectDirectory ?? (file ? await this.findProjectRoot(file) : undefined);
+
+    if (!directory) {
+      return undefined;
+    }
+
+    try {
+      const root = await fileSandbox.resolve(directory);
+      if (!await exists(path.join(root, 'package.json'))) {
+        return undefined;
+      }
+
+      const profile = await this.analyze(root);
+      logger.debug('Project analyzed', {
+        root,
+        framework: profile.framework?.name,
+        shadcn: !!profile.shadcn,
+        uiComponents: profile.uiComponents.length,
+      });
+
+      return profile;
+    } catch (error) {
+      logger.debug('Project profile unavailable', {
+        directory,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const projectAnalyzer = new ProjectAnalyzer();
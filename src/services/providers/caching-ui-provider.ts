@@ -0,0 +1,63 @@
+/**
+ * Caching UI Provider
+ *
+ * Serves repeated fetch and refine requests from the response cache instead
+ * of calling the upstream provider again. Responses that start a provider
+ * session (e.g. a new v0 chat) are not cached, so each caller gets its own.
+ */
+
+import { responseCache } from '../response-cache.js';
+import { UiProviderDecorator } from './ui-provider-decorator.js';
+import { UiProviderResponse } from './ui-provider.interface.js';
+import type { FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * Whether a response may be shared: it does not start a provider session
+ */
+function startsNoSession(response: UiProviderResponse): boolean {
+  return !response.sessionId;
+}
+
+/**
+ * Caching UI Provider - wraps a provider with the response cache
+ *
+ * Creations are never cached, every creation is new.
+ */
+export class CachingUiProvider extends UiProviderDecorator {
+  /**
+   * Fetch UI component inspiration, from the cache when possible
+   */
+  override fetchUi(request: FetchUiRequest): Promise<UiProviderResponse> {
+    const { provider: _provider, ...body } = request;
+
+    return responseCache.wrap('fetch-ui', this.name, body, () => this.provider.fetchUi(request), {
+      shouldCache: startsNoSession,
+    });
+  }
+
+  /**
+   * Refine a UI component, from the cache when possible
+   *
+   * Refinements that continue a session are not cached, since the result
+   * depends on the session's server-side state.
+   */
+  override refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    if (sessionId) {
+      return this.provider.refineUi(request, fileContent, sessionId);
+    }
+
+    const { provider: _provider, ...body } = request;
+
+    return responseCache.wrap(
+      'refine-ui',
+      this.name,
+      { ...body, fileContent },
+      () => this.provider.refineUi(request, fileContent),
+      { shouldCache: startsNoSession }
+    );
+  }
+}
@@ -0,0 +1,227 @@
+import { CompositeUiProvider } from './composite-ui-provider.js';
+import { sessionHistory } from '../session-history.js';
+import { ExternalServiceError, TimeoutError, ValidationError } from '../../utils/errors.js';
+import { UiProvider, UiProviderCapabilities, UiStreamEvent } from './ui-provider.interface.js';
+import type { CreateUiRequest, RefineUiRequest } from '../../types/index.js';
+
+const capabilities: UiProviderCapabilities = {
+  sessions: false,
+  streaming: false,
+  previewUrls: false,
+  structuredFiles: true,
+  headless: true,
+  supportedFrameworks: ['react', 'nextjs'],
+};
+
+const createRequest: CreateUiRequest = {
+  message: 'Create a pricing table',
+  searchQuery: 'pricing table',
+  absolutePathToCurrentFile: '/project/src/app/page.tsx',
+  absolutePathToProjectDirectory: '/project',
+  standaloneRequestQuery: 'pricing table with 3 tiers',
+};
+
+const refineRequest: RefineUiRequest = {
+  userMessage: 'Make it darker',
+  absolutePathToRefiningFile: '/project/src/components/pricing.tsx',
+  context: 'Dark mode',
+};
+
+/**
+ * Provider that answers, or fails with the given error
+ */
+function fakeProvider(name: string, error?: Error, overrides: Partial<UiProviderCapabilities> = {}): jest.Mocked<UiProvider> {
+  const answer = async () => {
+    if (error) throw error;
+    return { text: `${name} result`, provider: name, sessionId: `${name}-session` };
+  };
+
+  return {
+    name,
+    getCapabilities: jest.fn(() => ({ ...capabilities, ...overrides })),
+    isReady: jest.fn(async () => !error),
+    getStatus: jest.fn(async () => ({ available: !error, configured: true })),
+    createUi: jest.fn(answer),
+    fetchUi: jest.fn(answer),
+    refineUi: jest.fn(answer),
+  };
+}
+
+async function collect(stream: AsyncIterable<UiStreamEvent>): Promise<UiStreamEvent[]> {
+  const events: UiStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('CompositeUiProvider', () => {
+  it('requires at least one provider', () => {
+    expect(() => new CompositeUiProvider([])).toThrow('at least one provider');
+  });
+
+  it('answers with the first provider when it succeeds', async () => {
+    const first = fakeProvider('v0');
+    const second = fakeProvider('magic');
+    const composite = new CompositeUiProvider([first, second]);
+
+    const response = await composite.createUi(createRequest);
+
+    expect(response.provider).toBe('v0');
+    expect(response.metadata?.attempts).toEqual([
+      expect.objectContaining({ provider: 'v0', success: true }),
+    ]);
+    expect(second.createUi).not.toHaveBeenCalled();
+  });
+
+  it('fails over on upstream errors and timeouts', async () => {
+    const composite = new CompositeUiProvider([
+      fakeProvider('v0', new ExternalServiceError('v0.dev is down', 'v0.dev')),
+      fakeProvider('openai', new TimeoutError()),
+      fakeProvider('magic'),
+    ]);
+
+    const response = await composite.createUi(createRequest);
+
+    expect(response.provider).toBe('magic');
+    expect(response.metadata?.attempts).toEqual([
+      expect.objectContaining({ provider: 'v0', success: false, error: 'v0.dev is down' }),
+      expect.objectContaining({ provider: 'openai', success: false, code: 'TIMEOUT_ERROR' }),
+      expect.objectContaining({ provider: 'magic', success: true }),
+    ]);
+  });
+
+  it('does not fail over on client errors', async () => {
+    const second = fakeProvider('magic');
+    const composite = new CompositeUiProvider([
+      fakeProvider('v0', new ValidationError('Message is too long')),
+      second,
+    ]);
+
+    await expect(composite.createUi(createRequest)).rejects.toBeInstanceOf(ValidationError);
+    expect(second.createUi).not.toHaveBeenCalled();
+  });
+
+  it('surfaces the last error with every attempt when all providers fail', async () => {
+    const composite = new CompositeUiProvider([
+      fakeProvider('v0', new ExternalServiceError('v0.dev is down', 'v0.dev')),
+      fakeProvider('magic', new ExternalServiceError('21st.dev is down', '21st.dev')),
+    ]);
+
+    const error = await composite.fetchUi({ message: 'm', searchQuery: 'q' }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ExternalServiceError);
+    expect(error.message).toBe('21st.dev is down');
+    expect(error.details.attempts).toHaveLength(2);
+  });
+
+  it('passes the session only to the first provider', async () => {
+    const first = fakeProvider('v0', new ExternalServiceError('v0.dev is down', 'v0.dev'));
+    const second = fakeProvider('magic');
+    const composite = new CompositeUiProvider([first, second]);
+
+    const response = await composite.refineUi(refineRequest, 'export const Pricing = 1;', 'v0-chat');
+
+    expect(first.refineUi).toHaveBeenCalledWith(refineRequest, 'export const Pricing = 1;', 'v0-chat');
+    expect(second.refineUi).toHaveBeenCalledWith(refineRequest, 'export const Pricing = 1;', undefined);
+    expect(response.sessionId).toBe('magic-session');
+  });
+
+  it('drops the session when a stream fails over', async () => {
+    const first = fakeProvider('v0', new ExternalServiceError('v0.dev is down', 'v0.dev'));
+    const second = fakeProvider('magic');
+    const composite = new CompositeUiProvider([first, second]);
+
+    const events = await collect(composite.streamRefineUi(refineRequest, 'content', 'v0-chat'));
+
+    expect(second.refineUi).toHaveBeenCalledWith(refineRequest, 'content', undefined);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'status', status: 'failover', provider: 'magic' }));
+    expect(events[events.length - 1]).toEqual(
+      expect.objectContaining({ type: 'result', response: expect.objectContaining({ provider: 'magic' }) })
+    );
+  });
+
+  it('names the provider that answered a stream after failover', async () => {
+    const second = fakeProvider('magic');
+    second.refineUi.mockResolvedValue({ text: 'magic result' });
+    const composite = new CompositeUiProvider([
+      fakeProvider('v0', new ExternalServiceError('v0.dev is down', 'v0.dev')),
+      second,
+    ]);
+
+    const events = await collect(composite.streamRefineUi(refineRequest, 'content'));
+
+    expect(events[events.length - 1]).toEqual(
+      expect.objectContaining({ type: 'result', response: expect.objectContaining({ provider: 'magic' }) })
+    );
+  });
+
+  it('routes a refinement to the provider that started the session', async () => {
+    const first = fakeProvider('v0');
+    const second = fakeProvider('magic');
+    const composite = new CompositeUiProvider([first, second]);
+    const session = sessionHistory.record('magic', undefined, {
+      kind: 'creation',
+      message: 'Create a pricing table',
+      request: createRequest,
+      text: 'magic result',
+      files: [],
+    });
+
+    const response = await composite.refineUi(refineRequest, 'content', session.id);
+    const events = await collect(composite.streamRefineUi(refineRequest, 'content', session.id));
+
+    expect(response.provider).toBe('magic');
+    expect(events[events.length - 1]).toEqual(
+      expect.objectContaining({ type: 'result', response: expect.objectContaining({ provider: 'magic' }) })
+    );
+    expect(second.refineUi).toHaveBeenCalledWith(refineRequest, 'content', session.id);
+    expect(first.refineUi).not.toHaveBeenCalled();
+  });
+
+  it('fails over from the session\'s provider without passing on its session', async () => {
+    const first = fakeProvider('v0');
+    const second = fakeProvider('magic', new ExternalServiceError('21st.dev is down', '21st.dev'));
+    const composite = new CompositeUiProvider([first, second]);
+    const session = sessionHistory.record('magic', undefined, {
+      kind: 'creation',
+      message: 'Create a pricing table',
+      request: createRequest,
+      text: 'magic result',
+      files: [],
+    });
+
+    const response = await composite.refineUi(refineRequest, 'content', session.id);
+
+    expect(response.provider).toBe('v0');
+    expect(response.metadata?.attempts).toEqual([
+      expect.objectContaining({ provider: 'magic', success: false }),
+      expect.objectContaining({ provider: 'v0', success: true }),
+    ]);
+    expect(first.refineUi).toHaveBeenCalledWith(refineRequest, 'content', undefined);
+  });
+
+  it('reports only capabilities shared by every provider', () => {
+    const composite = new CompositeUiProvider([
+      fakeProvider('v0', undefined, { sessions: true, previewUrls: true, maxInputSize: 8000 }),
+      fakeProvider('openai', undefined, { maxInputSize: 4000, supportedFrameworks: ['react'] }),
+    ]);
+
+    expect(composite.getCapabilities()).toEqual(expect.objectContaining({
+      sessions: false,
+      previewUrls: false,
+      structuredFiles: true,
+      maxInputSize: 4000,
+      supportedFrameworks: ['react'],
+    }));
+  });
+
+  it('treats refinements as edits only when every provider returns edits', () => {
+    const edit = fakeProvider('v0', undefined, { refinements: 'edit' });
+    const reference = fakeProvider('local', undefined, { refinements: 'reference' });
+
+    expect(new CompositeUiProvider([edit, edit]).getCapabilities().refinements).toBe('edit');
+    expect(new CompositeUiProvider([edit, fakeProvider('plugin')]).getCapabilities().refinements).toBeUndefined();
+    expect(new CompositeUiProvider([edit, reference]).getCapabilities().refinements).toBe('reference');
+  });
+});
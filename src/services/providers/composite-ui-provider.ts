@@ -0,0 +1,360 @@
+/**
+ * Composite UI Provider
+ *
+ * Wraps an ordered list of UI providers and fails over to the next one
+ * when a provider is unavailable (upstream error or timeout)
+ */
+
+import { logger } from '../../utils/logger.js';
+import { AppError, ExternalServiceError, TimeoutError } from '../../utils/errors.js';
+import { UiProvider, UiProviderCapabilities, UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+import { streamCreateUi, streamRefineUi } from './ui-stream.js';
+import { sessionHistory } from '../session-history.js';
+import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * Record of a single provider attempt within a failover chain
+ */
+export interface ProviderAttempt {
+  provider: string;
+  success: boolean;
+  durationMs: number;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Composite UI Provider - tries each provider in order until one answers
+ */
+export class CompositeUiProvider implements UiProvider {
+  readonly name = 'composite';
+  private providers: UiProvider[];
+
+  constructor(providers: UiProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('Composite UI provider requires at least one provider');
+    }
+    this.providers = providers;
+  }
+
+  /**
+   * Names of the wrapped providers in failover order
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Errors that indicate the provider is unavailable and the next one should be tried
+   */
+  private isFailoverError(error: unknown): boolean {
+    return error instanceof ExternalServiceError || error instanceof TimeoutError;
+  }
+
+  /**
+   * Run an operation against each provider in order, failing over on upstream errors
+   */
+  private async withFailover(
+    operation: string,
+    run: (provider: UiProvider) => Promise<UiProviderResponse>,
+    providers: UiProvider[] = this.providers
+  ): Promise<UiProviderResponse> {
+    const attempts: ProviderAttempt[] = [];
+
+    for (const provider of providers) {
+      const startedAt = Date.now();
+
+      try {
+        const response = await run(provider);
+
+        attempts.push({
+          provider: provider.name,
+          success: true,
+          durationMs: Date.now() - startedAt,
+        });
+
+        if (attempts.length > 1) {
+          logger.info('Composite: Provider failover succeeded', {
+            operation,
+            provider: provider.name,
+            attempts: attempts.length,
+          });
+        }
+
+        return {
+          ...response,
+          provider: response.provider || provider.name,
+          metadata: {
+            ...response.metadata,
+            attempts,
+          },
+        };
+      } catch (error) {
+        attempts.push({
+          provider: provider.name,
+          success: false,
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: error instanceof AppError ? error.code : undefined,
+        });
+
+        if (!this.isFailoverError(error)) {
+          throw error;
+        }
+
+        logger.warn('Composite: Provider failed, trying next provider', {
+          operation,
+          provider: provider.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+
+        // Surface the original error when every provider has been exhausted
+        if (attempts.length === providers.length) {
+          if (error instanceof AppError) {
+            error.details = { ...error.details, attempts };
+          }
+          throw error;
+        }
+      }
+    }
+
+    throw new ExternalServiceError(
+      `All UI providers failed to ${operation}`,
+      'composite',
+      { attempts }
+    );
+  }
+
+  /**
+   * Stream from each provider in order, failing over on upstream errors
+   *
+   * Events already emitted by a failed provider are not retracted; a
+   * 'failover' status marks where the next provider takes over.
+   */
+  private async *streamWithFailover(
+    operation: string,
+    run: (provider: UiProvider) => AsyncIterable<UiStreamEvent>,
+    providers: UiProvider[] = this.providers
+  ): AsyncGenerator<UiStreamEvent> {
+    const attempts: ProviderAttempt[] = [];
+
+    for (const [index, provider] of providers.entries()) {
+      const startedAt = Date.now();
+
+      try {
+        for await (const event of run(provider)) {
+          if (event.type === 'result') {
+            attempts.push({
+              provider: provider.name,
+              success: true,
+              durationMs: Date.now() - startedAt,
+            });
+            yield {
+              type: 'result',
+              response: {
+                ...event.response,
+                provider: event.response.provider || provider.name,
+                metadata: { ...event.response.metadata, attempts },
+              },
+            };
+          } else {
+            yield event;
+          }
+        }
+        return;
+      } catch (error) {
+        attempts.push({
+          provider: provider.name,
+          success: false,
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: error instanceof AppError ? error.code : undefined,
+        });
+
+        if (!this.isFailoverError(error) || index === providers.length - 1) {
+          if (error instanceof AppError) {
+            error.details = { ...error.details, attempts };
+          }
+          throw error;
+        }
+
+        logger.warn('Composite: Provider stream failed, trying next provider', {
+          operation,
+          provider: provider.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+
+        yield {
+          type: 'status',
+          status: 'failover',
+          provider: providers[index + 1].name,
+          message: `${provider.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      }
+    }
+  }
+
+  /**
+   * Stream component creation, failing over between providers
+   */
+  streamCreateUi(request: CreateUiRequest): AsyncIterable<UiStreamEvent> {
+    return this.streamWithFailover('create UI component', (provider) =>
+      streamCreateUi(provider, request)
+    );
+  }
+
+  /**
+   * Stream component refinement, failing over between providers
+   *
+   * The session's provider is tried first; providers failed over to start a new session.
+   */
+  streamRefineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): AsyncIterable<UiStreamEvent> {
+    const { providers, owner } = this.routeSession(sessionId);
+
+    return this.streamWithFailover(
+      'refine UI component',
+      (provider) => streamRefineUi(provider, request, fileContent, this.sessionFor(provider, sessionId, owner)),
+      providers
+    );
+  }
+
+  /**
+   * Order the providers for a refinement, starting with the one the session belongs to
+   *
+   * The provider that started a session is taken from the session history;
+   * sessions the history does not know (e.g. v0 chats started elsewhere) are
+   * assumed to belong to the first provider.
+   */
+  private routeSession(sessionId: string | undefined): { providers: UiProvider[]; owner?: UiProvider } {
+    if (!sessionId) {
+      return { providers: this.providers };
+    }
+
+    const stored = sessionHistory.get(sessionId)?.provider;
+    const owner = stored
+      ? this.providers.find((provider) => provider.name === stored)
+      : this.providers[0];
+
+    if (!owner) {
+      logger.warn('Composite: Session belongs to a provider outside the chain', { sessionId, provider: stored });
+      return { providers: this.providers };
+    }
+    return { providers: [owner, ...this.providers.filter((provider) => provider !== owner)], owner };
+  }
+
+  /**
+   * Session to pass to a provider: a session id is never handed to another provider
+   */
+  private sessionFor(provider: UiProvider, sessionId: string | undefined, owner?: UiProvider): string | undefined {
+    if (sessionId && provider !== owner) {
+      logger.warn('Composite: Session dropped on failover', { provider: provider.name, sessionId });
+      return undefined;
+    }
+    return sessionId;
+  }
+
+  /**
+   * Describe capabilities guaranteed by every provider in the chain
+   *
+   * Any provider may end up answering, so only features shared by all of
+   * them are reported.
+   */
+  getCapabilities(): UiProviderCapabilities {
+    const all = this.providers.map((provider) => provider.getCapabilities());
+    const limits = all
+      .map((capabilities) => capabilities.maxInputSize)
+      .filter((limit): limit is number => limit !== undefined);
+
+    return {
+      sessions: all.every((capabilities) => capabilities.sessions),
+      streaming: all.every((capabilities) => capabilities.streaming),
+      previewUrls: all.every((capabilities) => capabilities.previewUrls),
+      structuredFiles: all.every((capabilities) => capabilities.structuredFiles),
+      headless: all.every((capabilities) => capabilities.headless),
+      refinements: all.every((capabilities) => capabilities.refinements === 'edit')
+        ? 'edit'
+        : all.some((capabilities) => capabilities.refinements === 'reference') ? 'reference' : undefined,
+      maxInputSize: limits.length > 0 ? Math.min(...limits) : undefined,
+      supportedFrameworks: all[0].supportedFrameworks.filter((framework) =>
+        all.every((capabilities) => capabilities.supportedFrameworks.includes(framework))
+      ),
+    };
+  }
+
+  /**
+   * Check if at least one provider is ready to use
+   */
+  async isReady(): Promise<boolean> {
+    const results = await Promise.all(
+      this.providers.map((provider) => provider.isReady().catch(() => false))
+    );
+    return results.some(Boolean);
+  }
+
+  /**
+   * Get aggregated status of all wrapped providers
+   */
+  async getStatus(): Promise<{ available: boolean; configured: boolean; message?: string }> {
+    const statuses = await Promise.all(
+      this.providers.map(async (provider) => {
+        try {
+          return { name: provider.name, ...(await provider.getStatus()) };
+        } catch (error) {
+          return {
+            name: provider.name,
+            available: false,
+            configured: false,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          };
+        }
+      })
+    );
+
+    const available = statuses.filter((status) => status.available).map((status) => status.name);
+
+    return {
+      available: available.length > 0,
+      configured: statuses.some((status) => status.configured),
+      message: available.length > 0
+        ? `Failover chain ${this.getProviderNames().join(' -> ')} (available: ${available.join(', ')})`
+        : `No provider in failover chain ${this.getProviderNames().join(' -> ')} is available`,
+    };
+  }
+
+  /**
+   * Create a new UI component using the first provider that answers
+   */
+  async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    return this.withFailover('create UI component', (provider) => provider.createUi(request));
+  }
+
+  /**
+   * Fetch UI component inspiration using the first provider that answers
+   */
+  async fetchUi(request: FetchUiRequest): Promise<UiProviderResponse> {
+    return this.withFailover('fetch UI component', (provider) => provider.fetchUi(request));
+  }
+
+  /**
+   * Refine an existing UI component using the first provider that answers
+   *
+   * The session's provider is tried first; providers failed over to start a new session.
+   */
+  async refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    const { providers, owner } = this.routeSession(sessionId);
+
+    return this.withFailover(
+      'refine UI component',
+      (provider) => provider.refineUi(request, fileContent, this.sessionFor(provider, sessionId, owner)),
+      providers
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Formatting UI Provider
+ *
+ * Formats generated files, and their code in the response text, with the
+ * target project's Prettier config (and ESLint fixes with FORMAT_ESLINT) and
+ * attaches the outcome to the response metadata (`metadata.formatting`)
+ */
+
+import { codeFormatter } from '../code-formatter.js';
+import { magicJobs } from '../magic-jobs.js';
+import { ApplyTarget } from '../apply-service.js';
+import { config } from '../../utils/config.js';
+import { UiProviderDecorator, StreamedCall } from './ui-provider-decorator.js';
+import { UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+import type { CreateUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * Formatting UI Provider - wraps a provider with formatting of its output
+ *
+ * Fetched examples are not formatted for a project, and versions and forks
+ * return earlier generations unchanged.
+ */
+export class FormattingUiProvider extends UiProviderDecorator {
+  /**
+   * Create a UI component, formatting its files (for headless jobs, once they complete)
+   */
+  override async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    const response = await this.provider.createUi(request);
+    const target = { projectDirectory: request.absolutePathToProjectDirectory };
+
+    if (magicJobs.afterCompletion(response, (result) => this.format(result, target))) {
+      return response;
+    }
+    return this.format(response, target);
+  }
+
+  override async refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    const response = await this.provider.refineUi(request, fileContent, sessionId);
+    return this.format(response, this.refineTarget(request));
+  }
+
+  /**
+   * Where refined files are applied
+   */
+  private refineTarget(request: RefineUiRequest): ApplyTarget {
+    return {
+      projectDirectory: request.absolutePathToProjectDirectory,
+      targetFile: request.absolutePathToRefiningFile,
+      refinements: this.provider.getCapabilities().refinements,
+    };
+  }
+
+  /**
+   * Format a response's files and text
+   */
+  private async format(response: UiProviderResponse, target: ApplyTarget): Promise<UiProviderResponse> {
+    const result = await codeFormatter.format(response.files || [], response.text, target, {
+      eslint: config.format.eslint,
+      trustProject: config.format.trustProject,
+    });
+    if (!result) {
+      return response;
+    }
+
+    return {
+      ...response,
+      text: result.text,
+      files: result.files,
+      metadata: {
+        ...response.metadata,
+        formatting: result.report,
+      },
+    };
+  }
+
+  /**
+   * Forward a stream, formatting its final response
+   */
+  protected override async *decorateStream(
+    stream: AsyncIterable<UiStreamEvent>,
+    call: StreamedCall
+  ): AsyncGenerator<UiStreamEvent> {
+    const target = call.operation === 'create-ui'
+      ? { projectDirectory: call.request.absolutePathToProjectDirectory }
+      : this.refineTarget(call.request);
+
+    for await (const event of stream) {
+      yield event.type === 'result'
+        ? { type: 'result', response: await this.format(event.response, target) }
+        : event;
+    }
+  }
+}
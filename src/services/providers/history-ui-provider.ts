@@ -0,0 +1,226 @@
+/**
+ * History UI Provider
+ *
+ * Adds sessions to providers without server-side sessions by recording each
+ * generation and replaying the stored history on refinement
+ */
+
+import { logger } from '../../utils/logger.js';
+import { sessionHistory, SessionRecord } from '../session-history.js';
+import { magicJobs } from '../magic-jobs.js';
+import { findRefinedFile } from '../refinement-diff.js';
+import { UiProvider, UiProviderCapabilities, UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+import { streamCreateUi, streamRefineUi } from './ui-stream.js';
+import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * History UI Provider - wraps a session-less provider with stored sessions
+ */
+export class HistoryUiProvider implements UiProvider {
+  readonly name: string;
+  private provider: UiProvider;
+
+  constructor(provider: UiProvider) {
+    this.provider = provider;
+    this.name = provider.name;
+  }
+
+  /**
+   * Record a response in the session history and attach its session
+   */
+  private record(
+    response: UiProviderResponse,
+    request: CreateUiRequest | RefineUiRequest,
+    sessionId?: string
+  ): UiProviderResponse {
+    const refinement = 'userMessage' in request;
+    const session = sessionHistory.record(this.name, sessionId, {
+      kind: refinement ? 'refinement' : 'creation',
+      message: refinement ? request.userMessage : request.message,
+      request,
+      text: response.text,
+      files: response.files || [],
+      instructions: response.instructions,
+    });
+
+    return {
+      ...response,
+      sessionId: session.id,
+      metadata: {
+        ...response.metadata,
+        versionId: session.turns[session.turns.length - 1].id,
+        sessionHistory: true,
+      },
+    };
+  }
+
+  /**
+   * Stored session of the caller to continue, ignoring sessions recorded for native providers
+   */
+  private storedSession(sessionId?: string): SessionRecord | undefined {
+    const session = sessionId ? sessionHistory.getOwn(sessionId) : undefined;
+    return session && !session.native ? session : undefined;
+  }
+
+  /**
+   * Rebuild a refinement request from stored history
+   *
+   * The latest stored version of the refined file becomes the base, so forks
+   * continue from their own state rather than whatever is on disk, and
+   * earlier instructions are passed along as context.
+   */
+  private replay(
+    session: SessionRecord,
+    request: RefineUiRequest,
+    fileContent: string
+  ): { request: RefineUiRequest; fileContent: string } {
+    const latest = session.turns[session.turns.length - 1];
+    const baseFile = latest && findRefinedFile(
+      latest.files,
+      request.absolutePathToRefiningFile,
+      this.provider.getCapabilities().refinements
+    );
+
+    const history = session.turns
+      .map((turn, index) => `${index + 1}. ${turn.message}`)
+      .join('\n');
+
+    logger.debug('Replaying session history', {
+      sessionId: session.id,
+      turns: session.turns.length,
+      baseFromHistory: !!baseFile,
+    });
+
+    return {
+      request: {
+        ...request,
+        context: `${request.context ? `${request.context}\n\n` : ''}Previous requests in this session:\n${history}`,
+      },
+      fileContent: baseFile?.content || fileContent,
+    };
+  }
+
+  /**
+   * Record the result event of a stream
+   */
+  private async *recordStream(
+    events: AsyncIterable<UiStreamEvent>,
+    request: CreateUiRequest | RefineUiRequest,
+    sessionId?: string
+  ): AsyncGenerator<UiStreamEvent> {
+    for await (const event of events) {
+      if (event.type === 'result') {
+        yield { type: 'result', response: this.record(event.response, request, sessionId) };
+      } else {
+        yield event;
+      }
+    }
+  }
+
+  /**
+   * Describe capabilities of the wrapped provider, which now supports sessions
+   */
+  getCapabilities(): UiProviderCapabilities {
+    return {
+      ...this.provider.getCapabilities(),
+      sessions: true,
+    };
+  }
+
+  /**
+   * Check if the wrapped provider is ready to use
+   */
+  isReady(): Promise<boolean> {
+    return this.provider.isReady();
+  }
+
+  /**
+   * Get status of the wrapped provider
+   */
+  getStatus(): Promise<{ available: boolean; configured: boolean; message?: string }> {
+    return this.provider.getStatus();
+  }
+
+  /**
+   * Create a new UI component and start a session
+   *
+   * Headless jobs start their session when the component arrives; the
+   * session ID is then part of the job result.
+   */
+  async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    const response = await this.provider.createUi(request);
+
+    if (magicJobs.afterCompletion(response, (result) => this.record(result, request))) {
+      return response;
+    }
+    return this.record(response, request);
+  }
+
+  /**
+   * Fetch UI component inspiration (not recorded)
+   */
+  fetchUi(request: FetchUiRequest): Promise<UiProviderResponse> {
+    return this.provider.fetchUi(request);
+  }
+
+  /**
+   * Refine a UI component, continuing a stored session when one is given
+   */
+  async refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    const session = this.storedSession(sessionId);
+    const replayed = session ? this.replay(session, request, fileContent) : { request, fileContent };
+
+    const response = await this.provider.refineUi(replayed.request, replayed.fileContent);
+    return this.record(response, request, session?.id);
+  }
+
+  /**
+   * Stream component creation and start a session
+   */
+  streamCreateUi(request: CreateUiRequest): AsyncIterable<UiStreamEvent> {
+    return this.recordStream(streamCreateUi(this.provider, request), request);
+  }
+
+  /**
+   * Stream component refinement, continuing a stored session when one is given
+   */
+  streamRefineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): AsyncIterable<UiStreamEvent> {
+    const session = this.storedSession(sessionId);
+    const replayed = session ? this.replay(session, request, fileContent) : { request, fileContent };
+
+    return this.recordStream(
+      streamRefineUi(this.provider, replayed.request, replayed.fileContent),
+      request,
+      session?.id
+    );
+  }
+
+  /**
+   * Fork a stored session at a version (defaults to the latest)
+   */
+  async forkSession(sessionId: string, versionId?: string): Promise<UiProviderResponse> {
+    const fork = sessionHistory.fork(sessionId, versionId);
+    const base = fork.turns[fork.turns.length - 1];
+
+    return {
+      text: base.text,
+      files: base.files,
+      sessionId: fork.id,
+      provider: this.name,
+      metadata: {
+        type: 'fork',
+        forkedFrom: fork.forkedFrom,
+        versionId: base.id,
+        sessionHistory: true,
+      },
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalTemplateUiProvider } from './local-template-ui-provider.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+const pricingTable = `/**
+ * @name PricingTable
+ * @description Three pricing tiers with a highlighted plan
+ * @tags pricing, billing, plans
+ */
+export function PricingTable() {
+  return <section />;
+}
+`;
+
+const loginForm = `/*
+---
+title: LoginForm
+tags: [auth, form]
+---
+Email and password sign-in form
+*/
+export function LoginForm() {
+  return <form />;
+}
+`;
+
+describe('LocalTemplateUiProvider', () => {
+  let templatesDir: string;
+  let provider: LocalTemplateUiProvider;
+
+  beforeAll(() => {
+    templatesDir = mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+    mkdirSync(path.join(templatesDir, 'marketing'));
+    mkdirSync(path.join(templatesDir, 'node_modules', 'pkg'), { recursive: true });
+    writeFileSync(path.join(templatesDir, 'marketing', 'pricing-table.tsx'), pricingTable);
+    writeFileSync(path.join(templatesDir, 'login-form.tsx'), loginForm);
+    writeFileSync(path.join(templatesDir, 'featureGrid.jsx'), 'export function FeatureGrid() {}\n');
+    writeFileSync(path.join(templatesDir, 'node_modules', 'pkg', 'pricing.tsx'), 'export const Ignored = 1;\n');
+    writeFileSync(path.join(templatesDir, 'README.md'), '# Pricing templates\n');
+
+    provider = new LocalTemplateUiProvider({ templatesDir });
+  });
+
+  afterAll(() => {
+    rmSync(templatesDir, { recursive: true, force: true });
+  });
+
+  it('indexes template files, skipping ignored directories and other files', async () => {
+    await expect(provider.getStatus()).resolves.toEqual({
+      available: true,
+      configured: true,
+      message: 'Local template provider ready (3 templates indexed)',
+    });
+  });
+
+  it('searches JSDoc tags, frontmatter and file names', async () => {
+    const pricing = await provider.fetchUi({ message: 'Pricing', searchQuery: 'billing plans' });
+    const login = await provider.fetchUi({ message: 'Login', searchQuery: 'auth form' });
+    const features = await provider.fetchUi({ message: 'Features', searchQuery: 'feature grid' });
+
+    expect(pricing.files).toEqual([
+      expect.objectContaining({ name: 'pricing-table.tsx', path: path.join('marketing', 'pricing-table.tsx') }),
+    ]);
+    expect(login.files?.map((file) => file.name)).toEqual(['login-form.tsx']);
+    expect(features.files?.map((file) => file.name)).toEqual(['featureGrid.jsx']);
+  });
+
+  it('answers searches without matches with an empty result', async () => {
+    const response = await provider.fetchUi({ message: 'Chart', searchQuery: 'chart' });
+
+    expect(response.files).toEqual([]);
+    expect(response.text).toBe('No local templates match "chart".');
+  });
+
+  it('creates components from the best-matching template with adaptation notes', async () => {
+    const response = await provider.createUi({
+      message: 'Add pricing',
+      searchQuery: 'pricing',
+      absolutePathToCurrentFile: '/project/src/app/page.tsx',
+      absolutePathToProjectDirectory: '/project',
+      standaloneRequestQuery: 'pricing table with three plans',
+    });
+
+    expect(response.files?.[0].content).toBe(pricingTable);
+    expect(response.text).toContain('## Adaptation notes');
+    expect(response.metadata).toEqual(expect.objectContaining({ template: path.join('marketing', 'pricing-table.tsx') }));
+  });
+
+  it('rejects creation when no template matches', async () => {
+    await expect(provider.createUi({
+      message: 'Add a chart',
+      searchQuery: 'chart',
+      absolutePathToCurrentFile: '/project/src/app/page.tsx',
+      absolutePathToProjectDirectory: '/project',
+      standaloneRequestQuery: 'line chart',
+    })).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
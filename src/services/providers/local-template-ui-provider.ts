@@ -0,0 +1,468 @@
+/**
+ * Local Template UI Provider
+ *
+ * Implementation of UiProvider interface backed by a local directory of
+ * approved components. Works fully offline (air-gapped environments, CI).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { logger } from '../../utils/logger.js';
+import { AppError, NotFoundError } from '../../utils/errors.js';
+import { UiProvider, UiProviderDefinition, UiProviderCapabilities, UiProviderResponse } from './ui-provider.interface.js';
+import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+
+export interface LocalTemplateProviderConfig {
+  templatesDir: string;
+  maxResults?: number;
+}
+
+/**
+ * Indexed template entry
+ */
+interface TemplateEntry {
+  name: string;
+  description: string;
+  tags: string[];
+  relativePath: string;
+  absolutePath: string;
+  content: string;
+  tokens: Set<string>;
+}
+
+interface TemplateMatch {
+  template: TemplateEntry;
+  score: number;
+}
+
+const TEMPLATE_EXTENSIONS = new Set(['.tsx', '.jsx']);
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build']);
+
+/**
+ * Split text into lowercase search tokens
+ */
+function tokenize(text: string): string[] {
+  return text
+    // Split camelCase / PascalCase identifiers
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1);
+}
+
+/**
+ * Parse a list value from frontmatter (`[a, b]` or `a, b`)
+ */
+function parseListValue(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map((item) => item.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Extract metadata from the leading comment of a template file
+ *
+ * Supports JSDoc tags (`@name`, `@description`, `@tags`) and a YAML-style
+ * frontmatter block (`---` ... `---`) inside the leading comment.
+ */
+function parseTemplateMetadata(content: string): { name?: string; description?: string; tags: string[] } {
+  const metadata: { name?: string; description?: string; tags: string[] } = { tags: [] };
+  const leadingComment = content.match(/^\s*(?:(?:'use client'|"use client");?\s*)?\/\*([\s\S]*?)\*\//);
+
+  if (!leadingComment) {
+    return metadata;
+  }
+
+  const lines = leadingComment[1]
+    .split('\n')
+    .map((line) => line.replace(/^\s*\*\s?/, '').trim());
+
+  const descriptionLines: string[] = [];
+
+  for (const line of lines) {
+    const tagMatch = line.match(/^@(\w+)\s*(.*)$/);
+    const fieldMatch = line.match(/^(name|title|description|tags|keywords):\s*(.*)$/i);
+    const match = tagMatch || fieldMatch;
+
+    if (match) {
+      const key = match[1].toLowerCase();
+      const value = match[2].trim();
+
+      if (key === 'name' || key === 'title' || key === 'component') {
+        metadata.name = value;
+      } else if (key === 'description') {
+        metadata.description = value;
+      } else if (key === 'tags' || key === 'keywords' || key === 'tag') {
+        metadata.tags.push(...parseListValue(value));
+      }
+    } else if (line && line !== '---' && !line.startsWith('@')) {
+      descriptionLines.push(line);
+    }
+  }
+
+  if (!metadata.description && descriptionLines.length > 0) {
+    metadata.description = descriptionLines.join(' ');
+  }
+
+  return metadata;
+}
+
+/**
+ * Local Template UI Provider - searches a directory of approved components
+ */
+export class LocalTemplateUiProvider implements UiProvider {
+  readonly name = 'local';
+  private config: LocalTemplateProviderConfig;
+  private index: TemplateEntry[] | null = null;
+
+  constructor(config: LocalTemplateProviderConfig) {
+    this.config = {
+      maxResults: 5,
+      ...config,
+    };
+  }
+
+  /**
+   * Check if provider is ready to use
+   */
+  async isReady(): Promise<boolean> {
+    try {
+      const stat = await fs.stat(this.config.templatesDir);
+      return stat.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Describe provider capabilities
+   */
+  getCapabilities(): UiProviderCapabilities {
+    return {
+      sessions: false,
+      streaming: false,
+      previewUrls: false,
+      structuredFiles: true,
+      headless: true,
+      refinements: 'reference', // Refinements return templates to follow, not the refined file
+      supportedFrameworks: ['react'],
+    };
+  }
+
+  /**
+   * Get provider status
+   */
+  async getStatus(): Promise<{ available: boolean; configured: boolean; message?: string }> {
+    if (!this.config.templatesDir) {
+      return {
+        available: false,
+        configured: false,
+        message: 'Local template provider not configured (missing LOCAL_TEMPLATES_DIR)',
+      };
+    }
+
+    if (!(await this.isReady())) {
+      return {
+        available: false,
+        configured: true,
+        message: `Local template directory not found: ${this.config.templatesDir}`,
+      };
+    }
+
+    const index = await this.getIndex();
+
+    return {
+      available: index.length > 0,
+      configured: true,
+      message: `Local template provider ready (${index.length} templates indexed)`,
+    };
+  }
+
+  /**
+   * Drop the cached index so templates are re-read on next use
+   */
+  refreshIndex(): void {
+    this.index = null;
+  }
+
+  /**
+   * Recursively collect template files below a directory
+   */
+  private async collectFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) {
+          files.push(...(await this.collectFiles(entryPath)));
+        }
+      } else if (entry.isFile() && TEMPLATE_EXTENSIONS.has(path.extname(entry.name))) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Build (or return the cached) template index
+   */
+  private async getIndex(): Promise<TemplateEntry[]> {
+    if (this.index) {
+      return this.index;
+    }
+
+    let files: string[];
+    try {
+      files = await this.collectFiles(this.config.templatesDir);
+    } catch (error) {
+      throw new AppError(
+        `Local template directory is not readable: ${this.config.templatesDir}`,
+        503,
+        'PROVIDER_UNAVAILABLE',
+        { originalError: error instanceof Error ? error.message : 'Unknown error' }
+      );
+    }
+
+    const entries = await Promise.all(
+      files.map(async (absolutePath): Promise<TemplateEntry> => {
+        const content = await fs.readFile(absolutePath, 'utf-8');
+        const relativePath = path.relative(this.config.templatesDir, absolutePath);
+        const metadata = parseTemplateMetadata(content);
+        const name = metadata.name || path.basename(absolutePath, path.extname(absolutePath));
+        const description = metadata.description || '';
+
+        return {
+          name,
+          description,
+          tags: metadata.tags.map((tag) => tag.toLowerCase()),
+          relativePath,
+          absolutePath,
+          content,
+          tokens: new Set([
+            ...tokenize(name),
+            ...tokenize(description),
+            ...metadata.tags.flatMap(tokenize),
+            ...tokenize(relativePath),
+          ]),
+        };
+      })
+    );
+
+    logger.info('Local templates: Index built', {
+      templatesDir: this.config.templatesDir,
+      count: entries.length,
+    });
+
+    this.index = entries;
+    return entries;
+  }
+
+  /**
+   * Score templates against a free-text query, best match first
+   */
+  private async search(query: string): Promise<TemplateMatch[]> {
+    const index = await this.getIndex();
+    const queryTokens = [...new Set(tokenize(query))];
+
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    return index
+      .map((template) => {
+        const nameTokens = new Set(tokenize(template.name));
+        let score = 0;
+
+        for (const token of queryTokens) {
+          if (template.tags.includes(token)) score += 3;
+          if (nameTokens.has(token)) score += 3;
+          if (template.tokens.has(token)) score += 1;
+        }
+
+        return { template, score };
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.template.name.localeCompare(b.template.name))
+      .slice(0, this.config.maxResults);
+  }
+
+  /**
+   * Format a template as a markdown section
+   */
+  private formatTemplate(template: TemplateEntry): string {
+    let section = `### ${template.name}\n\n`;
+    section += `**File**: ${template.relativePath}\n`;
+    if (template.tags.length > 0) {
+      section += `**Tags**: ${template.tags.join(', ')}\n`;
+    }
+    if (template.description) {
+      section += `\n${template.description}\n`;
+    }
+    section += `\n\`\`\`${path.extname(template.relativePath).slice(1)}\n`;
+    section += template.content;
+    section += `\n\`\`\`\n`;
+    return section;
+  }
+
+  /**
+   * Convert templates to response files
+   */
+  private toFiles(templates: TemplateEntry[]): UiProviderResponse['files'] {
+    return templates.map((template) => ({
+      name: path.basename(template.relativePath),
+      content: template.content,
+      path: template.relativePath,
+    }));
+  }
+
+  /**
+   * Create a new UI component by adapting the best-matching local template
+   */
+  async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    logger.info('Local templates: Creating component', {
+      searchQuery: request.searchQuery,
+      file: request.absolutePathToCurrentFile,
+    });
+
+    const matches = await this.search(
+      `${request.searchQuery} ${request.standaloneRequestQuery}`
+    );
+
+    if (matches.length === 0) {
+      throw new NotFoundError(
+        `No local template matches "${request.searchQuery}" in ${this.config.templatesDir}`
+      );
+    }
+
+    const [best, ...alternatives] = matches;
+
+    let text = `# Template: ${best.template.name}\n\n`;
+    text += this.formatTemplate(best.template);
+    text += `\n## Adaptation notes\n\n`;
+    text += `This is an approved template from the local component library, not generated code. Adapt it to the request:\n\n`;
+    text += `- **Request**: ${request.standaloneRequestQuery}\n`;
+    text += `- **Target file**: ${request.absolutePathToCurrentFile}\n`;
+    text += `- Rename the component and its props to fit the target file\n`;
+    text += `- Replace placeholder copy, data and links with the content described in the request\n`;
+    text += `- Keep the existing imports and styling primitives so the component stays within the approved design system\n`;
+
+    if (alternatives.length > 0) {
+      text += `\n## Other matching templates\n\n`;
+      alternatives.forEach(({ template }) => {
+        text += `- ${template.name} (${template.relativePath})\n`;
+      });
+    }
+
+    logger.info('Local templates: Component template selected', {
+      template: best.template.relativePath,
+      score: best.score,
+    });
+
+    return {
+      text,
+      files: this.toFiles([best.template]),
+      provider: this.name,
+      metadata: {
+        source: 'local-templates',
+        method: 'template',
+        template: best.template.relativePath,
+        score: best.score,
+        alternatives: alternatives.map(({ template }) => template.relativePath),
+      },
+    };
+  }
+
+  /**
+   * Fetch matching templates from the local component library
+   */
+  async fetchUi(request: FetchUiRequest): Promise<UiProviderResponse> {
+    logger.info('Local templates: Fetching component inspiration', {
+      searchQuery: request.searchQuery,
+    });
+
+    const matches = await this.search(request.searchQuery);
+    const templates = matches.map((match) => match.template);
+
+    let text: string;
+    if (templates.length === 0) {
+      text = `No local templates match "${request.searchQuery}".`;
+    } else {
+      text = `# Matching templates for "${request.searchQuery}"\n\n`;
+      text += templates.map((template) => this.formatTemplate(template)).join('\n');
+    }
+
+    logger.info('Local templates: Components fetched', { count: templates.length });
+
+    return {
+      text,
+      files: this.toFiles(templates),
+      provider: this.name,
+      metadata: {
+        source: 'local-templates',
+        method: 'search',
+        matches: matches.map(({ template, score }) => ({ template: template.relativePath, score })),
+      },
+    };
+  }
+
+  /**
+   * Suggest local templates to use as a reference for refining a component
+   *
+   * Offline refinement cannot rewrite the file, so the closest approved
+   * templates are returned for the agent to align the component with.
+   */
+  async refineUi(request: RefineUiRequest, fileContent: string): Promise<UiProviderResponse> {
+    logger.info('Local templates: Refining component', {
+      file: request.absolutePathToRefiningFile,
+      contextLength: request.context.length,
+    });
+
+    const matches = await this.search(
+      `${request.userMessage} ${request.context} ${path.basename(request.absolutePathToRefiningFile)}`
+    );
+    const templates = matches.map((match) => match.template);
+
+    let text = `# Refinement references\n\n`;
+    if (templates.length === 0) {
+      text += `No local templates match this refinement request. Refine ${request.absolutePathToRefiningFile} manually.\n`;
+    } else {
+      text += `Use these approved templates as a reference when refining ${request.absolutePathToRefiningFile}:\n\n`;
+      text += `- **Requested changes**: ${request.userMessage}\n`;
+      if (request.context) {
+        text += `- **Focus**: ${request.context}\n`;
+      }
+      text += `- Keep the component's existing behavior and props; only align structure and styling with the templates\n\n`;
+      text += templates.map((template) => this.formatTemplate(template)).join('\n');
+    }
+
+    return {
+      text,
+      files: this.toFiles(templates),
+      provider: this.name,
+      metadata: {
+        source: 'local-templates',
+        method: 'reference',
+        fileContentLength: fileContent.length,
+      },
+    };
+  }
+}
+
+/**
+ * Local template provider definition for the provider registry
+ */
+export const localTemplateProviderDefinition: UiProviderDefinition<LocalTemplateProviderConfig> = {
+  type: 'local',
+  optionsSchema: z.object({
+    templatesDir: z.string().min(1),
+    maxResults: z.number().int().positive().optional(),
+  }),
+  create: (options) => new LocalTemplateUiProvider(options),
+};
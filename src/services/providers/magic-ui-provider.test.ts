@@ -0,0 +1,120 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MagicUiProvider } from './magic-ui-provider.js';
+import { magicJobs } from '../magic-jobs.js';
+import type { CreateUiRequest, RefineUiRequest } from '../../types/index.js';
+
+jest.mock('open', () => jest.fn());
+
+const createRequest: CreateUiRequest = {
+  message: 'Create a pricing table',
+  searchQuery: 'pricing table',
+  absolutePathToCurrentFile: '/project/src/app/pricing.tsx',
+  absolutePathToProjectDirectory: '/project',
+  standaloneRequestQuery: 'pricing table with 3 tiers',
+};
+
+const refineRequest: RefineUiRequest = {
+  userMessage: 'Make it darker',
+  absolutePathToRefiningFile: '/project/src/components/pricing.tsx',
+  context: 'Dark mode',
+};
+
+const component = [
+  '```tsx file="components/ui/pricing-card.tsx"',
+  'import { Check } from "lucide-react";',
+  'export function PricingCard() {',
+  '  return <Check />;',
+  '}',
+  '```',
+  '',
+  '```tsx',
+  'export function Pricing() {',
+  '  return <div />;',
+  '}',
+  '```',
+].join('\n');
+
+describe('MagicUiProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let reply: string;
+  const requests: any[] = [];
+
+  // Stand-in for the 21st.dev API, answering with `reply`
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, apiKey: req.headers['x-api-key'], body: JSON.parse(body) });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ text: reply }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    reply = component;
+  });
+
+  function createProvider(headless = false): MagicUiProvider {
+    return new MagicUiProvider({
+      apiKey: 'magic-key',
+      baseUrl,
+      callbackServerPort: 9221,
+      callbackTimeout: 60000,
+      headless,
+      publicUrl: 'https://magic.example.com',
+    });
+  }
+
+  it('reports structured files', () => {
+    expect(createProvider().getCapabilities()).toEqual(expect.objectContaining({ structuredFiles: true, refinements: 'edit' }));
+  });
+
+  it('parses fetched inspiration into files', async () => {
+    const response = await createProvider().fetchUi({ message: 'Pricing', searchQuery: 'pricing' });
+
+    expect(requests[0]).toEqual(expect.objectContaining({ url: '/api/fetch-ui', apiKey: 'magic-key' }));
+    expect(response.text).toBe(component);
+    expect(response.files?.map((file) => [file.name, file.path])).toEqual([
+      ['pricing-card.tsx', 'components/ui/pricing-card.tsx'],
+      ['component-2.tsx', undefined],
+    ]);
+  });
+
+  it('names unlabelled refined code after the refined file and lists its dependencies', async () => {
+    reply = '```tsx\nimport { Check } from "lucide-react";\nexport function Pricing() {\n  return <Check />;\n}\n```';
+
+    const response = await createProvider().refineUi(refineRequest, 'export function Pricing() {}');
+
+    expect(requests[0].body).toEqual(expect.objectContaining({ fileContent: 'export function Pricing() {}' }));
+    expect(response.files).toEqual([
+      expect.objectContaining({ name: 'pricing.tsx', content: expect.stringContaining('<Check />') }),
+    ]);
+    expect(response.dependencies?.packages).toEqual(['lucide-react']);
+    expect(response.instructions).toContain('lucide-react');
+  });
+
+  it('parses the payload of a headless job into files named after the target file when unlabelled', async () => {
+    const pending = await createProvider(true).createUi(createRequest);
+    const { jobId, callbackUrl } = pending.metadata as { jobId: string; callbackUrl: string };
+
+    expect(pending.metadata).toEqual(expect.objectContaining({ status: 'pending', method: 'headless' }));
+    expect(callbackUrl).toMatch(`https://magic.example.com/callback/magic/${jobId}?token=`);
+
+    const job = await magicJobs.complete(jobId, new URL(callbackUrl).searchParams.get('token')!, component);
+
+    expect(job.status).toBe('completed');
+    expect(job.result?.files?.map((file) => file.name)).toEqual(['pricing-card.tsx', 'pricing-2.tsx']);
+    expect(job.result?.metadata).toEqual({ source: '21st.dev', method: 'headless-callback' });
+  });
+});
@@ -4,23 +4,40 @@
  * Implementation of UiProvider interface for 21st.dev Magic UI API
  */
 
+import path from 'path';
 import open from 'open';
+import { z } from 'zod';
 import { logger } from '../../utils/logger.js';
-import { twentyFirstClient, HttpClient } from '../../utils/http-client.js';
+import { HttpClient } from '../../utils/http-client.js';
 import { CallbackServer } from '../callback-server.js';
 import { ExternalServiceError, TimeoutError } from '../../utils/errors.js';
-import { UiProvider, UiProviderResponse } from './ui-provider.interface.js';
-import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+import { cassette } from '../../utils/cassette.js';
+import { magicJobs } from '../magic-jobs.js';
+import { projectAnalyzer, ProjectProfile } from '../project-analyzer.js';
+import { dependencyResolver } from '../dependency-resolver.js';
+import { parseStructuredResponse } from '../../utils/code-blocks.js';
+import { UiProvider, UiProviderDefinition, UiProviderCapabilities, UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+import type { CallbackResponse, CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
 
 interface ApiTextResponse {
   text: string;
 }
 
-interface MagicProviderConfig {
+/**
+ * File name without extension, used to name unlabelled code
+ */
+function baseNameOf(filePath: string): string | undefined {
+  return path.basename(filePath).replace(/\.\w+$/, '') || undefined;
+}
+
+export interface MagicProviderConfig {
   apiKey: string;
   baseUrl: string;
   callbackServerPort: number;
   callbackTimeout: number;
+  headless?: boolean;
+  relayPort?: number;
+  publicUrl?: string;
 }
 
 /**
@@ -46,6 +63,21 @@ export class MagicUiProvider implements UiProvider {
     return !!(this.config.apiKey && this.config.baseUrl);
   }
 
+  /**
+   * Describe provider capabilities
+   */
+  getCapabilities(): UiProviderCapabilities {
+    return {
+      sessions: false,
+      streaming: false,
+      previewUrls: false,
+      structuredFiles: true,
+      headless: !!this.config.headless,
+      refinements: 'edit',
+      supportedFrameworks: ['react'],
+    };
+  }
+
   /**
    * Get provider status
    */
@@ -63,81 +95,232 @@ export class MagicUiProvider implements UiProvider {
     return {
       available: true,
       configured: true,
-      message: 'Magic UI provider ready',
+      message: this.config.headless
+        ? 'Magic UI provider ready (headless: results are relayed by hand to each job\'s callback URL)'
+        : 'Magic UI provider ready',
+    };
+  }
+
+  /**
+   * Open the 21st.dev magic chat in the browser and wait for the component payload
+   */
+  private async waitForBrowserCallback(query: string): Promise<CallbackResponse> {
+    const server = new CallbackServer(this.config.callbackServerPort);
+    const callbackPromise = server.waitForCallback({
+      timeout: this.config.callbackTimeout,
+      port: this.config.callbackServerPort,
+    });
+    const port = server.getPort();
+
+    // Open browser with 21st.dev magic chat
+    const url = this.chatUrl(query, port);
+
+    logger.debug('Magic UI: Opening browser', { url, port });
+    await open(url);
+
+    // Wait for callback data
+    return callbackPromise;
+  }
+
+  /**
+   * Build the 21st.dev magic chat URL that posts its result to the given port
+   */
+  private chatUrl(query: string, port: number): string {
+    return `http://21st.dev/magic-chat?q=${encodeURIComponent(query)}&mcp=true&port=${port}`;
+  }
+
+  /**
+   * Magic chat query with the project context appended, when there is one
+   */
+  private queryFor(request: CreateUiRequest, profile?: ProjectProfile): string {
+    return profile
+      ? `${request.standaloneRequestQuery}\n\n${projectAnalyzer.describe(profile)}`
+      : request.standaloneRequestQuery;
+  }
+
+  /**
+   * Split a 21st.dev text response into files and instructions
+   */
+  private toStructured(
+    text: string,
+    defaultBaseName?: string
+  ): Pick<UiProviderResponse, 'files' | 'instructions'> {
+    const { files, instructions } = parseStructuredResponse(text, defaultBaseName);
+
+    return {
+      files: files.map(({ name, content, path: filePath }) => ({ name, content, path: filePath })),
+      instructions,
+    };
+  }
+
+  /**
+   * Format the component payload received from the browser
+   *
+   * @param defaultBaseName File name (without extension) for code without a path
+   * @param profile Project the component's dependencies are checked against
+   */
+  private toComponentResponse(
+    data: string | undefined,
+    method: string,
+    defaultBaseName?: string,
+    profile?: ProjectProfile
+  ): UiProviderResponse {
+    const componentData = data || '// No component data received. Please try again.';
+    const { files, instructions } = this.toStructured(data || '', defaultBaseName);
+    const dependencies = dependencyResolver.resolve(files || [], profile);
+    const installInstructions = dependencyResolver.format(dependencies);
+
+    return {
+      text: `${componentData}\n\n## Dependencies\n\n${installInstructions}`,
+      files,
+      instructions: instructions ? `${instructions}\n\n${installInstructions}` : installInstructions,
+      dependencies,
+      provider: this.name,
+      metadata: {
+        source: '21st.dev',
+        method,
+      },
+    };
+  }
+
+  /**
+   * Start a headless generation: return the chat URL for the caller to open
+   * and a job that receives the result once the browser posts it back
+   */
+  private async createHeadlessJob(request: CreateUiRequest): Promise<UiProviderResponse> {
+    const relayPort = this.config.relayPort || this.config.callbackServerPort;
+    const profile = await projectAnalyzer.profileFor(request);
+    const query = this.queryFor(request, profile);
+    const chatUrl = this.chatUrl(query, relayPort);
+
+    const job = magicJobs.create({
+      query,
+      chatUrl,
+      publicUrl: this.config.publicUrl || `http://localhost:${relayPort}`,
+      ttl: this.config.callbackTimeout,
+      complete: (data) => this.toComponentResponse(
+        data,
+        'headless-callback',
+        baseNameOf(request.absolutePathToCurrentFile),
+        profile
+      ),
+    });
+
+    logger.info('Magic UI: Headless job created', { jobId: job.id, chatUrl });
+
+    const text = `# Open 21st.dev Magic Chat
+
+The server is running headless, so open this URL in your browser to generate the component:
+
+${chatUrl}
+
+When you pick a component, 21st.dev posts it to \`http://127.0.0.1:${relayPort}/data\` on the machine running the browser; it cannot reach this server directly. Relay that payload by hand by POSTing it to this job's callback URL:
+
+${job.callbackUrl}
+
+**Job ID**: ${job.id}
+Poll \`GET /api/magic/jobs/${job.id}\` (or use the \`21st_magic_component_job\` tool) to get the component. The job expires at ${job.expiresAt}.`;
+
+    return {
+      text,
+      provider: this.name,
+      metadata: {
+        source: '21st.dev',
+        method: 'headless',
+        status: 'pending',
+        jobId: job.id,
+        chatUrl,
+        callbackUrl: job.callbackUrl,
+        expiresAt: job.expiresAt,
+      },
     };
   }
 
   /**
    * Create a new UI component by opening the browser and waiting for callback
+   *
+   * In headless mode, returns the chat URL and a pending job immediately.
    */
   async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
     logger.info('Magic UI: Creating component', {
       searchQuery: request.searchQuery,
       file: request.absolutePathToCurrentFile,
+      headless: !!this.config.headless,
     });
 
-    try {
-      const server = new CallbackServer(this.config.callbackServerPort);
-      const callbackPromise = server.waitForCallback({
-        timeout: this.config.callbackTimeout,
-        port: this.config.callbackServerPort,
-      });
-      const port = server.getPort();
-
-      // Open browser with 21st.dev magic chat
-      const url = `http://21st.dev/magic-chat?q=${encodeURIComponent(request.standaloneRequestQuery)}&mcp=true&port=${port}`;
-
-      logger.debug('Magic UI: Opening browser', { url, port });
-      await open(url);
+    if (this.config.headless) {
+      return this.createHeadlessJob(request);
+    }
 
-      // Wait for callback data
-      const result = await callbackPromise;
+    try {
+      const profile = await projectAnalyzer.profileFor(request);
+      const query = this.queryFor(request, profile);
+      const result = await cassette.run(
+        'callback',
+        { query: request.standaloneRequestQuery },
+        () => this.waitForBrowserCallback(query)
+      );
 
       if (result.timedOut) {
         throw new TimeoutError('Component creation timed out waiting for browser callback');
       }
 
-      const componentData = result.data || '// No component data received. Please try again.';
-
-      // Format response with shadcn/ui instructions
-      const responseText = `${componentData}
-
-## Shadcn/ui instructions
-After you add the component, make sure to add the component to the project. If you can't resolve components from demo code,
-Make sure to install shadcn/ui components from the demo code missing imports
-
-Examples of importing shadcn/ui components:
-if these imports can't be resolved:
-\`\`\`tsx
-import {
-  Table
-} from "@/components/ui/table"
-import { Textarea } from "@/components/ui/textarea"
-\`\`\`
-
-then run this command:
-\`\`\`bash
-npx shadcn@latest add table textarea
-\`\`\``;
-
       logger.info('Magic UI: Component created successfully', {
-        componentDataLength: componentData.length,
+        componentDataLength: result.data?.length || 0,
       });
 
-      return {
-        text: responseText,
-        provider: this.name,
-        metadata: {
-          source: '21st.dev',
-          method: 'browser-callback',
-        },
-      };
+      return this.toComponentResponse(
+        result.data,
+        'browser-callback',
+        baseNameOf(request.absolutePathToCurrentFile),
+        profile
+      );
     } catch (error) {
       logger.error('Magic UI: Failed to create component', error);
       throw error;
     }
   }
 
+  /**
+   * Stream component creation as a synthetic waiting -> received sequence
+   *
+   * The browser callback flow has no partial output, so the stream only
+   * reports when the server starts waiting and when the payload arrives.
+   * In headless mode the first status carries the chat URL to open.
+   */
+  async *streamCreateUi(request: CreateUiRequest): AsyncGenerator<UiStreamEvent> {
+    if (this.config.headless) {
+      const pending = await this.createHeadlessJob(request);
+      yield {
+        type: 'status',
+        status: 'pending',
+        provider: this.name,
+        message: `Open ${pending.metadata?.chatUrl} to generate the component (job ${pending.metadata?.jobId})`,
+      };
+
+      const job = await magicJobs.waitFor(pending.metadata?.jobId);
+      if (!job.result) {
+        throw new TimeoutError('Component creation timed out waiting for browser callback');
+      }
+
+      yield { type: 'status', status: 'received', provider: this.name };
+      yield { type: 'result', response: job.result };
+      return;
+    }
+
+    yield {
+      type: 'status',
+      status: 'waiting',
+      provider: this.name,
+      message: 'Waiting for the component to be sent from the 21st.dev browser session',
+    };
+
+    const response = await this.createUi(request);
+
+    yield { type: 'status', status: 'received', provider: this.name };
+    yield { type: 'result', response };
+  }
+
   /**
    * Fetch UI component inspiration from 21st.dev
    */
@@ -161,6 +344,7 @@ npx shadcn@latest add table textarea
 
       return {
         text: response.data.text,
+        ...this.toStructured(response.data.text),
         provider: this.name,
         metadata: {
           source: '21st.dev',
@@ -195,12 +379,13 @@ npx shadcn@latest add table textarea
     });
 
     try {
+      const profile = await projectAnalyzer.profileFor(request);
       const response = await this.httpClient.post<ApiTextResponse>(
         '/api/refine-ui',
         {
           userMessage: request.userMessage,
           fileContent,
-          context: request.context,
+          context: profile ? `${request.context}\n\n${projectAnalyzer.describe(profile)}`.trim() : request.context,
         }
       );
 
@@ -208,8 +393,15 @@ npx shadcn@latest add table textarea
         textLength: response.data.text.length,
       });
 
+      const { files, instructions } = this.toStructured(response.data.text, baseNameOf(request.absolutePathToRefiningFile));
+      const dependencies = dependencyResolver.resolve(files || [], profile);
+      const installInstructions = dependencyResolver.format(dependencies);
+
       return {
-        text: response.data.text,
+        text: `${response.data.text}\n\n## Dependencies\n\n${installInstructions}`,
+        files,
+        instructions: instructions ? `${instructions}\n\n${installInstructions}` : installInstructions,
+        dependencies,
         provider: this.name,
         metadata: {
           source: '21st.dev',
@@ -229,3 +421,20 @@ npx shadcn@latest add table textarea
     }
   }
 }
+
+/**
+ * 21st.dev Magic provider definition for the provider registry
+ */
+export const magicProviderDefinition: UiProviderDefinition<MagicProviderConfig> = {
+  type: 'magic',
+  optionsSchema: z.object({
+    apiKey: z.string().min(1),
+    baseUrl: z.string().url(),
+    callbackServerPort: z.number().int().min(1).max(65535),
+    callbackTimeout: z.number().int().positive(),
+    headless: z.boolean().optional(),
+    relayPort: z.number().int().min(1).max(65535).optional(),
+    publicUrl: z.string().url().optional(),
+  }),
+  create: (options) => new MagicUiProvider(options),
+};
@@ -0,0 +1,118 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAiUiProvider } from './openai-ui-provider.js';
+import { ExternalServiceError, ValidationError } from '../../utils/errors.js';
+import type { CreateUiRequest, RefineUiRequest } from '../../types/index.js';
+
+const createRequest: CreateUiRequest = {
+  message: 'Create a pricing table',
+  searchQuery: 'pricing table',
+  absolutePathToCurrentFile: '/project/src/app/pricing.tsx',
+  absolutePathToProjectDirectory: '/project',
+  standaloneRequestQuery: 'pricing table with 3 tiers',
+};
+
+const refineRequest: RefineUiRequest = {
+  userMessage: 'Make it darker',
+  absolutePathToRefiningFile: '/project/src/components/pricing.tsx',
+  context: 'Dark mode',
+};
+
+const completion = [
+  'Here is the component.',
+  '',
+  '```tsx file="components/pricing-table.tsx"',
+  'export function PricingTable() {',
+  '  return <section />;',
+  '}',
+  '```',
+  '',
+  '```bash',
+  'npx shadcn@latest add card',
+  '```',
+].join('\n');
+
+describe('OpenAiUiProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let reply: string | null;
+  const requests: any[] = [];
+
+  // Stand-in for an OpenAI-compatible /v1/chat/completions endpoint, answering with `reply`
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          id: 'chatcmpl-1',
+          model: 'coder',
+          choices: [{ message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    reply = completion;
+  });
+
+  it('parses fenced code blocks of the completion into files', async () => {
+    const provider = new OpenAiUiProvider({ baseUrl, model: 'coder', apiKey: 'secret' });
+
+    const response = await provider.createUi(createRequest);
+
+    expect(requests[0]).toEqual(expect.objectContaining({ url: '/v1/chat/completions', authorization: 'Bearer secret' }));
+    expect(requests[0].body).toEqual(expect.objectContaining({ model: 'coder', stream: false }));
+    expect(response.files).toEqual([
+      {
+        name: 'pricing-table.tsx',
+        path: 'components/pricing-table.tsx',
+        content: 'export function PricingTable() {\n  return <section />;\n}',
+      },
+    ]);
+    expect(response.instructions).toContain('npx shadcn@latest add card');
+    expect(response.metadata).toEqual(expect.objectContaining({ model: 'coder', completionId: 'chatcmpl-1' }));
+  });
+
+  it('sends the current file content when refining', async () => {
+    const provider = new OpenAiUiProvider({ baseUrl, model: 'coder' });
+    reply = '```tsx\nexport function Pricing() {\n  return <section className="dark" />;\n}\n```';
+
+    const response = await provider.refineUi(refineRequest, 'export function Pricing() {}');
+
+    const prompt = requests[0].body.messages[1].content;
+    expect(requests[0].authorization).toBeUndefined();
+    expect(prompt).toContain('```tsx file="pricing.tsx"\nexport function Pricing() {}\n```');
+    expect(prompt).toContain('Make it darker');
+    expect(prompt).toContain('Context: Dark mode');
+    expect(response.files?.map((file) => file.name)).toEqual(['pricing.tsx']);
+  });
+
+  it('fails on an empty completion', async () => {
+    const provider = new OpenAiUiProvider({ baseUrl, model: 'coder' });
+    reply = null;
+
+    const error = await provider.fetchUi({ message: 'Pricing', searchQuery: 'pricing' }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ExternalServiceError);
+    expect(error.message).toBe('OpenAI-compatible API returned an empty completion');
+  });
+
+  it('rejects prompts larger than maxInputSize without calling the API', async () => {
+    const provider = new OpenAiUiProvider({ baseUrl, model: 'coder', maxInputSize: 100 });
+
+    await expect(provider.refineUi(refineRequest, 'x'.repeat(100))).rejects.toBeInstanceOf(ValidationError);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * OpenAI-compatible UI Provider
+ *
+ * Implementation of UiProvider interface for any OpenAI-compatible
+ * `/v1/chat/completions` endpoint (self-hosted inference gateways, vLLM, Ollama, etc.)
+ */
+
+import path from 'path';
+import { z } from 'zod';
+import { logger } from '../../utils/logger.js';
+import { HttpClient } from '../../utils/http-client.js';
+import { ExternalServiceError, ValidationError } from '../../utils/errors.js';
+import { parseStructuredResponse } from '../../utils/code-blocks.js';
+import { UiProvider, UiProviderDefinition, UiProviderCapabilities, UiProviderResponse } from './ui-provider.interface.js';
+import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+
+export interface OpenAiProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeout?: number;
+  temperature?: number;
+  maxInputSize?: number;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: { role: string; content: string | null };
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+const OUTPUT_FORMAT_RULES = `Output format:
+- Put every file in its own fenced code block whose info string contains the language and the file path, e.g. \`\`\`tsx file="components/pricing-table.tsx"
+- Use the "@/components/ui/*" import alias for shadcn/ui primitives and "@/lib/utils" for the cn() helper
+- After the code blocks, list any shadcn/ui components that must be installed as a single "npx shadcn@latest add ..." command in a bash code block
+- Do not include explanations longer than a few sentences`;
+
+const CREATE_SYSTEM_PROMPT = `You are an expert React engineer who builds production-ready UI components with TypeScript, Tailwind CSS and shadcn/ui.
+
+Rules:
+- Write a single self-contained React function component in TypeScript (.tsx) unless the request clearly needs more files
+- Compose shadcn/ui primitives (Button, Card, Input, Dialog, Table, ...) instead of re-implementing them
+- Style exclusively with Tailwind utility classes; support dark mode via the "dark:" variant and shadcn CSS variables (bg-background, text-foreground, ...)
+- Make the component responsive and accessible (semantic elements, labels, aria attributes, keyboard support)
+- Use lucide-react for icons
+- Export the component as a named export and type its props
+
+${OUTPUT_FORMAT_RULES}`;
+
+const REFINE_SYSTEM_PROMPT = `You are an expert React engineer who refines existing UI components built with TypeScript, Tailwind CSS and shadcn/ui.
+
+Rules:
+- Return the complete updated file, not a partial snippet or diff
+- Only change what the user asked for; keep the component's name, props, exports and behavior otherwise intact
+- Preserve existing imports and aliases unless a change requires new ones
+- Prefer shadcn/ui primitives and Tailwind utility classes for any new UI
+
+${OUTPUT_FORMAT_RULES}`;
+
+const INSPIRATION_SYSTEM_PROMPT = `You are a UI design assistant. Show two or three distinct, concise example implementations for the requested UI pattern using React, TypeScript, Tailwind CSS and shadcn/ui, each with a one-line description of when to use it.
+
+${OUTPUT_FORMAT_RULES}`;
+
+/**
+ * OpenAI-compatible UI Provider - generates components with a chat completions model
+ */
+export class OpenAiUiProvider implements UiProvider {
+  readonly name = 'openai';
+  private config: OpenAiProviderConfig;
+  private httpClient: HttpClient;
+
+  constructor(config: OpenAiProviderConfig) {
+    this.config = {
+      timeout: 120000,
+      temperature: 0.2,
+      ...config,
+    };
+    this.httpClient = new HttpClient({
+      baseUrl: this.config.baseUrl.replace(/\/+$/, ''),
+      timeout: this.config.timeout,
+      serviceName: 'openai-compatible',
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+    });
+  }
+
+  /**
+   * Check if provider is ready to use
+   */
+  async isReady(): Promise<boolean> {
+    try {
+      await this.httpClient.get('/models');
+      return true;
+    } catch (error) {
+      logger.warn('OpenAI-compatible provider health check failed', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Describe provider capabilities
+   */
+  getCapabilities(): UiProviderCapabilities {
+    return {
+      sessions: false,
+      streaming: false,
+      previewUrls: false,
+      structuredFiles: true,
+      headless: true,
+      refinements: 'edit',
+      maxInputSize: this.config.maxInputSize,
+      supportedFrameworks: ['react'],
+    };
+  }
+
+  /**
+   * Get provider status
+   */
+  async getStatus(): Promise<{ available: boolean; configured: boolean; message?: string }> {
+    const configured = !!(this.config.baseUrl && this.config.model);
+
+    if (!configured) {
+      return {
+        available: false,
+        configured: false,
+        message: 'OpenAI-compatible provider not configured (missing OPENAI_BASE_URL or OPENAI_MODEL)',
+      };
+    }
+
+    const ready = await this.isReady();
+
+    if (!ready) {
+      return {
+        available: false,
+        configured: true,
+        message: `OpenAI-compatible provider configured but ${this.config.baseUrl} is unreachable`,
+      };
+    }
+
+    return {
+      available: true,
+      configured: true,
+      message: `OpenAI-compatible provider ready (model: ${this.config.model})`,
+    };
+  }
+
+  /**
+   * Send a chat completion request and return the assistant message
+   */
+  private async complete(
+    messages: ChatMessage[]
+  ): Promise<{ content: string; response: ChatCompletionResponse }> {
+    const { data } = await this.httpClient.post<ChatCompletionResponse>('/chat/completions', {
+      model: this.config.model,
+      messages,
+      temperature: this.config.temperature,
+      stream: false,
+    });
+
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new ExternalServiceError(
+        'OpenAI-compatible API returned an empty completion',
+        'openai-compatible',
+        { finishReason: data.choices?.[0]?.finish_reason }
+      );
+    }
+
+    return { content, response: data };
+  }
+
+  /**
+   * Build a provider response from a completion
+   */
+  private toProviderResponse(
+    content: string,
+    completion: ChatCompletionResponse,
+    type: string,
+    defaultBaseName?: string
+  ): UiProviderResponse {
+    const { files, instructions } = parseStructuredResponse(content, defaultBaseName);
+
+    return {
+      text: content,
+      files: files.map(({ name, content: fileContent, path: filePath }) => ({
+        name,
+        content: fileContent,
+        path: filePath,
+      })),
+      instructions,
+      provider: this.name,
+      metadata: {
+        source: 'openai-compatible',
+        method: 'api',
+        type,
+        model: completion.model || this.config.model,
+        completionId: completion.id,
+        usage: completion.usage,
+      },
+    };
+  }
+
+  /**
+   * Wrap unexpected errors into ExternalServiceError
+   */
+  private toServiceError(error: unknown, message: string): ExternalServiceError {
+    if (error instanceof ExternalServiceError) {
+      return error;
+    }
+    return new ExternalServiceError(message, 'openai-compatible', {
+      originalError: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  /**
+   * Reject prompts larger than the configured maxInputSize
+   *
+   * @throws ValidationError if the messages exceed the limit
+   */
+  private checkInputSize(messages: ChatMessage[]): void {
+    const size = messages.reduce((total, message) => total + message.content.length, 0);
+    const limit = this.config.maxInputSize;
+
+    if (limit !== undefined && size > limit) {
+      throw new ValidationError(`Input is too large for the ${this.name} provider: ${size} characters (limit ${limit})`, {
+        size,
+        maxInputSize: limit,
+      });
+    }
+  }
+
+  /**
+   * Create a new UI component
+   */
+  async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    logger.info('OpenAI: Creating component', {
+      searchQuery: request.searchQuery,
+      file: request.absolutePathToCurrentFile,
+      model: this.config.model,
+    });
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: CREATE_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `${request.standaloneRequestQuery}\n\nOriginal request: ${request.message}\nTarget file: ${request.absolutePathToCurrentFile}`,
+      },
+    ];
+    this.checkInputSize(messages);
+
+    try {
+      const { content, response } = await this.complete(messages);
+
+      logger.info('OpenAI: Component created successfully', {
+        textLength: content.length,
+      });
+
+      return this.toProviderResponse(
+        content,
+        response,
+        'creation',
+        path.basename(request.absolutePathToCurrentFile).replace(/\.\w+$/, '') || undefined
+      );
+    } catch (error) {
+      logger.error('OpenAI: Failed to create component', error);
+      throw this.toServiceError(error, 'Failed to create UI component with OpenAI-compatible API');
+    }
+  }
+
+  /**
+   * Fetch UI component inspiration
+   */
+  async fetchUi(request: FetchUiRequest): Promise<UiProviderResponse> {
+    logger.info('OpenAI: Fetching component inspiration', {
+      searchQuery: request.searchQuery,
+      model: this.config.model,
+    });
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: INSPIRATION_SYSTEM_PROMPT },
+      { role: 'user', content: `Show me examples of: ${request.searchQuery}. ${request.message}` },
+    ];
+    this.checkInputSize(messages);
+
+    try {
+      const { content, response } = await this.complete(messages);
+
+      logger.info('OpenAI: Component examples fetched successfully', {
+        textLength: content.length,
+      });
+
+      return this.toProviderResponse(content, response, 'inspiration');
+    } catch (error) {
+      logger.error('OpenAI: Failed to fetch component inspiration', error);
+      throw this.toServiceError(error, 'Failed to fetch UI component inspiration from OpenAI-compatible API');
+    }
+  }
+
+  /**
+   * Refine an existing UI component
+   */
+  async refineUi(request: RefineUiRequest, fileContent: string): Promise<UiProviderResponse> {
+    logger.info('OpenAI: Refining component', {
+      file: request.absolutePathToRefiningFile,
+      contextLength: request.context.length,
+      model: this.config.model,
+    });
+
+    const fileName = path.basename(request.absolutePathToRefiningFile);
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: REFINE_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Refine this component (${fileName}):\n\n\`\`\`tsx file="${fileName}"\n${fileContent}\n\`\`\`\n\n${request.userMessage}${request.context ? `\n\nContext: ${request.context}` : ''}`,
+      },
+    ];
+    this.checkInputSize(messages);
+
+    try {
+      const { content, response } = await this.complete(messages);
+
+      logger.info('OpenAI: Component refined successfully', {
+        textLength: content.length,
+      });
+
+      return this.toProviderResponse(
+        content,
+        response,
+        'refinement',
+        fileName.replace(/\.\w+$/, '')
+      );
+    } catch (error) {
+      logger.error('OpenAI: Failed to refine component', error);
+      throw this.toServiceError(error, 'Failed to refine UI component with OpenAI-compatible API');
+    }
+  }
+}
+
+/**
+ * OpenAI-compatible provider definition for the provider registry
+ */
+export const openAiProviderDefinition: UiProviderDefinition<OpenAiProviderConfig> = {
+  type: 'openai',
+  optionsSchema: z.object({
+    baseUrl: z.string().url(),
+    model: z.string().min(1),
+    apiKey: z.string().optional(),
+    timeout: z.number().int().positive().optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    maxInputSize: z.number().int().positive().optional(),
+  }),
+  create: (options) => new OpenAiUiProvider(options),
+};
@@ -0,0 +1,195 @@
+/**
+ * UI Provider Registry
+ *
+ * Keeps track of available provider types (built-in and plugin) together
+ * with their validated options, and loads plugin modules from configuration.
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { logger } from '../../utils/logger.js';
+import type { ProviderPluginConfig } from '../../types/index.js';
+import { UiProvider, UiProviderDefinition, UiProviderType } from './ui-provider.interface.js';
+
+/**
+ * Registered provider type
+ */
+interface RegistryEntry {
+  definition: UiProviderDefinition;
+  options?: unknown;
+  configured: boolean;
+  notConfiguredMessage?: string;
+  source: 'built-in' | 'plugin';
+}
+
+export class ProviderRegistry {
+  private entries = new Map<UiProviderType, RegistryEntry>();
+
+  /**
+   * Register a provider type
+   *
+   * Options are validated against the definition's schema. Passing
+   * `undefined` options registers the type as known but not configured.
+   *
+   * @throws Error if the type is already registered or the options are invalid
+   */
+  register(
+    definition: UiProviderDefinition,
+    options: unknown,
+    meta: { source?: 'built-in' | 'plugin'; notConfiguredMessage?: string } = {}
+  ): void {
+    if (this.entries.has(definition.type)) {
+      throw new Error(`UI provider type '${definition.type}' is already registered`);
+    }
+
+    let validatedOptions = options;
+    if (options !== undefined && definition.optionsSchema) {
+      const result = definition.optionsSchema.safeParse(options);
+      if (!result.success) {
+        const issues = result.error.issues
+          .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join('; ');
+        throw new Error(`Invalid options for UI provider '${definition.type}': ${issues}`);
+      }
+      validatedOptions = result.data;
+    }
+
+    this.entries.set(definition.type, {
+      definition,
+      options: validatedOptions,
+      configured: options !== undefined,
+      notConfiguredMessage: meta.notConfiguredMessage,
+      source: meta.source || 'plugin',
+    });
+
+    logger.debug('UI provider type registered', {
+      type: definition.type,
+      source: meta.source || 'plugin',
+      configured: options !== undefined,
+    });
+  }
+
+  /**
+   * Check whether a provider type is registered
+   */
+  has(type: UiProviderType): boolean {
+    return this.entries.has(type);
+  }
+
+  /**
+   * Check whether a provider type is registered and configured
+   */
+  isConfigured(type: UiProviderType): boolean {
+    return !!this.entries.get(type)?.configured;
+  }
+
+  /**
+   * Registered provider types that are configured, in registration order
+   */
+  getConfiguredTypes(): UiProviderType[] {
+    return [...this.entries.entries()]
+      .filter(([, entry]) => entry.configured)
+      .map(([type]) => type);
+  }
+
+  /**
+   * Create a provider instance of the given type
+   *
+   * @throws Error if the type is unknown or not configured
+   */
+  create(type: UiProviderType): UiProvider {
+    const entry = this.entries.get(type);
+
+    if (!entry) {
+      throw new Error(`Unknown UI provider type: ${type}`);
+    }
+
+    if (!entry.configured) {
+      throw new Error(entry.notConfiguredMessage || `UI provider '${type}' selected but not configured`);
+    }
+
+    const provider = entry.definition.create(entry.options);
+
+    if (!provider || typeof provider.createUi !== 'function' || typeof provider.getCapabilities !== 'function') {
+      throw new Error(`UI provider '${type}' factory did not return a valid UiProvider`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Remove all registrations (useful for testing)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Resolve a plugin module specifier: relative/absolute paths are resolved
+ * against the working directory, anything else is treated as a package name
+ */
+function resolvePluginSpecifier(specifier: string): string {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return pathToFileURL(path.resolve(process.cwd(), specifier)).href;
+  }
+  return specifier;
+}
+
+/**
+ * Extract a provider definition from a plugin module namespace
+ */
+function toDefinition(moduleNamespace: Record<string, any>, specifier: string): UiProviderDefinition {
+  const candidate = moduleNamespace.default && typeof moduleNamespace.default.create === 'function'
+    ? moduleNamespace.default
+    : moduleNamespace;
+
+  if (typeof candidate.create !== 'function') {
+    throw new Error(
+      `UI provider plugin '${specifier}' must export a provider definition with a create(options) function`
+    );
+  }
+
+  return {
+    type: candidate.type,
+    optionsSchema: candidate.optionsSchema,
+    create: candidate.create,
+  };
+}
+
+/**
+ * Load and register provider plugins from configuration
+ *
+ * @throws Error if a module cannot be loaded or its options are invalid
+ */
+export async function loadProviderPlugins(
+  registry: ProviderRegistry,
+  plugins: ProviderPluginConfig[]
+): Promise<void> {
+  for (const plugin of plugins) {
+    logger.info('Loading UI provider plugin', { module: plugin.module, type: plugin.type });
+
+    let moduleNamespace: Record<string, any>;
+    try {
+      moduleNamespace = await import(resolvePluginSpecifier(plugin.module));
+    } catch (error) {
+      throw new Error(
+        `Failed to load UI provider plugin '${plugin.module}': ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const definition = toDefinition(moduleNamespace, plugin.module);
+    const type = plugin.type || definition.type;
+
+    if (!type) {
+      throw new Error(`UI provider plugin '${plugin.module}' does not declare a type; set "type" in its configuration`);
+    }
+
+    registry.register({ ...definition, type }, plugin.options ?? {}, { source: 'plugin' });
+
+    logger.info('UI provider plugin registered', { module: plugin.module, type });
+  }
+}
+
+// Export singleton instance
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,100 @@
+/**
+ * Session Recording UI Provider
+ *
+ * Records the turns of providers with native sessions (e.g. v0 chats) in the
+ * session history, so the server knows which principal, file and prompts a
+ * session belongs to, including the sessions started by restoring or forking.
+ * Sessions recorded for another principal cannot be continued.
+ */
+
+import { sessionHistory } from '../session-history.js';
+import { magicJobs } from '../magic-jobs.js';
+import { UiProviderDecorator, SessionCall, StreamedCall } from './ui-provider-decorator.js';
+import { UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+import type { CreateUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * Session Recording UI Provider - wraps a provider with native sessions
+ */
+export class SessionRecordingUiProvider extends UiProviderDecorator {
+  override async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    const response = await this.provider.createUi(request);
+
+    if (magicJobs.afterCompletion(response, (result) => this.record(result, request))) {
+      return response;
+    }
+    return this.record(response, request);
+  }
+
+  override async refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    if (sessionId) sessionHistory.checkAccess(sessionId);
+    return this.record(await this.provider.refineUi(request, fileContent, sessionId), request);
+  }
+
+  /**
+   * Record the result event of a stream
+   */
+  protected override async *decorateStream(
+    events: AsyncIterable<UiStreamEvent>,
+    call: StreamedCall
+  ): AsyncIterable<UiStreamEvent> {
+    if (call.operation === 'refine-ui' && call.sessionId) {
+      sessionHistory.checkAccess(call.sessionId);
+    }
+
+    for await (const event of events) {
+      if (event.type === 'result') {
+        this.record(event.response, call.request);
+      }
+      yield event;
+    }
+  }
+
+  /**
+   * Record the session a restore or fork starts (both fork the provider's session)
+   */
+  protected override async decorateSessionCall(
+    call: () => Promise<UiProviderResponse>,
+    { sessionId, versionId }: SessionCall
+  ): Promise<UiProviderResponse> {
+    const response = await call();
+
+    if (response.sessionId && response.sessionId !== sessionId) {
+      sessionHistory.recordFork(this.name, sessionId, response.sessionId, versionId);
+    }
+    return response;
+  }
+
+  /**
+   * Record a response under the session ID the provider returned
+   */
+  private record(
+    response: UiProviderResponse,
+    request: CreateUiRequest | RefineUiRequest
+  ): UiProviderResponse {
+    if (!response.sessionId) {
+      return response;
+    }
+
+    const refinement = 'userMessage' in request;
+    sessionHistory.record(
+      this.name,
+      response.sessionId,
+      {
+        kind: refinement ? 'refinement' : 'creation',
+        message: refinement ? request.userMessage : request.message,
+        request,
+        text: response.text,
+        files: response.files || [],
+        instructions: response.instructions,
+      },
+      true
+    );
+
+    return response;
+  }
+}
@@ -0,0 +1,132 @@
+import { TypeCheckingUiProvider } from './type-checking-ui-provider.js';
+import { typeChecker, TypeCheckResult } from '../type-checker.js';
+import { config } from '../../utils/config.js';
+import { ExternalServiceError } from '../../utils/errors.js';
+import type { UiProvider, UiProviderResponse } from './ui-provider.interface.js';
+import type { CreateUiRequest } from '../../types/index.js';
+
+jest.mock('./ui-provider-factory.js', () => ({
+  getUiProvider: jest.fn(),
+}));
+
+const request: CreateUiRequest = {
+  message: 'Create a pricing table',
+  searchQuery: 'pricing table',
+  absolutePathToCurrentFile: '/project/src/app/page.tsx',
+  absolutePathToProjectDirectory: '/project',
+  standaloneRequestQuery: 'pricing table with 3 tiers',
+};
+
+const created: UiProviderResponse = {
+  text: 'Pricing table',
+  files: [
+    { name: 'pricing.tsx', content: 'export const Pricing = 1' },
+    { name: 'badge.tsx', content: 'export const Badge = 1' },
+  ],
+  sessionId: 'chat_1',
+};
+
+/**
+ * Type check result with one error per diagnostic source file
+ */
+function checked(...sources: string[]): TypeCheckResult {
+  return {
+    status: sources.length > 0 ? 'failed' : 'passed',
+    projectDirectory: '/project',
+    files: ['src/components/pricing.tsx', 'src/components/badge.tsx'],
+    errorCount: sources.length,
+    warningCount: 0,
+    diagnostics: sources.map((source) => ({
+      source,
+      file: `src/components/${source}`,
+      line: 1,
+      column: 1,
+      code: 2322,
+      category: 'error',
+      message: 'Type error',
+    })),
+    durationMs: 1,
+  };
+}
+
+describe('TypeCheckingUiProvider', () => {
+  let refineUi: jest.Mock;
+  let check: jest.SpyInstance;
+  let provider: TypeCheckingUiProvider;
+
+  beforeEach(() => {
+    config.typecheck.autoFix = true;
+    refineUi = jest.fn();
+    check = jest.spyOn(typeChecker, 'check');
+    provider = new TypeCheckingUiProvider({
+      name: 'v0',
+      getCapabilities: () => ({ refinements: 'edit' }),
+      createUi: async () => created,
+      refineUi,
+    } as unknown as UiProvider);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    config.typecheck.autoFix = false;
+  });
+
+  it('refines the file with the first error and keeps the refinement when it has fewer errors', async () => {
+    check.mockResolvedValueOnce(checked('pricing.tsx', 'badge.tsx')).mockResolvedValueOnce(checked('badge.tsx'));
+    refineUi.mockResolvedValue({ text: 'Fixed', files: [{ name: 'pricing.tsx', content: 'export const Pricing = 2' }] });
+
+    const response = await provider.createUi(request);
+
+    const [refineRequest, fileContent, sessionId] = refineUi.mock.calls[0];
+    expect(refineRequest).toEqual(expect.objectContaining({
+      absolutePathToRefiningFile: '/project/src/components/pricing.tsx',
+      absolutePathToProjectDirectory: '/project',
+    }));
+    expect(refineRequest.userMessage).toContain('src/components/badge.tsx(1,1): error TS2322: Type error');
+    expect([fileContent, sessionId]).toEqual(['export const Pricing = 1', 'chat_1']);
+
+    expect(check.mock.calls[1]).toEqual([
+      [{ name: 'pricing.tsx', content: 'export const Pricing = 2' }, { name: 'badge.tsx', content: 'export const Badge = 1' }],
+      { projectDirectory: '/project', targetFile: '/project/src/components/pricing.tsx', refinements: 'edit' },
+    ]);
+    expect(response.text).toMatch(/^Fixed\n\n## TypeScript errors\n/);
+    expect(response.sessionId).toBe('chat_1');
+    expect(response.metadata?.typecheck).toEqual(expect.objectContaining({
+      errorCount: 1,
+      fix: { errorCount: 2, fixed: true },
+    }));
+  });
+
+  it('keeps the original response when the refinement is not better', async () => {
+    check.mockResolvedValueOnce(checked('pricing.tsx')).mockResolvedValueOnce(checked('pricing.tsx'));
+    refineUi.mockResolvedValue({ text: 'Not fixed', files: [{ name: 'pricing.tsx', content: 'export const Pricing = 3' }] });
+
+    const response = await provider.createUi(request);
+
+    expect(response.text).toMatch(/^Pricing table\n\n## TypeScript errors\n/);
+    expect(response.files).toBe(created.files);
+    expect(response.metadata?.typecheck).toEqual(expect.objectContaining({ fix: { errorCount: 1, fixed: false } }));
+  });
+
+  it('reports a failed fix round and keeps the original response', async () => {
+    check.mockResolvedValueOnce(checked('badge.tsx'));
+    refineUi.mockRejectedValue(new ExternalServiceError('v0.dev is down', 'v0.dev'));
+
+    const response = await provider.createUi(request);
+
+    expect(response.files).toBe(created.files);
+    expect(response.metadata?.typecheck).toEqual(expect.objectContaining({
+      fix: { errorCount: 1, fixed: false, error: 'v0.dev is down' },
+    }));
+  });
+
+  it('only attaches the check without autofix or errors', async () => {
+    check.mockResolvedValueOnce(checked());
+    expect((await provider.createUi(request)).metadata?.typecheck).toEqual(checked());
+
+    config.typecheck.autoFix = false;
+    check.mockResolvedValueOnce(checked('pricing.tsx'));
+    expect((await provider.createUi(request)).metadata?.typecheck).not.toHaveProperty('fix');
+    expect(refineUi).not.toHaveBeenCalled();
+  });
+});
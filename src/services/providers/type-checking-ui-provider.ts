@@ -0,0 +1,207 @@
+/**
+ * Type Checking UI Provider
+ *
+ * Type-checks generated TypeScript files against the target project and
+ * attaches the diagnostics to the response metadata (`metadata.typecheck`).
+ * With TYPECHECK_AUTOFIX, responses with type errors get one refinement round
+ * asking the provider to fix them.
+ */
+
+import path from 'path';
+import { typeChecker, TypeCheckResult } from '../type-checker.js';
+import { magicJobs } from '../magic-jobs.js';
+import { projectAnalyzer } from '../project-analyzer.js';
+import { dependencyResolver } from '../dependency-resolver.js';
+import { ApplyTarget } from '../apply-service.js';
+import { config } from '../../utils/config.js';
+import { logger } from '../../utils/logger.js';
+import { UiProviderDecorator, StreamedCall } from './ui-provider-decorator.js';
+import { UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+import type { CreateUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * Outcome of an automatic fix round
+ */
+export interface TypeCheckFix {
+  errorCount: number; // Errors before the fix round
+  fixed: boolean; // The refined response has fewer errors and replaced the original
+  error?: string; // Why the fix round failed
+}
+
+/**
+ * Response with its type check attached to the metadata, and the remaining
+ * errors appended to the text
+ */
+function withTypeCheck(response: UiProviderResponse, result: TypeCheckResult, fix?: TypeCheckFix): UiProviderResponse {
+  const text = result.status === 'failed'
+    ? `${response.text}\n\n## TypeScript errors\n\n\`\`\`\n${typeChecker.format(result)}\n\`\`\``
+    : response.text;
+
+  return {
+    ...response,
+    text,
+    metadata: {
+      ...response.metadata,
+      typecheck: fix ? { ...result, fix } : result,
+    },
+  };
+}
+
+/**
+ * Type Checking UI Provider - wraps a provider with type checks of its output
+ *
+ * Fetched examples are not checked against the project, and versions and
+ * forks return earlier generations unchanged.
+ */
+export class TypeCheckingUiProvider extends UiProviderDecorator {
+  /**
+   * Create a UI component, type-checking its files (for headless jobs, once they complete)
+   */
+  override async createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    const response = await this.provider.createUi(request);
+    const target = { projectDirectory: request.absolutePathToProjectDirectory };
+
+    if (magicJobs.afterCompletion(response, (result) => this.check(result, target))) {
+      return response;
+    }
+    return this.check(response, target);
+  }
+
+  override async refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    const response = await this.provider.refineUi(request, fileContent, sessionId);
+    return this.check(response, this.refineTarget(request));
+  }
+
+  /**
+   * Where refined files are applied
+   */
+  private refineTarget(request: RefineUiRequest): ApplyTarget {
+    return {
+      projectDirectory: request.absolutePathToProjectDirectory,
+      targetFile: request.absolutePathToRefiningFile,
+      refinements: this.provider.getCapabilities().refinements,
+    };
+  }
+
+  /**
+   * Type-check a response, running the fix round when enabled
+   */
+  private async check(response: UiProviderResponse, target: ApplyTarget): Promise<UiProviderResponse> {
+    const result = await typeChecker.check(response.files || [], target);
+    if (!result) {
+      return response;
+    }
+
+    if (result.status !== 'failed' || !config.typecheck.autoFix) {
+      return withTypeCheck(response, result);
+    }
+
+    return this.fix(response, result);
+  }
+
+  /**
+   * Ask the provider to fix the type errors of a response in one refinement
+   *
+   * The file with the first error is refined, with all diagnostics in the
+   * request. The refined response is kept only if it has fewer errors.
+   */
+  private async fix(response: UiProviderResponse, result: TypeCheckResult): Promise<UiProviderResponse> {
+    const root = result.projectDirectory!;
+    const failing = result.diagnostics.find((diagnostic) => diagnostic.category === 'error')!;
+    const refiningFile = path.join(root, failing.file);
+    const source = (response.files || []).find((file) => (file.path || file.name) === failing.source);
+
+    if (!source) {
+      return withTypeCheck(response, result, { errorCount: result.errorCount, fixed: false, error: 'Refined file not found' });
+    }
+
+    logger.info('Fixing type errors in generated files', {
+      provider: this.name,
+      file: refiningFile,
+      errorCount: result.errorCount,
+    });
+
+    const request: RefineUiRequest = {
+      userMessage: `Fix these TypeScript errors without changing the component's design or behavior:\n\n${typeChecker.format(result)}`,
+      absolutePathToRefiningFile: refiningFile,
+      absolutePathToProjectDirectory: root,
+      context: 'The generated code must compile against the project\'s tsconfig.json.',
+    };
+
+    try {
+      const refined = await this.provider.refineUi(request, source.content, response.sessionId);
+
+      // Files the refinement did not return are kept from the original response
+      const refinedNames = new Set((refined.files || []).map((file) => path.basename(file.path || file.name)));
+      const files = [
+        ...(refined.files || []),
+        ...(response.files || []).filter((file) => !refinedNames.has(path.basename(file.path || file.name))),
+      ];
+
+      const refinedResult = await typeChecker.check(files, {
+        projectDirectory: root,
+        targetFile: refiningFile,
+        refinements: this.provider.getCapabilities().refinements,
+      });
+      const fixed = refinedResult?.status === 'passed' || (refinedResult?.status === 'failed' && refinedResult.errorCount < result.errorCount);
+
+      logger.info('Type error fix round completed', {
+        provider: this.name,
+        errorsBefore: result.errorCount,
+        errorsAfter: refinedResult?.errorCount,
+        fixed,
+      });
+
+      if (!fixed) {
+        return withTypeCheck(response, result, { errorCount: result.errorCount, fixed: false });
+      }
+
+      return withTypeCheck(
+        {
+          ...refined,
+          files,
+          dependencies: response.dependencies && dependencyResolver.resolve(files, await projectAnalyzer.analyze(root)),
+          sessionId: refined.sessionId ?? response.sessionId,
+        },
+        refinedResult,
+        { errorCount: result.errorCount, fixed: true }
+      );
+    } catch (error) {
+      logger.warn('Type error fix round failed', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return withTypeCheck(response, result, {
+        errorCount: result.errorCount,
+        fixed: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Forward a stream, type-checking its final response
+   */
+  protected override async *decorateStream(
+    stream: AsyncIterable<UiStreamEvent>,
+    call: StreamedCall
+  ): AsyncGenerator<UiStreamEvent> {
+    const target = call.operation === 'create-ui'
+      ? { projectDirectory: call.request.absolutePathToProjectDirectory }
+      : this.refineTarget(call.request);
+
+    for await (const event of stream) {
+      if (event.type !== 'result') {
+        yield event;
+        continue;
+      }
+
+      yield { type: 'status', status: 'type-checking', provider: this.name, sessionId: event.response.sessionId };
+      yield { type: 'result', response: await this.check(event.response, target) };
+    }
+  }
+}
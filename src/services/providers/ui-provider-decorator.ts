@@ -0,0 +1,126 @@
+/**
+ * UI Provider Decorator
+ *
+ * Base class of providers that add behavior (caching, formatting, usage
+ * accounting, ...) around another provider. Every call is forwarded to the
+ * wrapped provider; subclasses override the calls they change.
+ */
+
+import {
+  UiProvider,
+  UiProviderCapabilities,
+  UiProviderResponse,
+  UiStreamEvent,
+} from './ui-provider.interface.js';
+import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * Streamed generation of the wrapped provider
+ */
+export type StreamedCall =
+  | { operation: 'create-ui'; request: CreateUiRequest }
+  | { operation: 'refine-ui'; request: RefineUiRequest; fileContent: string; sessionId?: string };
+
+/**
+ * Version restore or fork of the wrapped provider
+ */
+export interface SessionCall {
+  operation: 'restore-version' | 'fork-session';
+  sessionId: string;
+  versionId?: string;
+}
+
+export abstract class UiProviderDecorator implements UiProvider {
+  readonly name: string;
+  protected provider: UiProvider;
+
+  // Optional capabilities are forwarded only when the wrapped provider has them
+  readonly streamCreateUi?: UiProvider['streamCreateUi'];
+  readonly streamRefineUi?: UiProvider['streamRefineUi'];
+  readonly listVersions?: UiProvider['listVersions'];
+  readonly getVersion?: UiProvider['getVersion'];
+  readonly restoreVersion?: UiProvider['restoreVersion'];
+  readonly forkSession?: UiProvider['forkSession'];
+
+  constructor(provider: UiProvider) {
+    this.provider = provider;
+    this.name = provider.name;
+
+    const { streamCreateUi, streamRefineUi, restoreVersion, forkSession } = provider;
+
+    if (streamCreateUi) {
+      this.streamCreateUi = (request) =>
+        this.decorateStream(streamCreateUi.call(provider, request), { operation: 'create-ui', request });
+    }
+    if (streamRefineUi) {
+      this.streamRefineUi = (request, fileContent, sessionId) =>
+        this.decorateStream(
+          streamRefineUi.call(provider, request, fileContent, sessionId),
+          { operation: 'refine-ui', request, fileContent, sessionId }
+        );
+    }
+    if (restoreVersion) {
+      this.restoreVersion = (sessionId, versionId) =>
+        this.decorateSessionCall(
+          () => restoreVersion.call(provider, sessionId, versionId),
+          { operation: 'restore-version', sessionId, versionId }
+        );
+    }
+    if (forkSession) {
+      this.forkSession = (sessionId, versionId) =>
+        this.decorateSessionCall(
+          () => forkSession.call(provider, sessionId, versionId),
+          { operation: 'fork-session', sessionId, versionId }
+        );
+    }
+
+    // Reads of existing versions are always forwarded unchanged
+    this.listVersions = provider.listVersions?.bind(provider);
+    this.getVersion = provider.getVersion?.bind(provider);
+  }
+
+  getCapabilities(): UiProviderCapabilities {
+    return this.provider.getCapabilities();
+  }
+
+  isReady(): Promise<boolean> {
+    return this.provider.isReady();
+  }
+
+  getStatus(): Promise<{ available: boolean; configured: boolean; message?: string }> {
+    return this.provider.getStatus();
+  }
+
+  createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    return this.provider.createUi(request);
+  }
+
+  fetchUi(request: FetchUiRequest): Promise<UiProviderResponse> {
+    return this.provider.fetchUi(request);
+  }
+
+  refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    return this.provider.refineUi(request, fileContent, sessionId);
+  }
+
+  /**
+   * Decorate a stream of the wrapped provider (forwarded unchanged by default)
+   */
+  protected decorateStream(stream: AsyncIterable<UiStreamEvent>, _call: StreamedCall): AsyncIterable<UiStreamEvent> {
+    return stream;
+  }
+
+  /**
+   * Decorate a version restore or fork of the wrapped provider (forwarded unchanged by default)
+   */
+  protected decorateSessionCall(
+    call: () => Promise<UiProviderResponse>,
+    _sessionCall: SessionCall
+  ): Promise<UiProviderResponse> {
+    return call();
+  }
+}
@@ -0,0 +1,65 @@
+import { getUiProvider, getConfiguredProviderTypes, resetUiProvider } from './ui-provider-factory.js';
+import { config } from '../../utils/config.js';
+import { ValidationError } from '../../utils/errors.js';
+import { createUiSchema, fetchUiSchema, refineUiSchema } from '../../utils/validation.js';
+
+// The Magic provider opens a browser through the ESM-only `open` package
+jest.mock('open', () => jest.fn());
+
+describe('per-request provider selection', () => {
+  beforeAll(() => {
+    config.uiProvider.type = 'local';
+    config.uiProvider.providers = ['local'];
+    config.uiProvider.magic = undefined;
+    config.uiProvider.v0 = undefined;
+    config.uiProvider.local = { templatesDir: '/templates' };
+    config.uiProvider.openai = { baseUrl: 'http://127.0.0.1:9/v1', model: 'coder' };
+  });
+
+  afterEach(() => {
+    resetUiProvider();
+  });
+
+  it('lists the configured provider types', () => {
+    expect(getConfiguredProviderTypes().sort()).toEqual(['local', 'openai']);
+  });
+
+  it('returns the default provider without a name', () => {
+    expect(getUiProvider().name).toBe('local');
+  });
+
+  it('returns one cached instance per named provider', () => {
+    const openai = getUiProvider('openai');
+
+    expect(openai.name).toBe('openai');
+    expect(getUiProvider('openai')).toBe(openai);
+    expect(getUiProvider('local')).not.toBe(openai);
+  });
+
+  it('rejects providers that are not configured', () => {
+    expect(() => getUiProvider('v0')).toThrow(ValidationError);
+    expect(() => getUiProvider('unknown')).toThrow(
+      "UI provider 'unknown' is not configured. Available providers: local, openai"
+    );
+  });
+
+  it('accepts a provider on create, fetch and refine requests', () => {
+    const create = createUiSchema.parse({
+      message: 'Create a pricing table',
+      searchQuery: 'pricing',
+      absolutePathToCurrentFile: '/project/src/app/page.tsx',
+      absolutePathToProjectDirectory: '/project',
+      standaloneRequestQuery: 'pricing table',
+      provider: 'openai',
+    });
+    const fetch = fetchUiSchema.parse({ message: 'Pricing', searchQuery: 'pricing', provider: 'v0' });
+    const refine = refineUiSchema.parse({
+      userMessage: 'Make it darker',
+      absolutePathToRefiningFile: '/project/src/components/pricing.tsx',
+      context: 'Dark mode',
+      provider: 'local',
+    });
+
+    expect([create.provider, fetch.provider, refine.provider]).toEqual(['openai', 'v0', 'local']);
+  });
+});
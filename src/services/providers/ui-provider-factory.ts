@@ -6,54 +6,180 @@
 
 import { logger } from '../../utils/logger.js';
 import { config } from '../../utils/config.js';
-import { UiProvider } from './ui-provider.interface.js';
-import { MagicUiProvider } from './magic-ui-provider.js';
-import { V0UiProvider } from './v0-ui-provider.js';
+import { ValidationError } from '../../utils/errors.js';
+import { UiProvider, UiProviderCapabilities, UiProviderType } from './ui-provider.interface.js';
+import { magicProviderDefinition } from './magic-ui-provider.js';
+import { v0ProviderDefinition } from './v0-ui-provider.js';
+import { localTemplateProviderDefinition } from './local-template-ui-provider.js';
+import { openAiProviderDefinition } from './openai-ui-provider.js';
+import { CompositeUiProvider } from './composite-ui-provider.js';
+import { HistoryUiProvider } from './history-ui-provider.js';
+import { SessionRecordingUiProvider } from './session-recording-ui-provider.js';
+import { CachingUiProvider } from './caching-ui-provider.js';
+import { UsageTrackingUiProvider } from './usage-tracking-ui-provider.js';
+import { TypeCheckingUiProvider } from './type-checking-ui-provider.js';
+import { FormattingUiProvider } from './formatting-ui-provider.js';
+import { providerRegistry, loadProviderPlugins } from './provider-registry.js';
+
+let builtInProvidersRegistered = false;
 
 /**
- * Create a UI provider instance based on configuration
+ * Register the built-in provider types, configured from environment settings
+ *
+ * Runs on first use rather than at import, so invalid provider options are
+ * reported after validateConfig has checked the environment.
  */
-export function createUiProvider(): UiProvider {
-  const providerType = config.uiProvider.type;
+function registerBuiltInProviders(): void {
+  if (builtInProvidersRegistered) {
+    return;
+  }
+  builtInProvidersRegistered = true;
+
+  providerRegistry.register(
+    magicProviderDefinition,
+    config.uiProvider.magic && {
+      apiKey: config.uiProvider.magic.apiKey,
+      baseUrl: config.uiProvider.magic.baseUrl,
+      callbackServerPort: config.callbackServer.startPort,
+      callbackTimeout: config.callbackServer.timeout,
+      headless: config.uiProvider.magic.headless,
+      relayPort: config.uiProvider.magic.relayPort,
+      publicUrl: config.uiProvider.magic.publicUrl,
+    },
+    {
+      source: 'built-in',
+      notConfiguredMessage: 'Magic UI provider selected but not configured (missing API key)',
+    }
+  );
+
+  providerRegistry.register(v0ProviderDefinition, config.uiProvider.v0, {
+    source: 'built-in',
+    notConfiguredMessage: 'v0 provider selected but not configured (missing V0_API_KEY)',
+  });
+
+  providerRegistry.register(localTemplateProviderDefinition, config.uiProvider.local, {
+    source: 'built-in',
+    notConfiguredMessage: 'Local template provider selected but not configured (missing LOCAL_TEMPLATES_DIR)',
+  });
 
+  providerRegistry.register(openAiProviderDefinition, config.uiProvider.openai, {
+    source: 'built-in',
+    notConfiguredMessage: 'OpenAI-compatible provider selected but not configured (missing OPENAI_BASE_URL)',
+  });
+}
+
+/**
+ * Load provider plugins from configuration and check the configured chain
+ *
+ * Must be called once at startup, before the first provider is requested.
+ *
+ * @throws Error if a plugin fails to load or a chain entry is not registered
+ */
+export async function initializeProviders(): Promise<void> {
+  registerBuiltInProviders();
+  await loadProviderPlugins(providerRegistry, config.uiProvider.plugins);
+
+  for (const type of config.uiProvider.providers) {
+    if (!providerRegistry.has(type)) {
+      throw new Error(`Unknown UI provider type: ${type}`);
+    }
+  }
+}
+
+/**
+ * Create a single UI provider instance of the given type
+ */
+function createProviderOfType(providerType: UiProviderType): UiProvider {
   logger.info('Creating UI provider', { type: providerType });
 
-  switch (providerType) {
-    case 'magic':
-      if (!config.uiProvider.magic) {
-        throw new Error('Magic UI provider selected but not configured (missing API key)');
-      }
+  registerBuiltInProviders();
 
-      return new MagicUiProvider({
-        apiKey: config.uiProvider.magic.apiKey,
-        baseUrl: config.uiProvider.magic.baseUrl,
-        callbackServerPort: config.callbackServer.startPort,
-        callbackTimeout: config.callbackServer.timeout,
-      });
+  // Usage is tracked beneath the cache so only upstream calls are recorded;
+  // cached responses keep their formatting and type check, and fix rounds are
+  // tracked. Files are formatted before the type check so diagnostics match them
+  const created = providerRegistry.create(providerType);
+  const tracked = config.usage.enabled ? new UsageTrackingUiProvider(created) : created;
+  const formatted = config.format.enabled ? new FormattingUiProvider(tracked) : tracked;
+  const provider = new CachingUiProvider(
+    config.typecheck.enabled ? new TypeCheckingUiProvider(formatted) : formatted
+  );
 
-    case 'v0':
-      if (!config.uiProvider.v0) {
-        throw new Error('v0 provider selected but not configured (missing V0_API_KEY)');
-      }
+  // Providers without server-side sessions get sessions from stored history;
+  // native sessions are recorded in the same history
+  if (!provider.getCapabilities().sessions) {
+    return new HistoryUiProvider(provider);
+  }
+  return new SessionRecordingUiProvider(provider);
+}
 
-      return new V0UiProvider({
-        apiKey: config.uiProvider.v0.apiKey,
-      });
+/**
+ * Cached provider instances, keyed by provider type
+ */
+const providerInstances = new Map<UiProviderType, UiProvider>();
 
-    default:
-      throw new Error(`Unknown UI provider type: ${providerType}`);
+/**
+ * Get provider types that are configured (built-in with credentials, or loaded plugins)
+ */
+export function getConfiguredProviderTypes(): UiProviderType[] {
+  registerBuiltInProviders();
+  return providerRegistry.getConfiguredTypes();
+}
+
+/**
+ * Get the cached provider instance of the given type, creating it on first use
+ */
+function getProviderOfType(providerType: UiProviderType): UiProvider {
+  let provider = providerInstances.get(providerType);
+  if (!provider) {
+    provider = createProviderOfType(providerType);
+    providerInstances.set(providerType, provider);
   }
+  return provider;
 }
 
 /**
- * Singleton UI provider instance
+ * Create a UI provider instance based on configuration
+ *
+ * When more than one provider is configured (e.g. UI_PROVIDER=v0,magic),
+ * returns a composite provider that fails over in the configured order.
+ */
+export function createUiProvider(): UiProvider {
+  const providerTypes = config.uiProvider.providers;
+
+  if (providerTypes.length <= 1) {
+    return getProviderOfType(config.uiProvider.type);
+  }
+
+  logger.info('Creating composite UI provider', { providers: providerTypes });
+
+  return new CompositeUiProvider(providerTypes.map((type) => getProviderOfType(type)));
+}
+
+/**
+ * Default UI provider instance
  */
 let providerInstance: UiProvider | null = null;
 
 /**
- * Get the singleton UI provider instance
+ * Get a UI provider instance
+ *
+ * Without a name, returns the default provider (or failover chain) from configuration.
+ * With a name, returns that specific provider if it is configured.
+ *
+ * @throws ValidationError if the named provider is unknown or not configured
  */
-export function getUiProvider(): UiProvider {
+export function getUiProvider(name?: string): UiProvider {
+  if (name) {
+    const configured = getConfiguredProviderTypes();
+    if (!configured.includes(name)) {
+      throw new ValidationError(
+        `UI provider '${name}' is not configured. Available providers: ${configured.join(', ') || 'none'}`,
+        { provider: name, available: configured }
+      );
+    }
+    return getProviderOfType(name);
+  }
+
   if (!providerInstance) {
     providerInstance = createUiProvider();
   }
@@ -61,13 +187,70 @@ export function getUiProvider(): UiProvider {
 }
 
 /**
- * Reset the provider instance (useful for testing or dynamic reconfiguration)
+ * Reset provider instances (useful for testing or dynamic reconfiguration)
  */
 export function resetUiProvider(): void {
   providerInstance = null;
+  providerInstances.clear();
   logger.info('UI provider instance reset');
 }
 
+/**
+ * Summary of a configured provider for discovery endpoints
+ */
+export interface ProviderSummary {
+  name: string;
+  default: boolean;
+  capabilities: UiProviderCapabilities;
+  status?: {
+    available: boolean;
+    configured: boolean;
+    message?: string;
+  };
+}
+
+/**
+ * List configured providers with their capabilities
+ *
+ * @param includeStatus Also query each provider's status (may call upstream APIs)
+ */
+export async function listProviders(includeStatus = false): Promise<{
+  default: string;
+  failoverChain: UiProviderType[];
+  capabilities: UiProviderCapabilities;
+  providers: ProviderSummary[];
+}> {
+  const defaultProvider = getUiProvider();
+
+  const providers = await Promise.all(
+    getConfiguredProviderTypes().map(async (type): Promise<ProviderSummary> => {
+      const provider = getProviderOfType(type);
+      const summary: ProviderSummary = {
+        name: provider.name,
+        default: config.uiProvider.type === type,
+        capabilities: provider.getCapabilities(),
+      };
+
+      if (includeStatus) {
+        summary.status = await provider.getStatus().catch((error) => ({
+          available: false,
+          configured: true,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        }));
+      }
+
+      return summary;
+    })
+  );
+
+  return {
+    default: defaultProvider.name,
+    failoverChain: config.uiProvider.providers,
+    capabilities: defaultProvider.getCapabilities(),
+    providers,
+  };
+}
+
 /**
  * Get provider status information
  */
@@ -5,7 +5,9 @@
  * Supports multiple implementations (21st.dev Magic, v0.dev, etc.)
  */
 
+import type { ZodType, ZodTypeDef } from 'zod';
 import { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+import type { DependencyReport } from '../dependency-resolver.js';
 
 /**
  * Unified response format for all UI providers
@@ -31,6 +33,16 @@ export interface UiProviderResponse {
     path?: string;
   }>;
 
+  /**
+   * Integration instructions (install commands, usage notes) separate from the files
+   */
+  instructions?: string;
+
+  /**
+   * shadcn/ui components and npm packages the generated files need, with install commands
+   */
+  dependencies?: DependencyReport;
+
   /**
    * Session ID for maintaining conversation continuity
    * Used in refinement operations
@@ -48,6 +60,111 @@ export interface UiProviderResponse {
   provider: string;
 }
 
+/**
+ * Features supported by a UI provider, so clients can adapt their UI
+ */
+export interface UiProviderCapabilities {
+  /**
+   * Refinements can continue a previous generation via sessionId
+   */
+  sessions: boolean;
+
+  /**
+   * Native streaming of partial output (others get a synthetic status stream)
+   */
+  streaming: boolean;
+
+  /**
+   * Responses include a previewUrl
+   */
+  previewUrls: boolean;
+
+  /**
+   * Responses include structured `files`
+   */
+  structuredFiles: boolean;
+
+  /**
+   * Works without a local browser or user interaction
+   */
+  headless: boolean;
+
+  /**
+   * What refinements return: 'edit' when the refined file comes back edited,
+   * so a single generated file replaces it whatever its name; 'reference'
+   * when the files are related examples that never replace it. Without it,
+   * only a generated file with the refined file's name replaces it.
+   */
+  refinements?: 'edit' | 'reference';
+
+  /**
+   * Maximum accepted input size in characters, if the provider enforces one
+   */
+  maxInputSize?: number;
+
+  /**
+   * Frameworks the generated code targets (e.g. 'react', 'nextjs')
+   */
+  supportedFrameworks: string[];
+}
+
+/**
+ * Progress event emitted while a UI component is being generated
+ */
+export type UiStreamEvent =
+  | {
+      /** Generation status change (e.g. 'generating', 'waiting', 'received', 'completed') */
+      type: 'status';
+      status: string;
+      provider: string;
+      message?: string;
+      sessionId?: string;
+    }
+  | {
+      /** Partial text content as it is produced */
+      type: 'delta';
+      content: string;
+    }
+  | {
+      /** A file whose content has been fully produced */
+      type: 'file';
+      name: string;
+      content: string;
+      path?: string;
+    }
+  | {
+      /** Final provider response, always the last event of a successful stream */
+      type: 'result';
+      response: UiProviderResponse;
+    }
+  | {
+      /** Generation failed; no further events follow */
+      type: 'error';
+      error: string;
+      code?: string;
+    };
+
+/**
+ * Summary of one generation (version) within a session
+ */
+export interface UiVersionSummary {
+  id: string;
+  status: 'pending' | 'completed' | 'failed';
+  createdAt: string;
+  updatedAt?: string;
+  previewUrl?: string;
+}
+
+/**
+ * A session version including its generated files
+ */
+export interface UiVersion extends UiVersionSummary {
+  files: Array<{
+    name: string;
+    content: string;
+  }>;
+}
+
 /**
  * UI Provider Interface
  *
@@ -55,7 +172,7 @@ export interface UiProviderResponse {
  */
 export interface UiProvider {
   /**
-   * Provider name (e.g., 'magic', 'v0')
+   * Provider name (e.g., 'magic', 'v0', 'local', 'openai')
    */
   readonly name: string;
 
@@ -89,6 +206,59 @@ export interface UiProvider {
     sessionId?: string
   ): Promise<UiProviderResponse>;
 
+  /**
+   * Stream progress while creating a new UI component
+   *
+   * Optional - providers without native streaming get a synthetic stream
+   * (see ui-stream.ts). Must end with a 'result' event or throw.
+   */
+  streamCreateUi?(request: CreateUiRequest): AsyncIterable<UiStreamEvent>;
+
+  /**
+   * Stream progress while refining an existing UI component
+   *
+   * Optional - providers without native streaming get a synthetic stream.
+   * Must end with a 'result' event or throw.
+   */
+  streamRefineUi?(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): AsyncIterable<UiStreamEvent>;
+
+  /**
+   * List the versions of a session, newest first
+   *
+   * Optional - only providers with server-side version history implement it.
+   */
+  listVersions?(sessionId: string): Promise<UiVersionSummary[]>;
+
+  /**
+   * Get a specific version of a session including its files
+   */
+  getVersion?(sessionId: string, versionId: string): Promise<UiVersion>;
+
+  /**
+   * Restore an older version as the base for the next refinement
+   *
+   * The returned response's sessionId must be used for later refinements.
+   */
+  restoreVersion?(sessionId: string, versionId: string): Promise<UiProviderResponse>;
+
+  /**
+   * Fork a session into a new one that can be refined independently
+   *
+   * @param sessionId Session to fork
+   * @param versionId Version to fork from (defaults to the latest)
+   * @returns Response for the fork point, with the new sessionId
+   */
+  forkSession?(sessionId: string, versionId?: string): Promise<UiProviderResponse>;
+
+  /**
+   * Describe the features this provider supports
+   */
+  getCapabilities(): UiProviderCapabilities;
+
   /**
    * Check if provider is properly configured and ready to use
    *
@@ -108,31 +278,31 @@ export interface UiProvider {
 
 /**
  * Provider type discriminator
+ *
+ * Built-in types are 'magic', 'v0', 'local' and 'openai'; plugins register their own.
  */
-export type UiProviderType = 'magic' | 'v0';
+export type UiProviderType = string;
 
 /**
- * Provider factory configuration
+ * Provider definition used to register a provider type
+ *
+ * Built-in providers and plugin modules both export one of these. A plugin
+ * module exports it as its default export (or as named `type`,
+ * `optionsSchema` and `create` exports).
  */
-export interface ProviderFactoryConfig {
+export interface UiProviderDefinition<TOptions = any> {
   /**
-   * Active provider type
+   * Provider type used in UI_PROVIDER and the per-request `provider` field
    */
-  provider: UiProviderType;
+  type: UiProviderType;
 
   /**
-   * 21st.dev Magic UI configuration
+   * Schema validating the options object supplied in configuration
    */
-  magic?: {
-    apiKey: string;
-    baseUrl: string;
-    callbackServerPort: number;
-  };
+  optionsSchema?: ZodType<TOptions, ZodTypeDef, unknown>;
 
   /**
-   * v0.dev configuration
+   * Create a provider instance from validated options
    */
-  v0?: {
-    apiKey: string;
-  };
+  create(options: TOptions): UiProvider;
 }
@@ -0,0 +1,58 @@
+/**
+ * UI Provider Streaming
+ *
+ * Helpers that expose every provider as a stream of UiStreamEvents, using
+ * native streaming where the provider supports it and a synthetic
+ * status -> result stream otherwise.
+ */
+
+import type { CreateUiRequest, RefineUiRequest } from '../../types/index.js';
+import { UiProvider, UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+
+/**
+ * Wrap a blocking provider call as a stream
+ */
+async function* synthesizeStream(
+  provider: UiProvider,
+  run: () => Promise<UiProviderResponse>
+): AsyncGenerator<UiStreamEvent> {
+  yield { type: 'status', status: 'generating', provider: provider.name };
+
+  const response = await run();
+
+  yield {
+    type: 'status',
+    status: 'completed',
+    provider: response.provider,
+    sessionId: response.sessionId,
+  };
+  yield { type: 'result', response };
+}
+
+/**
+ * Stream component creation from a provider
+ */
+export function streamCreateUi(
+  provider: UiProvider,
+  request: CreateUiRequest
+): AsyncIterable<UiStreamEvent> {
+  if (provider.streamCreateUi) {
+    return provider.streamCreateUi(request);
+  }
+  return synthesizeStream(provider, () => provider.createUi(request));
+}
+
+/**
+ * Stream component refinement from a provider
+ */
+export function streamRefineUi(
+  provider: UiProvider,
+  request: RefineUiRequest,
+  fileContent: string,
+  sessionId?: string
+): AsyncIterable<UiStreamEvent> {
+  if (provider.streamRefineUi) {
+    return provider.streamRefineUi(request, fileContent, sessionId);
+  }
+  return synthesizeStream(provider, () => provider.refineUi(request, fileContent, sessionId));
+}
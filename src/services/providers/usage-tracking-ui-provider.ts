@@ -0,0 +1,147 @@
+/**
+ * Usage Tracking UI Provider
+ *
+ * Records each upstream call (including streamed generations) in the usage
+ * tracker with its latency, outcome and input/output sizes. Headless jobs are
+ * recorded when their component arrives, so they count like blocking calls.
+ */
+
+import { usageTracker, UsageOperation } from '../usage-tracker.js';
+import { magicJobs } from '../magic-jobs.js';
+import { AppError } from '../../utils/errors.js';
+import { UiProviderDecorator, SessionCall, StreamedCall } from './ui-provider-decorator.js';
+import { UiProviderResponse, UiStreamEvent } from './ui-provider.interface.js';
+import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
+
+/**
+ * Characters of text and file content in a response
+ */
+function outputSize(response: UiProviderResponse): number {
+  return response.text.length +
+    (response.files || []).reduce((total, file) => total + file.content.length, 0);
+}
+
+/**
+ * Usage Tracking UI Provider - wraps a provider with usage accounting
+ *
+ * Reads of existing versions are not generations and are not recorded.
+ */
+export class UsageTrackingUiProvider extends UiProviderDecorator {
+  override createUi(request: CreateUiRequest): Promise<UiProviderResponse> {
+    return this.track('create-ui', JSON.stringify(request).length, () => this.provider.createUi(request));
+  }
+
+  override fetchUi(request: FetchUiRequest): Promise<UiProviderResponse> {
+    return this.track('fetch-ui', JSON.stringify(request).length, () => this.provider.fetchUi(request));
+  }
+
+  override refineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): Promise<UiProviderResponse> {
+    return this.track('refine-ui', JSON.stringify(request).length + fileContent.length, () =>
+      this.provider.refineUi(request, fileContent, sessionId)
+    );
+  }
+
+  protected override decorateStream(stream: AsyncIterable<UiStreamEvent>, call: StreamedCall): AsyncIterable<UiStreamEvent> {
+    const inputSize = JSON.stringify(call.request).length + (call.operation === 'refine-ui' ? call.fileContent.length : 0);
+    return this.trackStream(call.operation, inputSize, stream);
+  }
+
+  protected override decorateSessionCall(
+    call: () => Promise<UiProviderResponse>,
+    sessionCall: SessionCall
+  ): Promise<UiProviderResponse> {
+    return this.track(sessionCall.operation, 0, call);
+  }
+
+  /**
+   * Record a single call
+   */
+  private async track(
+    operation: UsageOperation,
+    inputSize: number,
+    call: () => Promise<UiProviderResponse>
+  ): Promise<UiProviderResponse> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await call();
+      const deferred = magicJobs.afterCompletion(response, (result) => {
+        this.recordSuccess(operation, inputSize, startedAt, result);
+        return result;
+      });
+      if (!deferred) {
+        this.recordSuccess(operation, inputSize, startedAt, response);
+      }
+      return response;
+    } catch (error) {
+      this.recordFailure(operation, inputSize, startedAt, error instanceof AppError ? error.code : undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a streamed generation when its result or error event arrives
+   *
+   * Streams abandoned by the client before either event are not recorded.
+   */
+  private async *trackStream(
+    operation: UsageOperation,
+    inputSize: number,
+    stream: AsyncIterable<UiStreamEvent>
+  ): AsyncIterable<UiStreamEvent> {
+    const startedAt = Date.now();
+
+    try {
+      for await (const event of stream) {
+        if (event.type === 'result') {
+          this.recordSuccess(operation, inputSize, startedAt, event.response);
+        } else if (event.type === 'error') {
+          this.recordFailure(operation, inputSize, startedAt, event.code);
+        }
+        yield event;
+      }
+    } catch (error) {
+      this.recordFailure(operation, inputSize, startedAt, error instanceof AppError ? error.code : undefined);
+      throw error;
+    }
+  }
+
+  private recordSuccess(
+    operation: UsageOperation,
+    inputSize: number,
+    startedAt: number,
+    response: UiProviderResponse
+  ): void {
+    usageTracker.record({
+      provider: this.name,
+      operation,
+      durationMs: Date.now() - startedAt,
+      success: true,
+      inputSize,
+      outputSize: outputSize(response),
+      // Only native sessions are upstream chats; history-based sessions are local
+      chatId: this.getCapabilities().sessions ? response.sessionId : undefined,
+    });
+  }
+
+  private recordFailure(
+    operation: UsageOperation,
+    inputSize: number,
+    startedAt: number,
+    errorCode = 'INTERNAL_ERROR'
+  ): void {
+    usageTracker.record({
+      provider: this.name,
+      operation,
+      durationMs: Date.now() - startedAt,
+      success: false,
+      errorCode,
+      inputSize,
+      outputSize: 0,
+    });
+  }
+}
@@ -4,14 +4,27 @@
  * Implementation of UiProvider interface for v0.dev Platform API
  */
 
-import { createClient } from 'v0-sdk';
-import type { ChatDetail, ChatsCreateResponse, ChatsSendMessageResponse } from 'v0-sdk';
+import { createClient, parseStreamingResponse } from 'v0-sdk';
+import type { ChatDetail, VersionSummary } from 'v0-sdk';
+import { z } from 'zod';
 import { logger } from '../../utils/logger.js';
-import { ExternalServiceError } from '../../utils/errors.js';
-import { UiProvider, UiProviderResponse } from './ui-provider.interface.js';
+import { ExternalServiceError, NotFoundError } from '../../utils/errors.js';
+import { cassette } from '../../utils/cassette.js';
+import { parseCodeBlocks } from '../../utils/code-blocks.js';
+import { projectAnalyzer, ProjectProfile } from '../project-analyzer.js';
+import { dependencyResolver, DependencyReport } from '../dependency-resolver.js';
+import {
+  UiProvider,
+  UiProviderDefinition,
+  UiProviderCapabilities,
+  UiProviderResponse,
+  UiStreamEvent,
+  UiVersion,
+  UiVersionSummary,
+} from './ui-provider.interface.js';
 import type { CreateUiRequest, FetchUiRequest, RefineUiRequest } from '../../types/index.js';
 
-interface V0ProviderConfig {
+export interface V0ProviderConfig {
   apiKey: string;
 }
 
@@ -25,9 +38,9 @@ export class V0UiProvider implements UiProvider {
 
   constructor(config: V0ProviderConfig) {
     this.config = config;
-    this.client = createClient({
+    this.client = cassette.wrapClient('v0', createClient({
       apiKey: config.apiKey,
-    });
+    }));
   }
 
   /**
@@ -44,6 +57,21 @@ export class V0UiProvider implements UiProvider {
     }
   }
 
+  /**
+   * Describe provider capabilities
+   */
+  getCapabilities(): UiProviderCapabilities {
+    return {
+      sessions: true,
+      streaming: true,
+      previewUrls: true,
+      structuredFiles: true,
+      headless: true,
+      refinements: 'edit',
+      supportedFrameworks: ['react', 'nextjs'],
+    };
+  }
+
   /**
    * Get provider status
    */
@@ -78,7 +106,7 @@ export class V0UiProvider implements UiProvider {
   /**
    * Format chat response for MCP tool compatibility
    */
-  private formatChatResponse(chat: ChatDetail, message: string): string {
+  private formatChatResponse(chat: ChatDetail, message: string, dependencies: DependencyReport): string {
     const hasFiles = chat.latestVersion?.files && Array.isArray(chat.latestVersion.files);
     const webUrl = chat.webUrl || `https://v0.dev/chat/${chat.id}`;
 
@@ -96,16 +124,35 @@ export class V0UiProvider implements UiProvider {
       });
     }
 
-    response += `\n## shadcn/ui Instructions\n\n`;
-    response += `The component above uses shadcn/ui components. If you encounter missing imports, install them using:\n\n`;
-    response += `\`\`\`bash\n`;
-    response += `npx shadcn@latest add [component-name]\n`;
-    response += `\`\`\`\n\n`;
-    response += `You can also view and test the component at: ${webUrl}\n`;
+    response += `\n## Dependencies\n\n`;
+    response += this.formatInstructions(chat, dependencies);
 
     return response;
   }
 
+  /**
+   * Format integration instructions for a chat's generated files
+   */
+  private formatInstructions(chat: ChatDetail, dependencies: DependencyReport): string {
+    const webUrl = chat.webUrl || `https://v0.dev/chat/${chat.id}`;
+
+    let instructions = `${dependencyResolver.format(dependencies)}\n\n`;
+    instructions += `You can also view and test the component at: ${webUrl}\n`;
+
+    return instructions;
+  }
+
+  /**
+   * Files of a chat's latest version
+   */
+  private filesOf(chat: ChatDetail): NonNullable<UiProviderResponse['files']> {
+    return chat.latestVersion?.files?.map((file: any) => ({
+      name: file.name || file.path || 'component.tsx',
+      content: file.content || '',
+      path: file.path,
+    })) || [];
+  }
+
   /**
    * Extract file extension from filename
    */
@@ -127,9 +174,11 @@ export class V0UiProvider implements UiProvider {
     });
 
     try {
-      // Create a new chat with the component request
+      // Create a new chat with the component request, describing the project as system context
+      const profile = await projectAnalyzer.profileFor(request);
       const response = await this.client.chats.create({
         message: request.standaloneRequestQuery || request.message,
+        system: profile && projectAnalyzer.describe(profile),
       });
 
       // The response could be streaming or direct - handle both
@@ -140,17 +189,17 @@ export class V0UiProvider implements UiProvider {
         hasFiles: !!chat.latestVersion?.files,
       });
 
-      const responseText = this.formatChatResponse(chat, request.message);
+      const files = this.filesOf(chat);
+      const dependencies = dependencyResolver.resolve(files, profile);
+      const responseText = this.formatChatResponse(chat, request.message, dependencies);
       const webUrl = chat.webUrl || `https://v0.dev/chat/${chat.id}`;
 
       return {
         text: responseText,
         previewUrl: webUrl,
-        files: chat.latestVersion?.files?.map((file: any) => ({
-          name: file.name || file.path || 'component.tsx',
-          content: file.content || '',
-          path: file.path,
-        })) || [],
+        files,
+        instructions: this.formatInstructions(chat, dependencies),
+        dependencies,
         sessionId: chat.id,
         provider: this.name,
         metadata: {
@@ -204,17 +253,17 @@ export class V0UiProvider implements UiProvider {
         chatId: chat.id,
       });
 
-      const responseText = this.formatChatResponse(chat, request.message);
+      const files = this.filesOf(chat);
+      const dependencies = dependencyResolver.resolve(files);
+      const responseText = this.formatChatResponse(chat, request.message, dependencies);
       const webUrl = chat.webUrl || `https://v0.dev/chat/${chat.id}`;
 
       return {
         text: responseText,
         previewUrl: webUrl,
-        files: chat.latestVersion?.files?.map((file: any) => ({
-          name: file.name || file.path || 'component.tsx',
-          content: file.content || '',
-          path: file.path,
-        })) || [],
+        files,
+        instructions: this.formatInstructions(chat, dependencies),
+        dependencies,
         sessionId: chat.id,
         provider: this.name,
         metadata: {
@@ -262,6 +311,7 @@ export class V0UiProvider implements UiProvider {
     });
 
     try {
+      const profile = await projectAnalyzer.profileFor(request);
       let response: any;
       let chat: ChatDetail;
 
@@ -280,6 +330,7 @@ export class V0UiProvider implements UiProvider {
         logger.debug('v0: Creating new chat for refinement');
         response = await this.client.chats.create({
           message: `Refine this component:\n\n\`\`\`tsx\n${fileContent}\n\`\`\`\n\n${request.userMessage}\n\nContext: ${request.context}`,
+          system: profile && projectAnalyzer.describe(profile),
         });
 
         // Extract chat from response
@@ -291,17 +342,17 @@ export class V0UiProvider implements UiProvider {
         hasFiles: !!chat.latestVersion?.files,
       });
 
-      const responseText = this.formatChatResponse(chat, request.userMessage);
+      const files = this.filesOf(chat);
+      const dependencies = dependencyResolver.resolve(files, profile);
+      const responseText = this.formatChatResponse(chat, request.userMessage, dependencies);
       const webUrl = chat.webUrl || `https://v0.dev/chat/${chat.id}`;
 
       return {
         text: responseText,
         previewUrl: webUrl,
-        files: chat.latestVersion?.files?.map((file: any) => ({
-          name: file.name || file.path || 'component.tsx',
-          content: file.content || '',
-          path: file.path,
-        })) || [],
+        files,
+        instructions: this.formatInstructions(chat, dependencies),
+        dependencies,
         sessionId: chat.id,
         provider: this.name,
         metadata: {
@@ -334,4 +385,354 @@ export class V0UiProvider implements UiProvider {
       );
     }
   }
+
+  /**
+   * Extract a text delta from a streamed v0 event payload
+   */
+  private extractStreamDelta(payload: unknown): string | undefined {
+    if (typeof payload === 'string') {
+      return payload;
+    }
+    if (payload && typeof payload === 'object') {
+      const event = payload as Record<string, any>;
+      if (typeof event.delta === 'string') return event.delta;
+      if (typeof event.content === 'string' && event.object !== 'chat') return event.content;
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract a chat id from a streamed v0 event payload
+   */
+  private extractStreamChatId(payload: unknown): string | undefined {
+    if (!payload || typeof payload !== 'object') {
+      return undefined;
+    }
+    const event = payload as Record<string, any>;
+    if (event.object === 'chat' && typeof event.id === 'string') return event.id;
+    if (typeof event.chatId === 'string') return event.chatId;
+    if (typeof event.chat?.id === 'string') return event.chat.id;
+    return undefined;
+  }
+
+  /**
+   * Consume a v0 event stream, emitting deltas and completed files, then
+   * load the final chat to build the provider response
+   *
+   * @param profile Project the generated code's dependencies are checked against
+   */
+  private async *consumeChatStream(
+    stream: ReadableStream<Uint8Array>,
+    message: string,
+    metadata: Record<string, any>,
+    knownChatId?: string,
+    profile?: ProjectProfile
+  ): AsyncGenerator<UiStreamEvent> {
+    let chatId = knownChatId;
+    let text = '';
+    let emittedFiles = 0;
+
+    for await (const event of parseStreamingResponse(stream)) {
+      if (!event.data) continue;
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(event.data);
+      } catch {
+        payload = event.data;
+      }
+
+      const streamedChatId = this.extractStreamChatId(payload);
+      if (streamedChatId && !chatId) {
+        chatId = streamedChatId;
+        yield { type: 'status', status: 'chat-created', provider: this.name, sessionId: chatId };
+      }
+
+      const delta = this.extractStreamDelta(payload);
+      if (delta) {
+        text += delta;
+        yield { type: 'delta', content: delta };
+
+        // Emit each code block once its closing fence has streamed in
+        const blocks = parseCodeBlocks(text);
+        for (const block of blocks.slice(emittedFiles)) {
+          yield {
+            type: 'file',
+            name: block.fileName?.split('/').pop() || `component-${emittedFiles + 1}.tsx`,
+            content: block.content,
+            path: block.fileName,
+          };
+          emittedFiles++;
+        }
+      }
+    }
+
+    if (!chatId) {
+      throw new ExternalServiceError('v0.dev stream ended without a chat id', 'v0.dev');
+    }
+
+    const chat = await this.client.chats.getById({ chatId });
+
+    logger.info('v0: Streamed generation completed', {
+      chatId: chat.id,
+      hasFiles: !!chat.latestVersion?.files,
+    });
+
+    const files = this.filesOf(chat);
+    const dependencies = dependencyResolver.resolve(files, profile);
+
+    yield { type: 'status', status: 'completed', provider: this.name, sessionId: chat.id };
+    yield {
+      type: 'result',
+      response: {
+        text: this.formatChatResponse(chat, message, dependencies),
+        previewUrl: chat.webUrl || `https://v0.dev/chat/${chat.id}`,
+        files,
+        instructions: this.formatInstructions(chat, dependencies),
+        dependencies,
+        sessionId: chat.id,
+        provider: this.name,
+        metadata: {
+          source: 'v0.dev',
+          method: 'stream',
+          versionId: chat.latestVersion?.id,
+          ...metadata,
+        },
+      },
+    };
+  }
+
+  /**
+   * Convert SDK errors into ExternalServiceError
+   */
+  private toServiceError(error: unknown, message: string): ExternalServiceError {
+    if (error instanceof ExternalServiceError) {
+      return error;
+    }
+    if (error && typeof error === 'object' && 'status' in error) {
+      const apiError = error as any;
+      return new ExternalServiceError(
+        `v0.dev API error: ${apiError.message || 'Unknown error'}`,
+        'v0.dev',
+        {
+          status: apiError.status,
+          code: apiError.code,
+        }
+      );
+    }
+    return new ExternalServiceError(message, 'v0.dev', {
+      originalError: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  /**
+   * Stream creation of a new UI component using v0.dev streaming responses
+   */
+  async *streamCreateUi(request: CreateUiRequest): AsyncGenerator<UiStreamEvent> {
+    logger.info('v0: Streaming component creation', {
+      searchQuery: request.searchQuery,
+      file: request.absolutePathToCurrentFile,
+    });
+
+    yield { type: 'status', status: 'generating', provider: this.name };
+
+    try {
+      const profile = await projectAnalyzer.profileFor(request);
+      const stream = await this.client.chats.create({
+        message: request.standaloneRequestQuery || request.message,
+        system: profile && projectAnalyzer.describe(profile),
+        responseMode: 'experimental_stream',
+      });
+
+      yield* this.consumeChatStream(stream as ReadableStream<Uint8Array>, request.message, {}, undefined, profile);
+    } catch (error) {
+      logger.error('v0: Failed to stream component creation', error);
+      throw this.toServiceError(error, 'Failed to create UI component with v0.dev');
+    }
+  }
+
+  /**
+   * Stream refinement of an existing UI component using v0.dev streaming responses
+   */
+  async *streamRefineUi(
+    request: RefineUiRequest,
+    fileContent: string,
+    sessionId?: string
+  ): AsyncGenerator<UiStreamEvent> {
+    logger.info('v0: Streaming component refinement', {
+      file: request.absolutePathToRefiningFile,
+      hasSessionId: !!sessionId,
+    });
+
+    yield { type: 'status', status: 'generating', provider: this.name, sessionId };
+
+    try {
+      const profile = await projectAnalyzer.profileFor(request);
+      const stream = sessionId
+        ? await this.client.chats.sendMessage({
+            chatId: sessionId,
+            message: `${request.userMessage}\n\nCurrent file content:\n\`\`\`tsx\n${fileContent}\n\`\`\`\n\nContext: ${request.context}`,
+            responseMode: 'experimental_stream',
+          })
+        : await this.client.chats.create({
+            message: `Refine this component:\n\n\`\`\`tsx\n${fileContent}\n\`\`\`\n\n${request.userMessage}\n\nContext: ${request.context}`,
+            system: profile && projectAnalyzer.describe(profile),
+            responseMode: 'experimental_stream',
+          });
+
+      yield* this.consumeChatStream(
+        stream as ReadableStream<Uint8Array>,
+        request.userMessage,
+        { type: 'refinement', continuedChat: !!sessionId },
+        sessionId,
+        profile
+      );
+    } catch (error) {
+      logger.error('v0: Failed to stream component refinement', error);
+      throw this.toServiceError(error, 'Failed to refine UI component with v0.dev');
+    }
+  }
+
+  /**
+   * Convert SDK errors for session lookups, mapping unknown chats/versions to 404
+   */
+  private toSessionError(error: unknown, message: string): Error {
+    if (error && typeof error === 'object' && (error as any).status === 404) {
+      return new NotFoundError(`${message}: not found on v0.dev`);
+    }
+    return this.toServiceError(error, message);
+  }
+
+  /**
+   * Map a v0 version to the provider-neutral summary
+   */
+  private toVersionSummary(chatId: string, version: VersionSummary): UiVersionSummary {
+    return {
+      id: version.id,
+      status: version.status,
+      createdAt: version.createdAt,
+      updatedAt: version.updatedAt,
+      previewUrl: version.demoUrl || `https://v0.dev/chat/${chatId}`,
+    };
+  }
+
+  /**
+   * List all versions of a chat, newest first
+   */
+  async listVersions(sessionId: string): Promise<UiVersionSummary[]> {
+    logger.info('v0: Listing chat versions', { sessionId });
+
+    try {
+      const versions: UiVersionSummary[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await this.client.chats.findVersions({ chatId: sessionId, cursor });
+        versions.push(...page.data.map((version) => this.toVersionSummary(sessionId, version)));
+        cursor = page.pagination.hasMore ? page.pagination.nextCursor : undefined;
+      } while (cursor);
+
+      return versions;
+    } catch (error) {
+      logger.error('v0: Failed to list chat versions', error, { sessionId });
+      throw this.toSessionError(error, `Failed to list versions of chat ${sessionId}`);
+    }
+  }
+
+  /**
+   * Get a specific version of a chat including its files
+   */
+  async getVersion(sessionId: string, versionId: string): Promise<UiVersion> {
+    logger.info('v0: Fetching chat version', { sessionId, versionId });
+
+    try {
+      const version = await this.client.chats.getVersion({ chatId: sessionId, versionId });
+
+      return {
+        ...this.toVersionSummary(sessionId, version),
+        files: version.files.map((file) => ({
+          name: file.name,
+          content: file.content,
+        })),
+      };
+    } catch (error) {
+      logger.error('v0: Failed to fetch chat version', error, { sessionId, versionId });
+      throw this.toSessionError(error, `Failed to fetch version ${versionId} of chat ${sessionId}`);
+    }
+  }
+
+  /**
+   * Fork a chat, optionally at an earlier version
+   *
+   * The original chat is left untouched; the forked chat can be refined
+   * independently using its id as sessionId.
+   */
+  async forkSession(sessionId: string, versionId?: string): Promise<UiProviderResponse> {
+    logger.info('v0: Forking chat', { sessionId, versionId });
+
+    try {
+      const chat = await this.client.chats.fork({ chatId: sessionId, versionId });
+
+      logger.info('v0: Chat forked', {
+        sessionId,
+        versionId,
+        forkedChatId: chat.id,
+      });
+
+      const files = this.filesOf(chat);
+      const dependencies = dependencyResolver.resolve(files);
+
+      return {
+        text: this.formatChatResponse(chat, `Forked chat ${sessionId}`, dependencies),
+        previewUrl: chat.webUrl || `https://v0.dev/chat/${chat.id}`,
+        files,
+        instructions: this.formatInstructions(chat, dependencies),
+        dependencies,
+        sessionId: chat.id,
+        provider: this.name,
+        metadata: {
+          source: 'v0.dev',
+          method: 'api',
+          type: 'fork',
+          forkedFrom: { sessionId, versionId: versionId || null },
+          versionId: chat.latestVersion?.id,
+        },
+      };
+    } catch (error) {
+      logger.error('v0: Failed to fork chat', error, { sessionId, versionId });
+      throw this.toSessionError(error, `Failed to fork chat ${sessionId}`);
+    }
+  }
+
+  /**
+   * Restore an older version by forking the chat at that version
+   *
+   * Forking leaves the original chat (and its later versions) untouched; the
+   * forked chat's id is returned as the session to continue refining.
+   */
+  async restoreVersion(sessionId: string, versionId: string): Promise<UiProviderResponse> {
+    logger.info('v0: Restoring chat version', { sessionId, versionId });
+
+    const response = await this.forkSession(sessionId, versionId);
+
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        type: 'restore',
+        restoredFrom: { sessionId, versionId },
+      },
+    };
+  }
 }
+
+/**
+ * v0.dev provider definition for the provider registry
+ */
+export const v0ProviderDefinition: UiProviderDefinition<V0ProviderConfig> = {
+  type: 'v0',
+  optionsSchema: z.object({
+    apiKey: z.string().min(1),
+  }),
+  create: (options) => new V0UiProvider(options),
+};
@@ -0,0 +1,105 @@
+/**
+ * Storage for rate limit buckets and quota counters
+ *
+ * Stores only need an atomic read-modify-write per key. The in-memory store
+ * is the default; the file store persists counters for single-node
+ * deployments so quotas survive restarts. Other backends implement
+ * RateLimitStore and are passed to the RateLimiter.
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { StateFile } from '../utils/state-file.js';
+
+export interface RateLimitStore {
+  /**
+   * Atomically replace the value stored under a key
+   *
+   * @param fn Computes the new value from the current one (undefined if missing or expired)
+   * @param ttl Milliseconds after which the entry may be discarded
+   * @returns The new value
+   */
+  update<T>(key: string, fn: (current: T | undefined) => T, ttl: number): Promise<T>;
+}
+
+interface StoredValue {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Expired entries are swept every this many updates
+const SWEEP_INTERVAL = 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  protected entries = new Map<string, StoredValue>();
+  private updates = 0;
+
+  async update<T>(key: string, fn: (current: T | undefined) => T, ttl: number): Promise<T> {
+    const now = Date.now();
+    const stored = this.entries.get(key);
+    const current = stored && stored.expiresAt > now ? (stored.value as T) : undefined;
+
+    const value = fn(current);
+    this.entries.set(key, { value, expiresAt: now + ttl });
+
+    if (++this.updates % SWEEP_INTERVAL === 0) {
+      this.sweep(now);
+    }
+    this.changed();
+
+    return value;
+  }
+
+  /**
+   * Called after every update
+   */
+  protected changed(): void {}
+
+  private sweep(now: number): void {
+    for (const [key, stored] of this.entries) {
+      if (stored.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+export class FileRateLimitStore extends MemoryRateLimitStore {
+  private stateFile: StateFile;
+
+  constructor(file: string) {
+    super();
+    this.stateFile = new StateFile(file, 'rate limit store', () => JSON.stringify(Object.fromEntries(this.entries)));
+    this.load(file);
+  }
+
+  /**
+   * Persist entries after a change
+   */
+  protected override changed(): void {
+    this.stateFile.save();
+  }
+
+  private load(file: string): void {
+    const entries = this.stateFile.load((contents) => JSON.parse(contents) as Record<string, StoredValue>);
+    if (!entries) return;
+
+    const now = Date.now();
+    for (const [key, stored] of Object.entries(entries)) {
+      if (stored.expiresAt > now) {
+        this.entries.set(key, stored);
+      }
+    }
+    logger.info('Rate limit store loaded', { path: file, entries: this.entries.size });
+  }
+}
+
+/**
+ * Create the store selected by RATE_LIMIT_STORE
+ */
+export function createRateLimitStore(): RateLimitStore {
+  if (config.rateLimit.store === 'file' && config.rateLimit.storePath) {
+    return new FileRateLimitStore(config.rateLimit.storePath);
+  }
+  return new MemoryRateLimitStore();
+}
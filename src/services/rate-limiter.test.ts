@@ -0,0 +1,70 @@
+import { RateLimiter } from './rate-limiter.js';
+import { MemoryRateLimitStore } from './rate-limit-store.js';
+import { config } from '../utils/config.js';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter(new MemoryRateLimitStore());
+    config.rateLimit.rules = [
+      { route: '/api/create-ui', limit: 2, windowMs: 60000 },
+      { route: '*', limit: 100, windowMs: 60000 },
+    ];
+    config.rateLimit.quota = { daily: 3, monthly: 0 };
+  });
+
+  it('applies the longest matching route rule', () => {
+    expect(limiter.ruleFor('/api/create-ui/stream')?.route).toBe('/api/create-ui');
+    expect(limiter.ruleFor('/api/create-uix')?.route).toBe('*');
+  });
+
+  it('rejects requests once the bucket is empty', async () => {
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await limiter.consume('api-key:a', '/api/create-ui'));
+    }
+
+    expect(results.map((result) => result?.allowed)).toEqual([true, true, false]);
+    expect(results[2]).toEqual(expect.objectContaining({ remaining: 0, retryAfter: 30, policy: '2;w=60' }));
+    expect((await limiter.consume('api-key:b', '/api/create-ui'))?.allowed).toBe(true);
+  });
+
+  it('does not exceed a quota with concurrent reservations', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => limiter.reserveGenerations('api-key:a', 1))
+    );
+
+    expect(results.filter((result) => !result.exhausted)).toHaveLength(3);
+    expect(results.filter((result) => result.exhausted?.scope === 'quota:daily')).toHaveLength(2);
+  });
+
+  it('reserves several generations at once only if they all fit', async () => {
+    expect((await limiter.reserveGenerations('api-key:a', 2)).exhausted).toBeUndefined();
+
+    const { reservation, exhausted } = await limiter.reserveGenerations('api-key:a', 2);
+
+    expect(exhausted).toEqual(expect.objectContaining({ allowed: false, limit: 3, remaining: 0 }));
+    expect(reservation.periods).toEqual([]);
+    expect((await limiter.reserveGenerations('api-key:a', 1)).exhausted).toBeUndefined();
+  });
+
+  it('gives refunded generations back', async () => {
+    const { reservation } = await limiter.reserveGenerations('api-key:a', 3);
+    await limiter.refundGenerations(reservation);
+    await limiter.refundGenerations(reservation);
+
+    expect((await limiter.reserveGenerations('api-key:a', 3)).exhausted).toBeUndefined();
+    expect((await limiter.reserveGenerations('api-key:a', 1)).exhausted).toBeDefined();
+  });
+
+  it('refunds the daily quota when the monthly quota is exhausted', async () => {
+    config.rateLimit.quota = { daily: 3, monthly: 1 };
+
+    expect((await limiter.reserveGenerations('api-key:a', 1)).exhausted).toBeUndefined();
+    expect((await limiter.reserveGenerations('api-key:a', 1)).exhausted?.scope).toBe('quota:monthly');
+
+    config.rateLimit.quota = { daily: 2, monthly: 0 };
+    expect((await limiter.reserveGenerations('api-key:a', 1)).exhausted).toBeUndefined();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Per-principal rate limiting and generation quotas
+ *
+ * Each principal gets a token bucket per configured route prefix, refilled
+ * evenly over the rule's window, and daily/monthly counters for generation
+ * requests (calendar periods in UTC).
+ */
+
+import { config } from '../utils/config.js';
+import { createRateLimitStore, RateLimitStore } from './rate-limit-store.js';
+import type { RateLimitRule } from '../types/index.js';
+
+/**
+ * Outcome of a rate limit or quota check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // Seconds until the limit is fully available again
+  retryAfter?: number; // Seconds until the next request may be admitted (when not allowed)
+  policy: string; // RateLimit-Policy value, e.g. '10;w=60'
+  scope: string; // Route prefix of the rule, or 'quota:daily' / 'quota:monthly'
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QuotaCounter {
+  period: string;
+  count: number;
+}
+
+type QuotaPeriod = 'daily' | 'monthly';
+
+/**
+ * Generations counted against a principal's quotas by one request
+ */
+export interface QuotaReservation {
+  principal: string;
+  count: number;
+  periods: Array<{ period: QuotaPeriod; label: string }>; // Quotas the generations were counted in
+}
+
+/**
+ * Current period label and the time it ends, in UTC
+ */
+function currentPeriod(period: QuotaPeriod, now: Date): { label: string; endsAt: number } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (period === 'daily') {
+    return {
+      label: now.toISOString().slice(0, 10),
+      endsAt: Date.UTC(year, month, now.getUTCDate() + 1),
+    };
+  }
+  return {
+    label: now.toISOString().slice(0, 7),
+    endsAt: Date.UTC(year, month + 1, 1),
+  };
+}
+
+export class RateLimiter {
+  private store: RateLimitStore;
+
+  constructor(store: RateLimitStore = createRateLimitStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Find the rule for a path: the longest matching route prefix, else '*'
+   */
+  ruleFor(path: string): RateLimitRule | undefined {
+    const matches = config.rateLimit.rules
+      .filter((rule) => rule.route !== '*' && (path === rule.route || path.startsWith(`${rule.route}/`)))
+      .sort((a, b) => b.route.length - a.route.length);
+
+    return matches[0] || config.rateLimit.rules.find((rule) => rule.route === '*');
+  }
+
+  /**
+   * Take a token from the principal's bucket for the path
+   *
+   * @returns undefined if no rule applies to the path
+   */
+  async consume(principal: string, path: string): Promise<RateLimitResult | undefined> {
+    const rule = this.ruleFor(path);
+    if (!rule) {
+      return undefined;
+    }
+
+    const rate = rule.limit / rule.windowMs; // tokens per millisecond
+    let allowed = false;
+
+    const bucket = await this.store.update<Bucket>(
+      `bucket:${rule.route}:${principal}`,
+      (current) => {
+        const now = Date.now();
+        const tokens = current
+          ? Math.min(rule.limit, current.tokens + (now - current.updatedAt) * rate)
+          : rule.limit;
+
+        allowed = tokens >= 1;
+        return { tokens: allowed ? tokens - 1 : tokens, updatedAt: now };
+      },
+      rule.windowMs
+    );
+
+    return {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(bucket.tokens),
+      reset: Math.ceil((rule.limit - bucket.tokens) / rate / 1000),
+      retryAfter: allowed ? undefined : Math.ceil((1 - bucket.tokens) / rate / 1000),
+      policy: `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`,
+      scope: rule.route,
+    };
+  }
+
+  /**
+   * Count generations against the principal's quotas, if every quota has room
+   *
+   * Each quota is checked and counted in a single store update, so concurrent
+   * requests cannot exceed it. When a quota has no room, nothing is counted.
+   *
+   * @returns The reservation to refund if the generations fail, or the first exhausted quota
+   */
+  async reserveGenerations(
+    principal: string,
+    count: number
+  ): Promise<{ reservation: QuotaReservation; exhausted?: RateLimitResult }> {
+    const reservation: QuotaReservation = { principal, count, periods: [] };
+
+    for (const period of ['daily', 'monthly'] as const) {
+      const limit = config.rateLimit.quota[period];
+      if (!limit) continue;
+
+      const { label, endsAt } = currentPeriod(period, new Date());
+      let reserved = false;
+
+      await this.store.update<QuotaCounter>(
+        `quota:${period}:${principal}`,
+        (current) => {
+          const used = current?.period === label ? current.count : 0;
+          reserved = used + count <= limit;
+          return { period: label, count: reserved ? used + count : used };
+        },
+        endsAt - Date.now()
+      );
+
+      if (!reserved) {
+        await this.refundGenerations(reservation);
+
+        const retryAfter = Math.ceil((endsAt - Date.now()) / 1000);
+        return {
+          reservation: { principal, count, periods: [] },
+          exhausted: {
+            allowed: false,
+            limit,
+            remaining: 0,
+            reset: retryAfter,
+            retryAfter,
+            policy: `${limit};w=${period === 'daily' ? 86400 : 2592000}`,
+            scope: `quota:${period}`,
+          },
+        };
+      }
+
+      reservation.periods.push({ period, label });
+    }
+
+    return { reservation };
+  }
+
+  /**
+   * Give reserved generations back, e.g. when the request failed
+   *
+   * Generations reserved in a period that has since ended are not refunded.
+   */
+  async refundGenerations(reservation: QuotaReservation): Promise<void> {
+    for (const { period, label } of reservation.periods) {
+      const { endsAt } = currentPeriod(period, new Date());
+      await this.store.update<QuotaCounter | undefined>(
+        `quota:${period}:${reservation.principal}`,
+        (current) => (current?.period === label
+          ? { period: label, count: Math.max(0, current.count - reservation.count) }
+          : current),
+        endsAt - Date.now()
+      );
+    }
+    reservation.periods = [];
+  }
+}
+
+// Export singleton instance
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,34 @@
+import { createRefinementDiff, findRefinedFile } from './refinement-diff.js';
+
+const filePath = '/project/src/components/pricing.tsx';
+
+describe('refinement diff', () => {
+  it('finds the generated file named like the refined file', () => {
+    const files = [
+      { name: 'badge.tsx', content: 'badge' },
+      { name: 'pricing.tsx', path: 'components/pricing.tsx', content: 'pricing' },
+    ];
+
+    expect(findRefinedFile(files, filePath)?.content).toBe('pricing');
+  });
+
+  it('takes a single differently named file only from providers that return edits', () => {
+    const files = [{ name: 'component.tsx', content: 'refined' }];
+
+    expect(findRefinedFile(files, filePath, 'edit')?.content).toBe('refined');
+    expect(findRefinedFile(files, filePath)).toBeUndefined();
+  });
+
+  it('never takes reference files as the refined file', () => {
+    expect(findRefinedFile([{ name: 'pricing.tsx', content: 'template' }], filePath, 'reference')).toBeUndefined();
+    expect(createRefinementDiff(filePath, 'original\n', [{ name: 'pricing.tsx', content: 'template\n' }], 'reference'))
+      .toBeUndefined();
+  });
+
+  it('diffs the refined file against the original content', () => {
+    const diff = createRefinementDiff(filePath, 'a\nb\n', [{ name: 'pricing.tsx', content: 'a\nc\n' }], 'edit');
+
+    expect(diff).toEqual(expect.objectContaining({ file: filePath, source: 'pricing.tsx', additions: 1, deletions: 1 }));
+    expect(diff?.diff).toBe('--- a/pricing.tsx\n+++ b/pricing.tsx\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n');
+  });
+});
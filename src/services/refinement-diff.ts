@@ -0,0 +1,85 @@
+/**
+ * Refinement diffs
+ *
+ * Reduces a refinement to a unified diff of the refined file against the
+ * content it was refined from, so reviews and agents can apply minimal
+ * patches instead of whole components.
+ */
+
+import path from 'path';
+import { diffHunks, formatUnifiedDiff, DiffHunk } from '../utils/diff.js';
+import type { UiProviderCapabilities, UiProviderResponse } from './providers/ui-provider.interface.js';
+
+type GeneratedFile = NonNullable<UiProviderResponse['files']>[number];
+
+export interface RefinementDiff {
+  file: string; // Absolute path of the refined file
+  source: string; // Name of the generated file it was compared with
+  diff: string; // Unified diff, empty when the refinement changed nothing
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Generated file holding the refined version of a file: the one with the
+ * same name, or the only file of the response when the provider's
+ * refinements are edits. Reference files are never the refined file.
+ */
+export function findRefinedFile(
+  files: GeneratedFile[],
+  filePath: string,
+  refinements?: UiProviderCapabilities['refinements']
+): GeneratedFile | undefined {
+  if (refinements === 'reference') {
+    return undefined;
+  }
+
+  const fileName = path.basename(filePath);
+
+  return files.find((file) => path.basename(file.path || file.name) === fileName)
+    || (files.length === 1 && refinements === 'edit' ? files[0] : undefined);
+}
+
+/**
+ * Diff the refined file of a response against the original content
+ *
+ * @param refinements What the provider's refinements return (see findRefinedFile)
+ * @returns Undefined when the response has no file for the refined path
+ */
+export function createRefinementDiff(
+  filePath: string,
+  fileContent: string,
+  files: GeneratedFile[],
+  refinements?: UiProviderCapabilities['refinements']
+): RefinementDiff | undefined {
+  const refined = findRefinedFile(files, filePath, refinements);
+  if (!refined) {
+    return undefined;
+  }
+
+  const name = path.basename(filePath);
+  const hunks = diffHunks(fileContent, refined.content);
+
+  return {
+    file: filePath,
+    source: refined.path || refined.name,
+    diff: formatUnifiedDiff(`a/${name}`, `b/${name}`, hunks),
+    additions: hunks.reduce((sum, hunk) => sum + hunk.additions, 0),
+    deletions: hunks.reduce((sum, hunk) => sum + hunk.deletions, 0),
+    hunks,
+  };
+}
+
+/**
+ * Format a refinement diff as Markdown for MCP tools
+ */
+export function formatRefinementDiff(diff: RefinementDiff): string {
+  const name = path.basename(diff.file);
+
+  if (!diff.diff) {
+    return `### ${name}\n\nThe refinement made no changes to this file.`;
+  }
+
+  return `### Changes to ${name} (+${diff.additions} -${diff.deletions}, ${diff.hunks.length} hunk${diff.hunks.length === 1 ? '' : 's'})\n\n\`\`\`diff\n${diff.diff}\`\`\``;
+}
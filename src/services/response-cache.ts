@@ -0,0 +1,342 @@
+/**
+ * Response cache for repeatable upstream calls
+ *
+ * In-memory LRU of fetch-ui, refine-ui and logo search results, keyed by a
+ * hash of the principal, provider and normalized request, with optional
+ * persistence to a JSON file so the cache survives restarts.
+ * Principals never see each other's cached responses.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { currentPrincipal } from '../utils/principal.js';
+import { StateFile } from '../utils/state-file.js';
+
+export type CacheOperation = 'fetch-ui' | 'refine-ui' | 'logo-search';
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+interface CacheEntry {
+  key: string;
+  principal: string;
+  operation: CacheOperation;
+  provider: string;
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+/**
+ * Public view of a cache entry (without its value)
+ */
+export interface CacheEntrySummary {
+  key: string;
+  principal: string;
+  operation: CacheOperation;
+  provider: string;
+  size: number;
+  hits: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Per-request cache scope: whether to bypass cached values, and the outcome
+ */
+interface CacheScope {
+  bypass: boolean;
+  status?: CacheStatus;
+}
+
+const TTL_BY_OPERATION: Record<CacheOperation, keyof typeof config.cache.ttl> = {
+  'fetch-ui': 'fetchUi',
+  'refine-ui': 'refineUi',
+  'logo-search': 'logoSearch',
+};
+
+/**
+ * Serialize a value with sorted keys, trimmed strings and no undefined fields
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Whether a request's Cache-Control header asks to skip cached responses
+ */
+export function bypassesCache(cacheControl: string | undefined): boolean {
+  return /\bno-(cache|store)\b/i.test(cacheControl || '');
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private scope = new AsyncLocalStorage<CacheScope>();
+  private loaded = false;
+  private stateFile?: StateFile;
+  private stats = { hits: 0, misses: 0, evictions: 0 };
+
+  /**
+   * Run a request in a cache scope
+   *
+   * @param bypass Ignore cached values (fresh results are still stored), e.g. for `Cache-Control: no-cache`
+   * @returns The result and whether it was served from the cache (undefined if nothing was cacheable)
+   */
+  async run<T>(bypass: boolean, fn: () => Promise<T>): Promise<{ result: T; status?: CacheStatus }> {
+    const scope: CacheScope = { bypass };
+    const result = await this.scope.run(scope, fn);
+    return { result, status: scope.status };
+  }
+
+  /**
+   * Return a cached value for the request, or compute and store it
+   *
+   * Errors are not cached.
+   *
+   * @param options.shouldCache Decide whether a computed value may be stored
+   */
+  async wrap<T>(
+    operation: CacheOperation,
+    provider: string,
+    request: unknown,
+    fn: () => Promise<T>,
+    options: { shouldCache?: (value: T) => boolean } = {}
+  ): Promise<T> {
+    const ttl = config.cache.ttl[TTL_BY_OPERATION[operation]];
+    if (!config.cache.enabled || ttl <= 0) {
+      return fn();
+    }
+
+    const scope = this.scope.getStore();
+    const principal = currentPrincipal();
+    const key = this.key(principal, operation, provider, request);
+
+    if (!scope?.bypass) {
+      const entry = this.get(key);
+      if (entry) {
+        entry.hits++;
+        this.stats.hits++;
+        if (scope) scope.status = 'HIT';
+        logger.debug('Response cache hit', { operation, provider, key });
+        return entry.value as T;
+      }
+    }
+
+    const value = await fn();
+
+    this.stats.misses++;
+    if (scope) scope.status = 'MISS';
+
+    if (options.shouldCache && !options.shouldCache(value)) {
+      return value;
+    }
+
+    this.set({
+      key,
+      principal,
+      operation,
+      provider,
+      value,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + ttl,
+      hits: 0,
+    });
+
+    return value;
+  }
+
+  /**
+   * List live entries, most recently used last
+   */
+  list(operation?: CacheOperation): CacheEntrySummary[] {
+    this.load();
+    this.prune();
+
+    return [...this.entries.values()]
+      .filter((entry) => !operation || entry.operation === operation)
+      .map((entry) => this.summarize(entry));
+  }
+
+  /**
+   * Get a live entry including its cached value
+   */
+  inspect(key: string): (CacheEntrySummary & { value: unknown }) | undefined {
+    const entry = this.get(key, false);
+    return entry && { ...this.summarize(entry), value: entry.value };
+  }
+
+  /**
+   * Cache statistics
+   */
+  getStats() {
+    this.load();
+    this.prune();
+
+    return {
+      enabled: config.cache.enabled,
+      persistent: !!config.cache.path,
+      entries: this.entries.size,
+      maxEntries: config.cache.maxEntries,
+      ttl: config.cache.ttl,
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Delete one entry
+   *
+   * @returns Whether the entry existed
+   */
+  delete(key: string): boolean {
+    this.load();
+    const deleted = this.entries.delete(key);
+    if (deleted) this.scheduleSave();
+    return deleted;
+  }
+
+  /**
+   * Delete all entries, or all entries of one operation
+   *
+   * @returns Number of deleted entries
+   */
+  purge(operation?: CacheOperation): number {
+    this.load();
+
+    let purged = 0;
+    for (const [key, entry] of this.entries) {
+      if (!operation || entry.operation === operation) {
+        this.entries.delete(key);
+        purged++;
+      }
+    }
+
+    logger.info('Response cache purged', { operation, purged });
+    this.scheduleSave();
+    return purged;
+  }
+
+  /**
+   * Hash of the principal, operation, provider and normalized request
+   */
+  private key(principal: string, operation: CacheOperation, provider: string, request: unknown): string {
+    return createHash('sha256')
+      .update(JSON.stringify(normalize({ principal, operation, provider, request })))
+      .digest('hex');
+  }
+
+  /**
+   * Get a live entry
+   *
+   * @param touch Mark the entry as most recently used
+   */
+  private get(key: string, touch = true): CacheEntry | undefined {
+    this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.scheduleSave();
+      return undefined;
+    }
+
+    if (touch) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Store an entry, evicting the least recently used entries over the limit
+   */
+  private set(entry: CacheEntry): void {
+    this.load();
+
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= config.cache.maxEntries) break;
+      this.entries.delete(key);
+      this.stats.evictions++;
+    }
+
+    this.scheduleSave();
+  }
+
+  private summarize(entry: CacheEntry): CacheEntrySummary {
+    return {
+      key: entry.key,
+      principal: entry.principal,
+      operation: entry.operation,
+      provider: entry.provider,
+      size: JSON.stringify(entry.value).length,
+      hits: entry.hits,
+      createdAt: new Date(entry.createdAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Drop expired entries
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Load persisted entries on first use
+   */
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!config.cache.path) return;
+    this.stateFile = new StateFile(config.cache.path, 'response cache', () =>
+      JSON.stringify({ entries: [...this.entries.values()] })
+    );
+
+    const stored = this.stateFile.load((contents) => JSON.parse(contents) as { entries: CacheEntry[] });
+    if (!stored) return;
+
+    for (const entry of stored.entries) {
+      this.entries.set(entry.key, entry);
+    }
+    this.prune();
+    logger.info('Response cache loaded', { path: config.cache.path, entries: this.entries.size });
+  }
+
+  /**
+   * Persist entries after a change
+   */
+  private scheduleSave(): void {
+    this.stateFile?.save();
+  }
+}
+
+// Export singleton instance
+export const responseCache = new ResponseCache();
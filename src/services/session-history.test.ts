@@ -0,0 +1,65 @@
+import { SessionHistory } from './session-history.js';
+import { config } from '../utils/config.js';
+import { runAsPrincipal } from '../utils/principal.js';
+import type { CreateUiRequest } from '../types/index.js';
+
+const request: CreateUiRequest = {
+  message: 'Create a pricing table',
+  searchQuery: 'pricing table',
+  absolutePathToCurrentFile: '/project/src/app/pricing.tsx',
+  absolutePathToProjectDirectory: '/project',
+  standaloneRequestQuery: 'pricing table with 3 tiers',
+};
+
+describe('SessionHistory', () => {
+  const sessions = { ...config.sessions };
+  let history: SessionHistory;
+
+  beforeEach(() => {
+    Object.assign(config.sessions, { path: undefined, maxSessions: 2 });
+    history = new SessionHistory();
+  });
+
+  afterAll(() => {
+    Object.assign(config.sessions, sessions);
+  });
+
+  /**
+   * Record a turn on behalf of a principal, returning the session ID
+   */
+  function record(principal: string, message: string, sessionId?: string): Promise<string> {
+    return runAsPrincipal(principal, async () =>
+      history.record('local', sessionId, { kind: 'creation', message, request, text: message, files: [] }).id
+    );
+  }
+
+  it('evicts the least recently updated sessions of the principal over the limit', async () => {
+    const first = await record('basic:alice', 'first');
+    const second = await record('basic:alice', 'second');
+    await record('basic:alice', 'first again', first);
+    const third = await record('basic:alice', 'third');
+
+    expect(history.has(second)).toBe(false);
+    expect(history.list('basic:alice').map((session) => session.id)).toEqual([third, first]);
+  });
+
+  it('does not evict the sessions of other principals', async () => {
+    const bob = await record('basic:bob', 'bob');
+    for (let i = 0; i < 5; i++) {
+      await record('basic:mallory', `mallory ${i}`);
+    }
+
+    expect(history.has(bob)).toBe(true);
+    expect(history.list('basic:bob')).toHaveLength(1);
+    expect(history.list('basic:mallory').map((session) => session.lastMessage)).toEqual(['mallory 4', 'mallory 3']);
+  });
+
+  it('starts a new session instead of continuing one of another principal', async () => {
+    const bob = await record('basic:bob', 'bob');
+    const session = await record('basic:mallory', 'mallory', bob);
+
+    expect(session).not.toBe(bob);
+    expect(history.get(bob)?.turns).toHaveLength(1);
+    await expect(runAsPrincipal('basic:mallory', async () => history.checkAccess(bob))).rejects.toThrow(`Session not found: ${bob}`);
+  });
+});
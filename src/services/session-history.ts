@@ -0,0 +1,332 @@
+/**
+ * Session history
+ *
+ * Records each create/refine turn of a session with its request, response
+ * files, provider and owning principal. Sessions of providers without
+ * server-side sessions are continued and forked by replaying the stored
+ * turns; sessions of providers with native sessions (v0) are recorded under
+ * the upstream session ID. Set SESSION_STORE_PATH to persist sessions to a
+ * JSON file so they survive restarts.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { StateFile } from '../utils/state-file.js';
+import { currentPrincipal } from '../utils/principal.js';
+import { NotFoundError } from '../utils/errors.js';
+import type { CreateUiRequest, RefineUiRequest } from '../types/index.js';
+
+/**
+ * A single generation within a session
+ */
+export interface SessionTurn {
+  id: string;
+  kind: 'creation' | 'refinement';
+  message: string;
+  request: CreateUiRequest | RefineUiRequest;
+  text: string;
+  files: Array<{
+    name: string;
+    content: string;
+    path?: string;
+  }>;
+  instructions?: string;
+  createdAt: string;
+}
+
+/**
+ * Stored session history
+ */
+export interface SessionRecord {
+  id: string;
+  provider: string;
+  principal: string;
+  native: boolean; // The ID is the provider's own session ID (e.g. a v0 chat)
+  file?: string; // Absolute path of the file the latest turn generated or refined
+  turns: SessionTurn[];
+  forkedFrom?: {
+    sessionId: string;
+    versionId?: string; // Missing for native forks of the latest version
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Session without its turns' files, for listings
+ */
+export interface SessionSummary {
+  id: string;
+  provider: string;
+  native: boolean;
+  file?: string;
+  turns: number;
+  lastMessage?: string;
+  forkedFrom?: SessionRecord['forkedFrom'];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * File targeted by a turn's request
+ */
+function fileOf(request: CreateUiRequest | RefineUiRequest): string {
+  return 'absolutePathToRefiningFile' in request
+    ? request.absolutePathToRefiningFile
+    : request.absolutePathToCurrentFile;
+}
+
+export class SessionHistory {
+  private sessions = new Map<string, SessionRecord>();
+  private loaded = false;
+  private stateFile?: StateFile;
+
+  /**
+   * Check whether a session is stored
+   */
+  has(sessionId: string): boolean {
+    this.load();
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Get a stored session
+   */
+  get(sessionId: string): SessionRecord | undefined {
+    this.load();
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Get a stored session owned by the current principal
+   */
+  getOwn(sessionId: string): SessionRecord | undefined {
+    const session = this.get(sessionId);
+    return session?.principal === currentPrincipal() ? session : undefined;
+  }
+
+  /**
+   * Check that a session is not stored for another principal
+   *
+   * Sessions that are not stored (e.g. v0 chats started elsewhere) pass.
+   *
+   * @throws NotFoundError if another principal owns the session
+   */
+  checkAccess(sessionId: string): void {
+    if (this.has(sessionId) && !this.getOwn(sessionId)) {
+      throw new NotFoundError(`Session not found: ${sessionId}`);
+    }
+  }
+
+  /**
+   * Sessions owned by a principal, most recently updated first
+   */
+  list(principal: string): SessionSummary[] {
+    this.load();
+
+    return [...this.sessions.values()]
+      .filter((session) => session.principal === principal)
+      .reverse()
+      .map((session) => ({
+        id: session.id,
+        provider: session.provider,
+        native: session.native,
+        file: session.file,
+        turns: session.turns.length,
+        lastMessage: session.turns[session.turns.length - 1]?.message,
+        forkedFrom: session.forkedFrom,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+      }));
+  }
+
+  /**
+   * Delete a stored session
+   *
+   * @returns Whether the session existed
+   */
+  delete(sessionId: string): boolean {
+    this.load();
+    const deleted = this.sessions.delete(sessionId);
+    if (deleted) {
+      logger.info('Session deleted', { sessionId });
+      this.scheduleSave();
+    }
+    return deleted;
+  }
+
+  /**
+   * Append a turn, creating the session when no sessionId of the current principal is given
+   *
+   * @param native The sessionId is the provider's own; a new session is stored under it
+   * @returns The session the turn was recorded in
+   */
+  record(
+    provider: string,
+    sessionId: string | undefined,
+    turn: Omit<SessionTurn, 'id' | 'createdAt'>,
+    native = false
+  ): SessionRecord {
+    this.load();
+
+    const now = new Date().toISOString();
+    let session = sessionId ? this.getOwn(sessionId) : undefined;
+
+    if (!session) {
+      session = {
+        id: native && sessionId ? sessionId : `sess_${randomUUID()}`,
+        provider,
+        principal: currentPrincipal(),
+        native,
+        turns: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      logger.debug('Session history created', { sessionId: session.id, provider, native });
+    }
+
+    session.turns.push({ ...turn, id: `turn_${randomUUID()}`, createdAt: now });
+    session.file = fileOf(turn.request);
+    session.updatedAt = now;
+    this.store(session);
+
+    return session;
+  }
+
+  /**
+   * Fork a session of the current principal into a new one sharing its history up to a turn
+   *
+   * @param versionId Turn to fork from (defaults to the latest turn)
+   * @throws NotFoundError if the session or turn does not exist
+   */
+  fork(sessionId: string, versionId?: string): SessionRecord {
+    const source = this.getOwn(sessionId);
+    if (!source) {
+      throw new NotFoundError(`Session not found: ${sessionId}`);
+    }
+
+    const index = versionId
+      ? source.turns.findIndex((turn) => turn.id === versionId)
+      : source.turns.length - 1;
+
+    if (index < 0) {
+      throw new NotFoundError(`Version ${versionId} not found in session ${sessionId}`);
+    }
+
+    const now = new Date().toISOString();
+    const turns = source.turns.slice(0, index + 1);
+    const fork: SessionRecord = {
+      id: `sess_${randomUUID()}`,
+      provider: source.provider,
+      principal: currentPrincipal(),
+      native: false,
+      file: fileOf(turns[turns.length - 1].request),
+      turns,
+      forkedFrom: {
+        sessionId,
+        versionId: source.turns[index].id,
+      },
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store(fork);
+
+    logger.info('Session history forked', {
+      sessionId,
+      forkedSessionId: fork.id,
+      versionId: fork.forkedFrom?.versionId,
+    });
+
+    return fork;
+  }
+
+  /**
+   * Record a fork made by the provider itself (e.g. a forked v0 chat)
+   *
+   * The fork is stored as a native session under the provider's new session
+   * ID, with the turns of the source session when the caller owns it.
+   *
+   * @param versionId The provider's version the fork starts from
+   */
+  recordFork(provider: string, sessionId: string, forkId: string, versionId?: string): SessionRecord {
+    this.load();
+
+    const source = this.getOwn(sessionId);
+    const now = new Date().toISOString();
+    const fork: SessionRecord = {
+      id: forkId,
+      provider,
+      principal: currentPrincipal(),
+      native: true,
+      file: source?.file,
+      turns: source ? [...source.turns] : [],
+      forkedFrom: { sessionId, versionId },
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store(fork);
+
+    logger.info('Native session fork recorded', { sessionId, forkedSessionId: forkId, versionId });
+
+    return fork;
+  }
+
+  /**
+   * Store a session as the most recently updated, evicting its principal's
+   * least recently updated sessions over the limit
+   *
+   * The limit applies per principal, so one caller creating sessions cannot
+   * evict the sessions of others.
+   */
+  private store(session: SessionRecord): void {
+    this.sessions.delete(session.id);
+    this.sessions.set(session.id, session);
+
+    let owned = 0;
+    for (const stored of this.sessions.values()) {
+      if (stored.principal === session.principal) owned++;
+    }
+
+    for (const [id, stored] of this.sessions) {
+      if (owned <= config.sessions.maxSessions) break;
+      if (stored.principal !== session.principal) continue;
+      this.sessions.delete(id);
+      owned--;
+      logger.debug('Session evicted', { sessionId: id, principal: stored.principal });
+    }
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Load persisted sessions on first use
+   */
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!config.sessions.path) return;
+    this.stateFile = new StateFile(config.sessions.path, 'session history', () =>
+      JSON.stringify({ sessions: [...this.sessions.values()] })
+    );
+
+    const stored = this.stateFile.load((contents) => JSON.parse(contents) as { sessions: SessionRecord[] });
+    if (!stored) return;
+
+    for (const session of stored.sessions) {
+      this.sessions.set(session.id, session);
+    }
+    logger.info('Session history loaded', { path: config.sessions.path, sessions: this.sessions.size });
+  }
+
+  /**
+   * Persist sessions after a change
+   */
+  private scheduleSave(): void {
+    this.stateFile?.save();
+  }
+}
+
+// Export singleton instance
+export const sessionHistory = new SessionHistory();
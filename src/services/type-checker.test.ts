@@ -0,0 +1,98 @@
+import { existsSync, mkdtempSync, mkdirSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { version as serverVersion } from 'typescript';
+import { typeChecker } from './type-checker.js';
+import { config } from '../utils/config.js';
+
+jest.mock('./providers/ui-provider-factory.js', () => ({
+  getUiProvider: jest.fn(),
+}));
+
+const price = [
+  "import { cn } from '@/lib/utils';",
+  "import { formatPrice } from './format';",
+  '',
+  'export const label: string = cn(formatPrice(10), 1);',
+].join('\n');
+
+// Each check compiles a program with the real compiler
+jest.setTimeout(30000);
+
+describe('TypeChecker', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    writeFileSync(path.join(root, file), content);
+  };
+
+  beforeAll(() => {
+    root = realpathSync(mkdtempSync(path.join(os.tmpdir(), 'typecheck-')));
+    config.files.roots = [root];
+
+    write('package.json', '{}');
+    write('tsconfig.json', JSON.stringify({
+      compilerOptions: { strict: true, module: 'esnext', moduleResolution: 'bundler', types: [], paths: { '@/*': ['./src/*'] } },
+    }));
+    write('src/lib/utils.ts', 'export function cn(...classes: string[]): string {\n  return classes.join(" ");\n}\n');
+
+    // A project copy of the compiler that reports its own version
+    write('node_modules/typescript/package.json', '{"name":"typescript","main":"index.js"}');
+    write('node_modules/typescript/index.js', `module.exports = { ...require(${JSON.stringify(require.resolve('typescript'))}), version: 'project' };`);
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    config.format.trustProject = false;
+  });
+
+  it('checks generated files in an overlay over the project, resolving imports between them', async () => {
+    const result = await typeChecker.check(
+      [
+        { name: 'price.ts', content: price },
+        { name: 'format.ts', content: 'export const formatPrice = (amount: number) => `$${amount}`;\n' },
+        { name: 'README.md', content: '# Price' },
+      ],
+      { projectDirectory: root }
+    );
+
+    expect(result).toEqual(expect.objectContaining({
+      status: 'failed',
+      projectDirectory: root,
+      files: [path.join('src', 'components', 'price.ts'), path.join('src', 'components', 'format.ts')],
+      errorCount: 1,
+      warningCount: 0,
+    }));
+    expect(result!.diagnostics).toEqual([
+      expect.objectContaining({ source: 'price.ts', line: 4, column: 50, code: 2345, category: 'error' }),
+    ]);
+    expect(typeChecker.format(result!)).toMatch(/^src[/\\]components[/\\]price\.ts\(4,50\): error TS2345: /);
+    expect(existsSync(path.join(root, 'src', 'components', 'price.ts'))).toBe(false);
+  });
+
+  it("uses the server's TypeScript unless the project is trusted", async () => {
+    const files = [{ name: 'format.ts', content: 'export const formatPrice = (amount: number) => `$${amount}`;\n' }];
+
+    const untrusted = await typeChecker.check(files, { projectDirectory: root });
+    config.format.trustProject = true;
+    const trusted = await typeChecker.check(files, { projectDirectory: root });
+
+    expect(untrusted).toEqual(expect.objectContaining({ status: 'passed', typescriptVersion: serverVersion }));
+    expect(trusted).toEqual(expect.objectContaining({ status: 'passed', typescriptVersion: 'project' }));
+  });
+
+  it('skips files without TypeScript and projects without a tsconfig.json', async () => {
+    await expect(typeChecker.check([{ name: 'Price.jsx', content: '' }], { projectDirectory: root })).resolves.toBeUndefined();
+
+    const project = path.join(root, 'packages', 'plain');
+    mkdirSync(project, { recursive: true });
+    writeFileSync(path.join(project, 'package.json'), '{}');
+
+    await expect(typeChecker.check([{ name: 'price.ts', content: price }], { projectDirectory: project }))
+      .resolves.toEqual(expect.objectContaining({ status: 'skipped', reason: 'The project has no tsconfig.json' }));
+  });
+});
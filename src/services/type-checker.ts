@@ -0,0 +1,216 @@
+/**
+ * Type checker
+ *
+ * Type-checks generated TypeScript files against the target project with the
+ * TypeScript compiler API. Generated files are placed at the paths they would
+ * be applied to, in an in-memory overlay over the project: nothing is written
+ * to disk. The server's TypeScript is used, or with FORMAT_TRUST_PROJECT the
+ * project's own installation when it has one inside the allowed roots.
+ */
+
+import path from 'path';
+import type TypeScript from 'typescript';
+import { applyService, ApplyTarget } from './apply-service.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { loadProjectModule, loadServerModule } from '../utils/project-module.js';
+import type { UiProviderResponse } from './providers/ui-provider.interface.js';
+
+type GeneratedFile = NonNullable<UiProviderResponse['files']>[number];
+
+/**
+ * Compiler diagnostic in a generated file
+ */
+export interface TypeDiagnostic {
+  source: string; // File name as returned by the provider
+  file: string; // Path relative to the project root
+  line?: number; // 1-based
+  column?: number; // 1-based
+  code: number; // TypeScript error code, e.g. 2307
+  category: 'error' | 'warning';
+  message: string;
+}
+
+export interface TypeCheckResult {
+  status: 'passed' | 'failed' | 'skipped';
+  reason?: string; // Why the check was skipped
+  projectDirectory?: string;
+  typescriptVersion?: string;
+  files: string[]; // Checked files, relative to the project root
+  errorCount: number;
+  warningCount: number;
+  diagnostics: TypeDiagnostic[]; // At most TYPECHECK_MAX_DIAGNOSTICS
+  durationMs: number;
+}
+
+const TYPESCRIPT_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts']);
+
+export class TypeChecker {
+  /**
+   * Type-check the TypeScript files among generated files
+   *
+   * @param target Where the files would be applied (see ApplyService.apply)
+   * @returns undefined if there are no TypeScript files to check
+   */
+  async check(files: GeneratedFile[], target: ApplyTarget): Promise<TypeCheckResult | undefined> {
+    if (!files.some((file) => TYPESCRIPT_EXTENSIONS.has(path.extname(file.path || file.name)))) {
+      return undefined;
+    }
+
+    const startedAt = Date.now();
+    const skipped = (reason: string, projectDirectory?: string): TypeCheckResult => {
+      logger.warn('Type check skipped', { reason, projectDirectory });
+      return {
+        status: 'skipped',
+        reason,
+        projectDirectory,
+        files: [],
+        errorCount: 0,
+        warningCount: 0,
+        diagnostics: [],
+        durationMs: Date.now() - startedAt,
+      };
+    };
+
+    // Map the files to their target paths the same way they would be applied
+    let root: string;
+    let overlay: Map<string, string>;
+    let sources: Map<string, string>;
+    try {
+      const plan = await applyService.apply(files, target, { mode: 'dry-run' });
+      root = plan.projectDirectory;
+      overlay = new Map(plan.changes.map((change, index) => [change.path, files[index].content]));
+      sources = new Map(plan.changes.map((change) => [change.path, change.source]));
+    } catch (error) {
+      return skipped(error instanceof Error ? error.message : 'Project directory could not be resolved');
+    }
+
+    // The project's compiler runs code from the project directory
+    const ts = config.format.trustProject
+      ? await loadProjectModule<typeof TypeScript>(root, 'typescript')
+      : await loadServerModule<typeof TypeScript>('typescript');
+    if (!ts) {
+      return skipped(
+        config.format.trustProject
+          ? 'TypeScript is installed neither in the project nor on the server'
+          : 'TypeScript is not installed on the server',
+        root
+      );
+    }
+
+    const configPath = ts.findConfigFile(root, ts.sys.fileExists, 'tsconfig.json');
+    if (!configPath || !configPath.startsWith(`${root}${path.sep}`)) {
+      return skipped('The project has no tsconfig.json', root);
+    }
+
+    const { config: tsconfig, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      return skipped(`tsconfig.json could not be read: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`, root);
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(tsconfig, ts.sys, path.dirname(configPath));
+    const options: TypeScript.CompilerOptions = {
+      ...parsed.options,
+      noEmit: true,
+      incremental: false,
+      composite: false,
+    };
+
+    const checked = [...overlay.keys()].filter((file) => TYPESCRIPT_EXTENSIONS.has(path.extname(file)));
+
+    // Directories of generated files may not exist yet, but imports between the files must resolve
+    const directories = new Set<string>();
+    for (const file of overlay.keys()) {
+      for (let directory = path.dirname(file); directory.startsWith(`${root}${path.sep}`); directory = path.dirname(directory)) {
+        directories.add(directory);
+      }
+    }
+
+    const host = ts.createCompilerHost(options, true);
+    const { fileExists, readFile, getSourceFile, directoryExists } = host;
+    host.fileExists = (fileName) => overlay.has(path.resolve(fileName)) || fileExists.call(host, fileName);
+    host.directoryExists = (directoryName) => directories.has(path.resolve(directoryName)) ||
+      (directoryExists ? directoryExists.call(host, directoryName) : ts.sys.directoryExists(directoryName));
+    host.readFile = (fileName) => overlay.get(path.resolve(fileName)) ?? readFile.call(host, fileName);
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      const content = overlay.get(path.resolve(fileName));
+      return content !== undefined
+        ? ts.createSourceFile(fileName, content, languageVersion, true)
+        : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+    };
+
+    // The project's declaration files provide globals (e.g. next-env.d.ts, CSS module types)
+    const declarations = parsed.fileNames.filter((fileName) => fileName.endsWith('.d.ts'));
+    const program = ts.createProgram({ rootNames: [...checked, ...declarations], options, host });
+
+    const diagnostics: TypeDiagnostic[] = [];
+    for (const file of checked) {
+      const sourceFile = program.getSourceFile(file);
+      if (!sourceFile) continue;
+
+      for (const diagnostic of [
+        ...program.getSyntacticDiagnostics(sourceFile),
+        ...program.getSemanticDiagnostics(sourceFile),
+      ]) {
+        if (diagnostic.category !== ts.DiagnosticCategory.Error && diagnostic.category !== ts.DiagnosticCategory.Warning) {
+          continue;
+        }
+
+        const position = diagnostic.start !== undefined
+          ? sourceFile.getLineAndCharacterOfPosition(diagnostic.start)
+          : undefined;
+
+        diagnostics.push({
+          source: sources.get(file)!,
+          file: path.relative(root, file),
+          line: position && position.line + 1,
+          column: position && position.character + 1,
+          code: diagnostic.code,
+          category: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+          message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        });
+      }
+    }
+
+    const errorCount = diagnostics.filter((diagnostic) => diagnostic.category === 'error').length;
+    const result: TypeCheckResult = {
+      status: errorCount > 0 ? 'failed' : 'passed',
+      projectDirectory: root,
+      typescriptVersion: ts.version,
+      files: checked.map((file) => path.relative(root, file)),
+      errorCount,
+      warningCount: diagnostics.length - errorCount,
+      diagnostics: diagnostics.slice(0, config.typecheck.maxDiagnostics),
+      durationMs: Date.now() - startedAt,
+    };
+
+    logger.debug('Generated files type-checked', {
+      projectDirectory: root,
+      files: result.files.length,
+      errorCount,
+      durationMs: result.durationMs,
+    });
+
+    return result;
+  }
+
+  /**
+   * Format diagnostics like tsc output, e.g. `src/a.tsx(3,10): error TS2307: ...`
+   */
+  format(result: TypeCheckResult): string {
+    const lines = result.diagnostics.map((diagnostic) => {
+      const location = diagnostic.line !== undefined ? `(${diagnostic.line},${diagnostic.column})` : '';
+      return `${diagnostic.file}${location}: ${diagnostic.category} TS${diagnostic.code}: ${diagnostic.message}`;
+    });
+
+    const omitted = result.errorCount + result.warningCount - result.diagnostics.length;
+    if (omitted > 0) {
+      lines.push(`... and ${omitted} more`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+// Export singleton instance
+export const typeChecker = new TypeChecker();
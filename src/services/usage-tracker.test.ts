@@ -0,0 +1,113 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageTracker, UsageRecord } from './usage-tracker.js';
+import { config } from '../utils/config.js';
+import { runAsPrincipal } from '../utils/principal.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const call = (overrides: Partial<UsageRecord> = {}) => ({
+  provider: 'v0',
+  operation: 'create-ui' as const,
+  durationMs: 100,
+  success: true,
+  inputSize: 10,
+  outputSize: 50,
+  ...overrides,
+});
+
+describe('UsageTracker', () => {
+  const usage = { ...config.usage };
+  let directory: string;
+  let tracker: UsageTracker;
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-10T12:00:00Z') });
+    Object.assign(config.usage, { path: undefined, retentionDays: 90 });
+    tracker = new UsageTracker();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    Object.assign(config.usage, usage);
+  });
+
+  /**
+   * Record a call on behalf of a principal
+   */
+  function record(principal: string, overrides: Partial<UsageRecord> = {}): Promise<void> {
+    return runAsPrincipal(principal, async () => tracker.record(call(overrides)));
+  }
+
+  it('records calls with the current principal and filters them', async () => {
+    await record('basic:alice');
+    jest.setSystemTime(new Date('2025-01-11T08:00:00Z'));
+    await record('basic:bob', { provider: 'magic', operation: 'refine-ui' });
+    await record('basic:alice', { success: false, errorCode: 'EXTERNAL_SERVICE_ERROR' });
+
+    expect(tracker.query().map((entry) => entry.principal)).toEqual(['basic:alice', 'basic:bob', 'basic:alice']);
+    expect(tracker.query({ principal: 'basic:alice' })).toHaveLength(2);
+    expect(tracker.query({ provider: 'magic', operation: 'refine-ui' })).toEqual([
+      expect.objectContaining({ principal: 'basic:bob', timestamp: '2025-01-11T08:00:00.000Z' }),
+    ]);
+    expect(tracker.query({ from: new Date('2025-01-11'), to: new Date('2025-01-11T08:00:00Z') })).toEqual([]);
+    expect(tracker.query({ from: new Date('2025-01-11') })).toHaveLength(2);
+  });
+
+  it('summarizes records per group, counting distinct chats per provider', async () => {
+    await record('basic:alice', { chatId: 'chat_1', durationMs: 100 });
+    await record('basic:alice', { chatId: 'chat_1', durationMs: 200, success: false });
+    await record('basic:alice', { provider: 'magic', chatId: 'chat_1', durationMs: 300 });
+    jest.setSystemTime(new Date('2025-01-11T08:00:00Z'));
+    await record('basic:bob', { chatId: 'chat_2', durationMs: 401 });
+
+    expect(tracker.aggregate(tracker.query(), ['principal', 'day'])).toEqual([
+      expect.objectContaining({ principal: 'basic:alice', day: '2025-01-10', calls: 3, succeeded: 2, failed: 1, chats: 2 }),
+      expect.objectContaining({ principal: 'basic:bob', day: '2025-01-11', calls: 1, chats: 1 }),
+    ]);
+    expect(tracker.summarize(tracker.query())).toEqual({
+      calls: 4,
+      succeeded: 3,
+      failed: 1,
+      chats: 3,
+      durationMs: 1001,
+      avgDurationMs: 250,
+      inputSize: 40,
+      outputSize: 200,
+    });
+    expect(tracker.summarize([])).toEqual(expect.objectContaining({ calls: 0, avgDurationMs: 0 }));
+  });
+
+  it('drops records past the retention period as new ones are recorded', async () => {
+    config.usage.retentionDays = 1;
+    await record('basic:alice');
+    jest.setSystemTime(Date.now() + DAY_MS + 1);
+    await record('basic:bob');
+
+    expect(tracker.query().map((entry) => entry.principal)).toEqual(['basic:bob']);
+  });
+
+  it('loads persisted records, skipping expired and malformed ones', () => {
+    config.usage.path = path.join(directory, 'usage.jsonl');
+    const persisted = (principal: string, timestamp: string) =>
+      JSON.stringify({ ...call(), id: principal, principal, timestamp });
+    writeFileSync(config.usage.path, [
+      persisted('basic:old', '2024-09-01T00:00:00.000Z'),
+      persisted('basic:alice', '2025-01-09T00:00:00.000Z'),
+      '{"principal":',
+      persisted('basic:bob', '2025-01-10T00:00:00.000Z'),
+      '',
+    ].join('\n'));
+
+    expect(tracker.query().map((entry) => entry.principal)).toEqual(['basic:alice', 'basic:bob']);
+  });
+});
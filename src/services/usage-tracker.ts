@@ -0,0 +1,235 @@
+/**
+ * Usage accounting for provider calls
+ *
+ * Records every upstream provider call with the calling principal, so
+ * generation usage can be reported and charged back per user, provider and
+ * day. Records are kept in memory for the retention period and, when
+ * USAGE_PATH is set, persisted to a JSON Lines file that is reloaded on
+ * startup.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { StateFile } from '../utils/state-file.js';
+import { currentPrincipal } from '../utils/principal.js';
+
+export type UsageOperation = 'create-ui' | 'fetch-ui' | 'refine-ui' | 'restore-version' | 'fork-session';
+
+export type UsageGroupBy = 'principal' | 'provider' | 'operation' | 'day';
+
+/**
+ * A single recorded provider call
+ */
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  principal: string;
+  provider: string;
+  operation: UsageOperation;
+  durationMs: number;
+  success: boolean;
+  errorCode?: string;
+  inputSize: number; // Characters of prompt, context and file content sent
+  outputSize: number; // Characters of text and file content received
+  chatId?: string; // Upstream chat/session ID (the v0 chat ID for v0)
+}
+
+export interface UsageFilter {
+  principal?: string;
+  provider?: string;
+  operation?: UsageOperation;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+}
+
+/**
+ * Totals for a group of records
+ */
+export interface UsageSummary {
+  principal?: string;
+  provider?: string;
+  operation?: UsageOperation;
+  day?: string;
+  calls: number;
+  succeeded: number;
+  failed: number;
+  chats: number; // Distinct upstream chats
+  durationMs: number;
+  avgDurationMs: number;
+  inputSize: number;
+  outputSize: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+  private loaded = false;
+  private stateFile?: StateFile;
+
+  /**
+   * Record a provider call for the current principal
+   */
+  record(call: Omit<UsageRecord, 'id' | 'timestamp' | 'principal'>): void {
+    this.load();
+
+    const record: UsageRecord = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      principal: currentPrincipal(),
+      ...call,
+    };
+    this.records.push(record);
+    this.prune();
+
+    logger.debug('Provider usage recorded', {
+      principal: record.principal,
+      provider: record.provider,
+      operation: record.operation,
+      durationMs: record.durationMs,
+      success: record.success,
+    });
+
+    this.stateFile?.save();
+  }
+
+  /**
+   * Records matching a filter, oldest first
+   */
+  query(filter: UsageFilter = {}): UsageRecord[] {
+    this.load();
+
+    const from = filter.from?.toISOString();
+    const to = filter.to?.toISOString();
+
+    return this.records.filter((record) =>
+      (!filter.principal || record.principal === filter.principal) &&
+      (!filter.provider || record.provider === filter.provider) &&
+      (!filter.operation || record.operation === filter.operation) &&
+      (!from || record.timestamp >= from) &&
+      (!to || record.timestamp < to)
+    );
+  }
+
+  /**
+   * Summarize records per combination of the grouping fields
+   *
+   * Groups are sorted by their field values.
+   */
+  aggregate(records: UsageRecord[], groupBy: UsageGroupBy[]): UsageSummary[] {
+    const groups = new Map<string, { summary: UsageSummary; chats: Set<string> }>();
+
+    for (const record of records) {
+      const fields: Partial<Record<UsageGroupBy, string>> = {};
+      for (const field of groupBy) {
+        fields[field] = field === 'day' ? record.timestamp.slice(0, 10) : record[field];
+      }
+
+      const key = JSON.stringify(groupBy.map((field) => fields[field]));
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          summary: {
+            ...(fields as Partial<Pick<UsageSummary, UsageGroupBy>>),
+            calls: 0,
+            succeeded: 0,
+            failed: 0,
+            chats: 0,
+            durationMs: 0,
+            avgDurationMs: 0,
+            inputSize: 0,
+            outputSize: 0,
+          },
+          chats: new Set(),
+        };
+        groups.set(key, group);
+      }
+
+      const { summary, chats } = group;
+      summary.calls++;
+      summary[record.success ? 'succeeded' : 'failed']++;
+      summary.durationMs += record.durationMs;
+      summary.inputSize += record.inputSize;
+      summary.outputSize += record.outputSize;
+      if (record.chatId) chats.add(`${record.provider}:${record.chatId}`);
+    }
+
+    return [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, { summary, chats }]) => ({
+        ...summary,
+        chats: chats.size,
+        avgDurationMs: summary.calls ? Math.round(summary.durationMs / summary.calls) : 0,
+      }));
+  }
+
+  /**
+   * Totals over all records
+   */
+  summarize(records: UsageRecord[]): UsageSummary {
+    return this.aggregate(records, [])[0] ?? {
+      calls: 0,
+      succeeded: 0,
+      failed: 0,
+      chats: 0,
+      durationMs: 0,
+      avgDurationMs: 0,
+      inputSize: 0,
+      outputSize: 0,
+    };
+  }
+
+  /**
+   * Load persisted records on first use
+   */
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const file = config.usage.path;
+    if (!file) return;
+    this.stateFile = new StateFile(file, 'usage records', () =>
+      this.records.map((record) => `${JSON.stringify(record)}\n`).join('')
+    );
+
+    let total = 0;
+
+    this.stateFile.load((contents) => {
+      for (const line of contents.split('\n')) {
+        if (!line.trim()) continue;
+        total++;
+
+        try {
+          this.records.push(JSON.parse(line) as UsageRecord);
+        } catch {
+          logger.warn('Skipping malformed usage record', { path: file });
+        }
+      }
+    });
+    this.prune();
+
+    logger.info('Usage records loaded', { path: file, records: this.records.length });
+
+    // Rewrite the file without expired or malformed records
+    if (this.records.length < total) {
+      this.stateFile.save();
+    }
+  }
+
+  /**
+   * Drop records past the retention period (records are kept oldest first)
+   */
+  private prune(): void {
+    if (!config.usage.retentionDays) return;
+
+    const cutoff = new Date(Date.now() - config.usage.retentionDays * DAY_MS).toISOString();
+    const firstKept = this.records.findIndex((record) => record.timestamp >= cutoff);
+    if (firstKept !== 0) {
+      this.records.splice(0, firstKept === -1 ? this.records.length : firstKept);
+    }
+  }
+}
+
+// Export singleton instance
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,236 @@
+/**
+ * Service layer for session version history and fork operations
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { createUnifiedDiff, diffStats } from '../utils/diff.js';
+import { getUiProvider } from './providers/ui-provider-factory.js';
+import { HistoryUiProvider } from './providers/history-ui-provider.js';
+import { sessionHistory } from './session-history.js';
+import type {
+  UiProvider,
+  UiProviderResponse,
+  UiVersion,
+  UiVersionSummary,
+} from './providers/ui-provider.interface.js';
+
+type VersionedUiProvider = UiProvider &
+  Required<Pick<UiProvider, 'listVersions' | 'getVersion' | 'restoreVersion'>>;
+
+interface FileDiff {
+  name: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  additions: number;
+  deletions: number;
+  diff?: string;
+}
+
+interface VersionDiff {
+  sessionId: string;
+  from: UiVersionSummary;
+  to: UiVersionSummary;
+  files: FileDiff[];
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+  };
+}
+
+function isVersioned(provider: UiProvider): provider is VersionedUiProvider {
+  return (
+    typeof provider.listVersions === 'function' &&
+    typeof provider.getVersion === 'function' &&
+    typeof provider.restoreVersion === 'function'
+  );
+}
+
+export class VersionService {
+  /**
+   * Resolve the provider owning a session's version history
+   *
+   * Without a name, the first provider in the configured chain that keeps
+   * version history is used.
+   *
+   * @throws ValidationError if no suitable provider is configured
+   */
+  private getProvider(name?: string): VersionedUiProvider {
+    if (name) {
+      const provider = getUiProvider(name);
+      if (!isVersioned(provider)) {
+        throw new ValidationError(`UI provider '${name}' does not support version history`, {
+          provider: name,
+        });
+      }
+      return provider;
+    }
+
+    for (const type of config.uiProvider.providers) {
+      const provider = getUiProvider(type);
+      if (isVersioned(provider)) {
+        return provider;
+      }
+    }
+
+    throw new ValidationError(
+      'No configured UI provider supports version history (use the v0 provider)',
+      { providers: config.uiProvider.providers }
+    );
+  }
+
+  /**
+   * List versions of a session, newest first
+   */
+  async listVersions(sessionId: string, providerName?: string): Promise<UiVersionSummary[]> {
+    sessionHistory.checkAccess(sessionId);
+    return this.getProvider(providerName).listVersions(sessionId);
+  }
+
+  /**
+   * Get a specific version including its files
+   */
+  async getVersion(sessionId: string, versionId: string, providerName?: string): Promise<UiVersion> {
+    sessionHistory.checkAccess(sessionId);
+    return this.getProvider(providerName).getVersion(sessionId, versionId);
+  }
+
+  /**
+   * Diff the files of two versions of a session
+   */
+  async diffVersions(
+    sessionId: string,
+    fromVersionId: string,
+    toVersionId: string,
+    providerName?: string
+  ): Promise<VersionDiff> {
+    sessionHistory.checkAccess(sessionId);
+    const provider = this.getProvider(providerName);
+
+    logger.debug('Diffing session versions', { sessionId, fromVersionId, toVersionId });
+
+    const [from, to] = await Promise.all([
+      provider.getVersion(sessionId, fromVersionId),
+      provider.getVersion(sessionId, toVersionId),
+    ]);
+
+    const fromFiles = new Map(from.files.map((file) => [file.name, file.content]));
+    const toFiles = new Map(to.files.map((file) => [file.name, file.content]));
+    const names = [...new Set([...fromFiles.keys(), ...toFiles.keys()])].sort();
+
+    const files = names.map((name): FileDiff => {
+      const oldContent = fromFiles.get(name);
+      const newContent = toFiles.get(name);
+      const status = oldContent === undefined
+        ? 'added'
+        : newContent === undefined
+          ? 'removed'
+          : oldContent === newContent ? 'unchanged' : 'modified';
+
+      if (status === 'unchanged') {
+        return { name, status, additions: 0, deletions: 0 };
+      }
+
+      return {
+        name,
+        status,
+        ...diffStats(oldContent ?? '', newContent ?? ''),
+        diff: createUnifiedDiff(
+          oldContent === undefined ? '/dev/null' : `a/${name}`,
+          newContent === undefined ? '/dev/null' : `b/${name}`,
+          oldContent ?? '',
+          newContent ?? ''
+        ),
+      };
+    });
+
+    const count = (status: FileDiff['status']) => files.filter((file) => file.status === status).length;
+    const { files: _fromFiles, ...fromSummary } = from;
+    const { files: _toFiles, ...toSummary } = to;
+
+    return {
+      sessionId,
+      from: fromSummary,
+      to: toSummary,
+      files,
+      summary: {
+        added: count('added'),
+        removed: count('removed'),
+        modified: count('modified'),
+        unchanged: count('unchanged'),
+      },
+    };
+  }
+
+  /**
+   * Restore an older version as the base for the next refinement
+   */
+  async restoreVersion(
+    sessionId: string,
+    versionId: string,
+    providerName?: string
+  ): Promise<UiProviderResponse> {
+    sessionHistory.checkAccess(sessionId);
+    return this.getProvider(providerName).restoreVersion(sessionId, versionId);
+  }
+
+  /**
+   * Fork a session into a new one that can be refined independently
+   *
+   * Sessions recorded in the local history are forked by their own provider;
+   * other session ids go to the named provider or the first provider in the
+   * chain with native forking.
+   *
+   * @throws NotFoundError if no provider knows the session
+   */
+  async forkSession(
+    sessionId: string,
+    versionId?: string,
+    providerName?: string
+  ): Promise<UiProviderResponse> {
+    sessionHistory.checkAccess(sessionId);
+    const stored = sessionHistory.get(sessionId);
+
+    if (providerName || stored) {
+      const provider = getUiProvider(providerName || stored?.provider);
+      if (typeof provider.forkSession !== 'function') {
+        throw new ValidationError(`UI provider '${provider.name}' does not support forking sessions`, {
+          provider: provider.name,
+        });
+      }
+      return provider.forkSession(sessionId, versionId);
+    }
+
+    for (const type of config.uiProvider.providers) {
+      const provider = getUiProvider(type);
+      if (typeof provider.forkSession === 'function' && !(provider instanceof HistoryUiProvider)) {
+        return provider.forkSession(sessionId, versionId);
+      }
+    }
+
+    throw new NotFoundError(`Session not found: ${sessionId}`);
+  }
+
+  /**
+   * Format a version diff as text for MCP tools
+   */
+  formatDiff(diff: VersionDiff): string {
+    let text = `# Version Diff\n\n`;
+    text += `**Session**: ${diff.sessionId}\n`;
+    text += `**From**: ${diff.from.id} (${diff.from.createdAt})\n`;
+    text += `**To**: ${diff.to.id} (${diff.to.createdAt})\n\n`;
+    text += `${diff.summary.modified} modified, ${diff.summary.added} added, ${diff.summary.removed} removed, ${diff.summary.unchanged} unchanged\n\n`;
+
+    for (const file of diff.files.filter((file) => file.diff)) {
+      text += `## ${file.name} (${file.status}, +${file.additions} -${file.deletions})\n\n`;
+      text += '```diff\n' + file.diff + '```\n\n';
+    }
+
+    return text;
+  }
+}
+
+// Export singleton instance
+export const versionService = new VersionService();
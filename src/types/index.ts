@@ -14,14 +14,30 @@ export interface Config {
 
   // UI Provider configuration
   uiProvider: {
-    type: 'magic' | 'v0';
+    type: string; // Built-in ('magic', 'v0', 'local', 'openai') or plugin provider type
+    providers: string[]; // Ordered failover chain, first entry is primary
     magic?: {
       apiKey: string;
       baseUrl: string;
+      headless: boolean; // Return the chat URL instead of opening a browser
+      relayPort: number; // Port the browser posts results to in headless mode
+      publicUrl: string; // Externally reachable URL of this server, for relay callbacks
     };
     v0?: {
       apiKey: string;
     };
+    local?: {
+      templatesDir: string;
+    };
+    openai?: {
+      baseUrl: string;
+      model: string;
+      apiKey?: string;
+      timeout: number;
+      maxInputSize?: number;
+    };
+    plugins: ProviderPluginConfig[];
+    compareTimeout: number; // Per-provider timeout in ms for /api/compare-ui
   };
 
   // Authentication configuration
@@ -31,6 +47,77 @@ export interface Config {
     apiKeys?: string[];
     oidc?: OIDCConfig;
     basicAuth?: BasicAuthConfig;
+    adminPrincipals: string[]; // Principals allowed to use admin routes (e.g. /api/cache)
+  };
+
+  // Response cache configuration
+  cache: {
+    enabled: boolean;
+    maxEntries: number;
+    path?: string; // JSON file to persist entries across restarts
+    ttl: {
+      // Milliseconds per operation, 0 disables caching of that operation
+      fetchUi: number;
+      refineUi: number;
+      logoSearch: number;
+    };
+  };
+
+  // Rate limiting and quota configuration
+  rateLimit: {
+    enabled: boolean;
+    rules: RateLimitRule[]; // Token buckets per route prefix, '*' applies to all other routes
+    quota: {
+      // Generation requests per principal, 0 for unlimited
+      daily: number;
+      monthly: number;
+    };
+    store: 'memory' | 'file';
+    storePath?: string;
+  };
+
+  // Session store configuration
+  sessions: {
+    path?: string; // JSON file to persist sessions across restarts
+    maxSessions: number; // Least recently updated sessions are evicted beyond this
+  };
+
+  // Usage accounting configuration
+  usage: {
+    enabled: boolean;
+    path?: string; // JSON Lines file to persist records across restarts
+    retentionDays: number; // Records older than this are dropped on startup, 0 keeps all
+  };
+
+  // File access sandbox for paths received from clients
+  files: {
+    roots: string[]; // Directories files may be read from and written to
+    denyPatterns: string[]; // Globs matched against each path segment (e.g. '.env*', '*.pem')
+    maxFileSize: number; // Largest file read in bytes
+  };
+
+  // Type-checking of generated TypeScript files against the target project
+  typecheck: {
+    enabled: boolean;
+    autoFix: boolean; // Ask the provider to fix type errors in one refinement round
+    maxDiagnostics: number; // Diagnostics attached to a response
+  };
+
+  // Formatting of generated files with the target project's tools
+  format: {
+    enabled: boolean; // Format with the project's Prettier config
+    eslint: boolean; // Also apply the project's ESLint fixes
+    trustProject: boolean; // Run the project's own formatter and TypeScript packages, JavaScript configs and plugins
+  };
+
+  // Outbound HTTP resilience (21st.dev, SVGL, OIDC discovery)
+  outbound: {
+    timeout: number; // Per-attempt timeout in milliseconds
+    retries: number; // Retries after the first attempt
+    backoffBase: number; // Initial backoff ceiling in milliseconds, doubled per retry
+    backoffMax: number; // Upper bound for backoff and honored Retry-After values
+    breakerThreshold: number; // Consecutive failures that open a host's circuit
+    breakerResetTimeout: number; // Milliseconds an open circuit waits before a trial request
   };
 
   // Callback server configuration
@@ -39,6 +126,12 @@ export interface Config {
     timeout: number;
   };
 
+  // Record/replay of outbound traffic
+  cassette: {
+    mode: 'off' | 'record' | 'replay';
+    path?: string;
+  };
+
   // Logging configuration
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
@@ -46,6 +139,18 @@ export interface Config {
   };
 }
 
+export interface ProviderPluginConfig {
+  module: string; // npm package name or path to a local .js file
+  type?: string; // Overrides the type exported by the plugin
+  options?: Record<string, any>; // Validated by the plugin's options schema
+}
+
+export interface RateLimitRule {
+  route: string; // Path prefix (e.g. '/api/create-ui') or '*'
+  limit: number; // Bucket capacity, refilled evenly over the window
+  windowMs: number;
+}
+
 export interface OIDCConfig {
   issuer: string;
   clientId: string;
@@ -64,17 +169,21 @@ export interface CreateUiRequest {
   absolutePathToCurrentFile: string;
   absolutePathToProjectDirectory: string;
   standaloneRequestQuery: string;
+  provider?: string;
 }
 
 export interface FetchUiRequest {
   message: string;
   searchQuery: string;
+  provider?: string;
 }
 
 export interface RefineUiRequest {
   userMessage: string;
   absolutePathToRefiningFile: string;
   context: string;
+  provider?: string;
+  absolutePathToProjectDirectory?: string;
 }
 
 export interface LogoSearchRequest {
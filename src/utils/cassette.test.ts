@@ -0,0 +1,123 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Cassette } from './cassette.js';
+import { AppError, ExternalServiceError, TimeoutError } from './errors.js';
+
+function streamOf(text: string): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(text));
+      controller.close();
+    },
+  });
+}
+
+describe('Cassette', () => {
+  let directory: string;
+  let file: string;
+  let cassettes = 0;
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    file = path.join(directory, `cassette-${++cassettes}.json`);
+  });
+
+  it('passes calls through when off', async () => {
+    const cassette = new Cassette('replay');
+    const perform = jest.fn(async () => 'live');
+
+    await expect(cassette.run('http', { url: '/a' }, perform)).resolves.toBe('live');
+    expect(cassette.getMode()).toBe('off');
+  });
+
+  it('replays recorded responses in order without performing the calls', async () => {
+    const recorder = new Cassette('record', file);
+    await recorder.run('http', { url: '/a' }, async () => ({ n: 1 }));
+    await recorder.run('http', { url: '/a' }, async () => ({ n: 2 }));
+    await recorder.run('svgl', { url: '/a' }, async () => ({ n: 3 }));
+
+    const player = new Cassette('replay', file);
+    const perform = jest.fn();
+
+    await expect(player.run('http', { url: '/a' }, perform)).resolves.toEqual({ n: 1 });
+    await expect(player.run('svgl', { url: '/a' }, perform)).resolves.toEqual({ n: 3 });
+    await expect(player.run('http', { url: '/a' }, perform)).resolves.toEqual({ n: 2 });
+    expect(perform).not.toHaveBeenCalled();
+  });
+
+  it('matches requests regardless of key order', async () => {
+    await new Cassette('record', file).run('http', { method: 'POST', body: { a: 1, b: 2 } }, async () => 'ok');
+
+    await expect(new Cassette('replay', file).run('http', { body: { b: 2, a: 1 }, method: 'POST' }, jest.fn()))
+      .resolves.toBe('ok');
+  });
+
+  it('records streams in full and replays them as streams', async () => {
+    const recorder = new Cassette('record', file);
+    const recorded = await recorder.run('v0', { method: 'chats.create' }, async () => streamOf('data: one\n\ndata: two\n\n'));
+
+    expect(await new Response(recorded).text()).toBe('data: one\n\ndata: two\n\n');
+
+    const replayed = await new Cassette('replay', file).run('v0', { method: 'chats.create' }, jest.fn());
+
+    expect(replayed).toBeInstanceOf(ReadableStream);
+    expect(await new Response(replayed).text()).toBe('data: one\n\ndata: two\n\n');
+  });
+
+  it('replays recorded errors with their classes, so failover still applies', async () => {
+    const recorder = new Cassette('record', file);
+    const calls: Array<[string, Error]> = [
+      ['/down', new ExternalServiceError('v0.dev is down', 'v0.dev', { status: 503 })],
+      ['/slow', new TimeoutError('Request timed out')],
+      ['/bad', new AppError('Bad request', 400, 'BAD_REQUEST')],
+    ];
+    for (const [url, error] of calls) {
+      await expect(recorder.run('http', { url }, async () => { throw error; })).rejects.toBe(error);
+    }
+
+    const player = new Cassette('replay', file);
+    const down = await player.run('http', { url: '/down' }, jest.fn()).catch((caught) => caught);
+    const slow = await player.run('http', { url: '/slow' }, jest.fn()).catch((caught) => caught);
+    const bad = await player.run('http', { url: '/bad' }, jest.fn()).catch((caught) => caught);
+
+    expect(down).toBeInstanceOf(ExternalServiceError);
+    expect(down.details).toEqual({ service: 'v0.dev', status: 503 });
+    expect(slow).toBeInstanceOf(TimeoutError);
+    expect(bad).toEqual(expect.objectContaining({ message: 'Bad request', statusCode: 400, code: 'BAD_REQUEST' }));
+  });
+
+  it('fails requests that were not recorded', async () => {
+    await new Cassette('record', file).run('http', { url: '/a' }, async () => 'ok');
+    const player = new Cassette('replay', file);
+    await player.run('http', { url: '/a' }, jest.fn());
+
+    const again = await player.run('http', { url: '/a' }, jest.fn()).catch((caught) => caught);
+    const other = await player.run('http', { url: '/b' }, jest.fn()).catch((caught) => caught);
+
+    expect(again).toEqual(expect.objectContaining({ code: 'CASSETTE_MISS', details: expect.objectContaining({ recorded: 1 }) }));
+    expect(other).toEqual(expect.objectContaining({ code: 'CASSETTE_MISS', details: expect.objectContaining({ recorded: 0 }) }));
+  });
+
+  it('records SDK client calls by method path and arguments', async () => {
+    const client = { chats: { create: jest.fn(async (input: { message: string }) => ({ id: `chat-${input.message}` })) } };
+
+    const recorded = new Cassette('record', file).wrapClient('v0', client);
+    await expect(recorded.chats.create({ message: 'a' })).resolves.toEqual({ id: 'chat-a' });
+
+    const interactions = JSON.parse(readFileSync(file, 'utf-8')).interactions;
+    expect(interactions[0].request).toEqual({ method: 'chats.create', args: [{ message: 'a' }] });
+
+    client.chats.create.mockClear();
+    const replayed = new Cassette('replay', file).wrapClient('v0', client);
+    await expect(replayed.chats.create({ message: 'a' })).resolves.toEqual({ id: 'chat-a' });
+    expect(client.chats.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Record/replay cassettes for outbound traffic
+ *
+ * In record mode every wrapped call is executed and its result (or error) is
+ * appended to a JSON cassette file. In replay mode wrapped calls never reach the
+ * network: results are served from the cassette in recorded order.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { AppError, ExternalServiceError, TimeoutError } from './errors.js';
+
+type CassetteMode = 'off' | 'record' | 'replay';
+
+interface RecordedError {
+  name: string;
+  message: string;
+  statusCode?: number;
+  code?: string;
+  details?: any;
+}
+
+interface CassetteInteraction {
+  key: string;
+  kind: string;
+  request: unknown;
+  response?: unknown;
+  error?: RecordedError;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal requests produce equal keys
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = val[key];
+          return sorted;
+        }, {});
+    }
+    return val;
+  });
+}
+
+/**
+ * Recorded form of a streamed (ReadableStream) response
+ */
+interface RecordedStream {
+  __stream: string;
+}
+
+function isRecordedStream(value: unknown): value is RecordedStream {
+  return !!value && typeof value === 'object' && typeof (value as RecordedStream).__stream === 'string';
+}
+
+/**
+ * Create a byte stream from recorded text
+ */
+function streamFromText(text: string): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(text));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Serialize an error so it can be re-thrown on replay
+ */
+function serializeError(error: unknown): RecordedError {
+  if (error instanceof AppError) {
+    return {
+      name: error.name,
+      message: error.message,
+      statusCode: error.statusCode,
+      code: error.code,
+      details: error.details,
+    };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * Rebuild a recorded error, preserving the app error classes used for failover
+ */
+function deserializeError(recorded: RecordedError): Error {
+  switch (recorded.name) {
+    case 'TimeoutError':
+      return new TimeoutError(recorded.message);
+    case 'ExternalServiceError': {
+      const { service, ...details } = recorded.details || {};
+      return new ExternalServiceError(recorded.message, service, details);
+    }
+    default: {
+      if (recorded.statusCode) {
+        return new AppError(recorded.message, recorded.statusCode, recorded.code, recorded.details);
+      }
+      const error = new Error(recorded.message);
+      error.name = recorded.name;
+      return error;
+    }
+  }
+}
+
+export class Cassette {
+  private mode: CassetteMode;
+  private filePath?: string;
+  private interactions: CassetteInteraction[] = [];
+  private loaded: Promise<void> | null = null;
+  private replayCursor = new Map<string, number>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(mode: CassetteMode, filePath?: string) {
+    this.mode = filePath ? mode : 'off';
+    this.filePath = filePath;
+
+    if (this.mode !== 'off') {
+      logger.info('Cassette mode enabled', { mode: this.mode, path: this.filePath });
+    }
+  }
+
+  getMode(): CassetteMode {
+    return this.mode;
+  }
+
+  /**
+   * Load the cassette file (replay) or start with an empty one (record)
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (this.mode !== 'replay') return;
+
+        try {
+          const raw = await fs.readFile(this.filePath as string, 'utf-8');
+          const file = JSON.parse(raw) as CassetteFile;
+          this.interactions = file.interactions || [];
+          logger.info('Cassette loaded', {
+            path: this.filePath,
+            interactions: this.interactions.length,
+          });
+        } catch (error) {
+          throw new AppError(
+            `Failed to load cassette: ${this.filePath}`,
+            500,
+            'CASSETTE_ERROR',
+            { originalError: error instanceof Error ? error.message : 'Unknown error' }
+          );
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Persist recorded interactions, serializing concurrent writes
+   */
+  private persist(): Promise<void> {
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    const filePath = this.filePath as string;
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+      })
+      .catch((error) => {
+        logger.error('Failed to write cassette', error, { path: filePath });
+      });
+
+    return this.writeQueue;
+  }
+
+  /**
+   * Compute the match key for a request
+   */
+  private keyFor(kind: string, request: unknown): string {
+    return createHash('sha256').update(`${kind}:${stableStringify(request)}`).digest('hex');
+  }
+
+  /**
+   * Run an outbound call through the cassette
+   *
+   * @param kind Traffic category (e.g. 'http', 'v0', 'callback', 'svgl')
+   * @param request JSON-serializable description of the call, used for matching.
+   *                Must not contain secrets, as it is written to disk.
+   * @param perform Executes the real call (skipped in replay mode)
+   */
+  async run<T>(kind: string, request: unknown, perform: () => Promise<T>): Promise<T> {
+    if (this.mode === 'off') {
+      return perform();
+    }
+
+    await this.load();
+    const key = this.keyFor(kind, request);
+
+    if (this.mode === 'replay') {
+      // Identical requests replay their recorded results in order
+      const cursor = this.replayCursor.get(key) || 0;
+      const matches = this.interactions.filter((interaction) => interaction.key === key);
+      const interaction = matches[cursor];
+
+      if (!interaction) {
+        logger.warn('Cassette miss', { kind, request });
+        throw new AppError(
+          `No recorded ${kind} interaction in cassette for this request`,
+          500,
+          'CASSETTE_MISS',
+          { kind, request, recorded: matches.length }
+        );
+      }
+
+      this.replayCursor.set(key, cursor + 1);
+      logger.debug('Cassette replay', { kind, key });
+
+      if (interaction.error) {
+        throw deserializeError(interaction.error);
+      }
+      if (isRecordedStream(interaction.response)) {
+        return streamFromText(interaction.response.__stream) as unknown as T;
+      }
+      return interaction.response as T;
+    }
+
+    try {
+      let response: T = await perform();
+      let recordedResponse: unknown = response;
+
+      // Streams are buffered in full so they can be written to the cassette
+      if (response instanceof ReadableStream) {
+        const text = await new Response(response).text();
+        recordedResponse = { __stream: text } satisfies RecordedStream;
+        response = streamFromText(text) as unknown as T;
+      }
+
+      this.interactions.push({
+        key,
+        kind,
+        request,
+        response: recordedResponse,
+        recordedAt: new Date().toISOString(),
+      });
+      await this.persist();
+      return response;
+    } catch (error) {
+      this.interactions.push({
+        key,
+        kind,
+        request,
+        error: serializeError(error),
+        recordedAt: new Date().toISOString(),
+      });
+      await this.persist();
+      throw error;
+    }
+  }
+
+  /**
+   * Wrap an SDK client so every method call goes through the cassette
+   *
+   * Calls are keyed by their property path (e.g. 'chats.create') and arguments.
+   */
+  wrapClient<T extends object>(kind: string, client: T, prefix = ''): T {
+    if (this.mode === 'off') {
+      return client;
+    }
+
+    return new Proxy(client, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        const method = prefix ? `${prefix}.${String(property)}` : String(property);
+
+        if (typeof value === 'function') {
+          return (...args: unknown[]) =>
+            this.run(kind, { method, args }, () => value.apply(target, args));
+        }
+        if (value && typeof value === 'object') {
+          return this.wrapClient(kind, value, method);
+        }
+        return value;
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export const cassette = new Cassette(config.cassette.mode, config.cassette.path);
@@ -0,0 +1,180 @@
+/**
+ * Helpers for extracting fenced code blocks from markdown text
+ */
+
+export interface CodeBlock {
+  language: string;
+  content: string;
+  fileName?: string;
+}
+
+export interface ParsedFile {
+  name: string;
+  content: string;
+  path?: string;
+  language?: string;
+}
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})([^\n`]*)\n([\s\S]*?)\n?^\1[ \t]*$/gm;
+
+// Code blocks that are commands or prose rather than source files
+const NON_SOURCE_LANGUAGES = ['bash', 'sh', 'shell', 'zsh', 'console', 'text'];
+
+// Unfenced text that starts like a module is treated as a single source file
+const SOURCE_START_PATTERN = /^\s*(?:['"]use client['"]|import\s|export\s|const\s|function\s)/;
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  tsx: 'tsx',
+  typescript: 'ts',
+  ts: 'ts',
+  jsx: 'jsx',
+  javascript: 'js',
+  js: 'js',
+  css: 'css',
+  scss: 'scss',
+  html: 'html',
+  json: 'json',
+};
+
+/**
+ * Extract a file name from a fence info string
+ *
+ * Supports `tsx file="components/x.tsx"`, `tsx title=x.tsx`, `tsx:components/x.tsx`
+ * and `tsx components/x.tsx`.
+ */
+function parseInfoString(info: string): { language: string; fileName?: string } {
+  const trimmed = info.trim();
+  const attribute = trimmed.match(/\b(?:file|filename|title|path|name)=["']?([^"'\s]+)["']?/);
+  const [head, ...rest] = trimmed.split(/\s+/);
+  const [language, colonPath] = (head || '').split(':');
+
+  let fileName = attribute?.[1] || colonPath;
+  if (!fileName && rest.length > 0 && /\.\w+$/.test(rest[0]) && !rest[0].includes('=')) {
+    fileName = rest[0];
+  }
+
+  return { language: (language || '').toLowerCase(), fileName };
+}
+
+/**
+ * Extract a file path from a leading `// path/to/file.tsx` comment
+ */
+function parseLeadingPathComment(content: string): string | undefined {
+  const firstLine = content.split('\n', 1)[0].trim();
+  const match = firstLine.match(/^(?:\/\/|\/\*|<!--)\s*(?:file(?:name)?:\s*)?([\w@./-]+\.\w+)\s*(?:\*\/|-->)?$/i);
+  return match?.[1];
+}
+
+/**
+ * Infer a file extension from a code block language
+ */
+export function extensionForLanguage(language: string): string {
+  return LANGUAGE_EXTENSIONS[language.toLowerCase()] || 'tsx';
+}
+
+/**
+ * Infer a code block language from a file name
+ */
+export function languageForFile(fileName: string): string {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'tsx' || ext === 'ts') return 'tsx';
+  if (ext === 'jsx' || ext === 'js') return 'jsx';
+  if (ext === 'css') return 'css';
+  return 'text';
+}
+
+/**
+ * Parse all fenced code blocks from markdown text
+ */
+export function parseCodeBlocks(text: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+
+  for (const match of text.matchAll(FENCE_PATTERN)) {
+    const { language, fileName } = parseInfoString(match[2]);
+    const content = match[3];
+    blocks.push({
+      language,
+      content,
+      fileName: fileName || parseLeadingPathComment(content),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert code blocks into files, skipping shell snippets and inferring names where missing
+ */
+export function codeBlocksToFiles(blocks: CodeBlock[], defaultBaseName = 'component'): ParsedFile[] {
+  const usedNames = new Set<string>();
+
+  return blocks
+    .filter((block) => !NON_SOURCE_LANGUAGES.includes(block.language))
+    .map((block, index) => {
+      let name: string;
+      if (block.fileName) {
+        name = block.fileName.split('/').pop() as string;
+      } else {
+        const suffix = index === 0 ? '' : `-${index + 1}`;
+        name = `${defaultBaseName}${suffix}.${extensionForLanguage(block.language)}`;
+      }
+
+      while (usedNames.has(name)) {
+        name = name.replace(/(\.\w+)$/, `-${usedNames.size + 1}$1`);
+      }
+      usedNames.add(name);
+
+      return {
+        name,
+        content: block.content,
+        path: block.fileName,
+        language: block.language || languageForFile(name),
+      };
+    });
+}
+
+/**
+ * Extract the prose around code blocks as instructions
+ *
+ * Source code blocks are removed (they are returned as files); shell
+ * snippets such as install commands are kept.
+ */
+export function extractInstructions(text: string): string | undefined {
+  const stripped = text.replace(FENCE_PATTERN, (block, _fence: string, info: string) =>
+    NON_SOURCE_LANGUAGES.includes(parseInfoString(info).language) ? block : ''
+  );
+  const cleaned = stripped.replace(/\n{3,}/g, '\n\n').trim();
+  return cleaned || undefined;
+}
+
+/**
+ * Split a provider text response into source files and instructions
+ *
+ * Text without fenced code blocks that looks like source code (e.g. a raw
+ * component posted by the 21st.dev callback) becomes a single file.
+ */
+export function parseStructuredResponse(
+  text: string,
+  defaultBaseName = 'component'
+): { files: ParsedFile[]; instructions?: string } {
+  const blocks = parseCodeBlocks(text);
+
+  if (blocks.length > 0) {
+    return {
+      files: codeBlocksToFiles(blocks, defaultBaseName),
+      instructions: extractInstructions(text),
+    };
+  }
+
+  if (SOURCE_START_PATTERN.test(text)) {
+    const content = text.trim();
+    return {
+      files: codeBlocksToFiles(
+        [{ language: 'tsx', content, fileName: parseLeadingPathComment(content) }],
+        defaultBaseName
+      ),
+    };
+  }
+
+  return { files: [], instructions: text.trim() || undefined };
+}
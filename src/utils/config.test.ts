@@ -0,0 +1,58 @@
+import { loadConfig, validateConfig } from './config.js';
+
+describe('configuration', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      AUTH_ENABLED: 'false',
+      UI_PROVIDER: 'local',
+      LOCAL_TEMPLATES_DIR: '/templates',
+    };
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  /**
+   * Load and validate the configuration of the current environment
+   */
+  function load() {
+    const config = loadConfig();
+    validateConfig(config);
+    return config;
+  }
+
+  it('loads a valid environment', () => {
+    process.env.UI_PROVIDER_PLUGINS = '[{"module":"./plugins/design-system.js"}]';
+
+    expect(load().uiProvider.plugins).toEqual([{ module: './plugins/design-system.js' }]);
+  });
+
+  it('reports unreadable or invalid provider plugins as validation errors', () => {
+    for (const [value, message] of [
+      ['/missing/plugins.json', 'UI_PROVIDER_PLUGINS must be a JSON array or the path to a JSON file'],
+      ['[{"module":', 'UI_PROVIDER_PLUGINS must be a JSON array or the path to a JSON file'],
+      ['{"module":"./plugins/design-system.js"}', 'UI_PROVIDER_PLUGINS must be a JSON array'],
+    ]) {
+      process.env.UI_PROVIDER_PLUGINS = value;
+
+      expect(loadConfig().uiProvider.plugins).toEqual([]);
+      expect(load).toThrow('Configuration validation failed');
+      expect(load).toThrow(message);
+    }
+  });
+
+  it('reports invalid rate limit rules as validation errors', () => {
+    process.env.RATE_LIMITS = '/api/create-ui=10/min,/api/refine-ui=5/week,*=lots';
+
+    expect(loadConfig().rateLimit.rules).toEqual([{ route: '/api/create-ui', limit: 10, windowMs: 60000 }]);
+    expect(load).toThrow(
+      'Configuration validation failed:\n' +
+      'Invalid RATE_LIMITS entry "/api/refine-ui=5/week", expected <route>=<limit>/<s|min|h|day>\n' +
+      'Invalid RATE_LIMITS entry "*=lots", expected <route>=<limit>/<s|min|h|day>'
+    );
+  });
+});
@@ -2,7 +2,9 @@
  * Configuration management for Magic MCP Server
  */
 
-import { Config } from '../types/index.js';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Config, ProviderPluginConfig, RateLimitRule } from '../types/index.js';
 
 /**
  * Parse command-line arguments for API key
@@ -53,15 +55,77 @@ function parseJSON<T>(value: string | undefined, fallback: T): T {
   }
 }
 
+/**
+ * Parse UI provider plugin configuration
+ *
+ * Accepts either a JSON array or a path to a JSON file containing one.
+ * Invalid values load no plugins and are reported to `errors`, so
+ * validateConfig can report them.
+ */
+function parseProviderPlugins(value: string | undefined, errors: string[] = []): ProviderPluginConfig[] {
+  if (!value) return [];
+
+  const trimmed = value.trim();
+  let plugins: unknown;
+  try {
+    plugins = JSON.parse(trimmed.startsWith('[') ? trimmed : readFileSync(trimmed, 'utf-8'));
+  } catch (error) {
+    errors.push(`UI_PROVIDER_PLUGINS must be a JSON array or the path to a JSON file: ${
+      error instanceof Error ? error.message : 'Unknown error'
+    }`);
+    return [];
+  }
+
+  if (!Array.isArray(plugins)) {
+    errors.push('UI_PROVIDER_PLUGINS must be a JSON array');
+    return [];
+  }
+  return plugins;
+}
+
+const RATE_LIMIT_WINDOWS: Record<string, number> = {
+  s: 1000,
+  sec: 1000,
+  min: 60 * 1000,
+  h: 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_RATE_LIMITS = '/api/create-ui=10/min,/api/compare-ui=2/min,/api/refine-ui=20/min,*=120/min';
+
+/**
+ * Parse rate limit rules
+ *
+ * Comma-separated `<route>=<limit>/<window>` entries, e.g.
+ * `/api/create-ui=10/min,*=120/min`. Windows: s, min, h (or hour), day.
+ * Invalid entries are skipped and reported to `errors`, so validateConfig
+ * can report them.
+ */
+function parseRateLimits(value: string, errors: string[] = []): RateLimitRule[] {
+  return parseList(value).flatMap((entry) => {
+    const match = entry.match(/^(.+)=(\d+)\/(\w+)$/);
+    const windowMs = match && RATE_LIMIT_WINDOWS[match[3]];
+    if (!match || !windowMs) {
+      errors.push(`Invalid RATE_LIMITS entry "${entry}", expected <route>=<limit>/<s|min|h|day>`);
+      return [];
+    }
+    return [{ route: match[1].trim(), limit: parseInt(match[2], 10), windowMs }];
+  });
+}
+
 /**
  * Load configuration from environment variables and command-line arguments
  */
 export function loadConfig(): Config {
   const cliArgs = parseArguments();
 
-  const providerType = (process.env.UI_PROVIDER || 'magic') as 'magic' | 'v0';
+  const providerChain = parseList(process.env.UI_PROVIDER || 'magic');
+  const providerType = providerChain[0] || 'magic';
   const magicApiKey = cliArgs.apiKey || process.env.TWENTY_FIRST_API_KEY || process.env.API_KEY;
   const v0ApiKey = process.env.V0_API_KEY;
+  const localTemplatesDir = process.env.LOCAL_TEMPLATES_DIR;
+  const openaiBaseUrl = process.env.OPENAI_BASE_URL;
 
   return {
     // Server configuration
@@ -77,14 +141,32 @@ export function loadConfig(): Config {
     // UI Provider configuration
     uiProvider: {
       type: providerType,
+      providers: providerChain.length > 0 ? providerChain : [providerType],
       magic: magicApiKey ? {
         apiKey: magicApiKey,
         baseUrl: process.env.BASE_URL ||
           (process.env.DEBUG === 'true' ? 'http://localhost:3005' : 'https://magic.21st.dev'),
+        headless: process.env.MAGIC_HEADLESS === 'true',
+        relayPort: parseInt(process.env.MAGIC_RELAY_PORT || process.env.PORT || '3000', 10),
+        publicUrl: (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/+$/, ''),
       } : undefined,
       v0: v0ApiKey ? {
         apiKey: v0ApiKey,
       } : undefined,
+      local: localTemplatesDir ? {
+        templatesDir: localTemplatesDir,
+      } : undefined,
+      openai: openaiBaseUrl ? {
+        baseUrl: openaiBaseUrl,
+        model: process.env.OPENAI_MODEL || '',
+        apiKey: process.env.OPENAI_API_KEY,
+        timeout: parseInt(process.env.OPENAI_TIMEOUT || '120000', 10),
+        maxInputSize: process.env.OPENAI_MAX_INPUT_SIZE
+          ? parseInt(process.env.OPENAI_MAX_INPUT_SIZE, 10)
+          : undefined,
+      } : undefined,
+      plugins: parseProviderPlugins(process.env.UI_PROVIDER_PLUGINS),
+      compareTimeout: parseInt(process.env.COMPARE_TIMEOUT || '120000', 10),
     },
 
     // Authentication configuration
@@ -92,6 +174,7 @@ export function loadConfig(): Config {
       enabled: process.env.AUTH_ENABLED !== 'false',
       methods: parseList(process.env.AUTH_METHODS || 'api-key') as ('api-key' | 'oidc' | 'basic')[],
       apiKeys: parseList(process.env.AUTH_API_KEYS),
+      adminPrincipals: parseList(process.env.ADMIN_PRINCIPALS),
       oidc: process.env.OIDC_ISSUER ? {
         issuer: process.env.OIDC_ISSUER,
         clientId: process.env.OIDC_CLIENT_ID || '',
@@ -104,12 +187,91 @@ export function loadConfig(): Config {
       } : undefined,
     },
 
+    // Response cache configuration
+    cache: {
+      enabled: process.env.CACHE_ENABLED !== 'false',
+      maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500', 10),
+      path: process.env.CACHE_PATH,
+      ttl: {
+        fetchUi: parseInt(process.env.CACHE_TTL_FETCH_UI || '3600000', 10),
+        refineUi: parseInt(process.env.CACHE_TTL_REFINE_UI || '600000', 10),
+        logoSearch: parseInt(process.env.CACHE_TTL_LOGO_SEARCH || '86400000', 10),
+      },
+    },
+
+    // Rate limiting and quota configuration
+    rateLimit: {
+      enabled: process.env.RATE_LIMIT_ENABLED === 'true',
+      rules: parseRateLimits(process.env.RATE_LIMITS || DEFAULT_RATE_LIMITS),
+      quota: {
+        daily: parseInt(process.env.QUOTA_DAILY || '0', 10),
+        monthly: parseInt(process.env.QUOTA_MONTHLY || '0', 10),
+      },
+      store: (process.env.RATE_LIMIT_STORE || 'memory') as 'memory' | 'file',
+      storePath: process.env.RATE_LIMIT_STORE_PATH,
+    },
+
+    // Session store configuration
+    sessions: {
+      path: process.env.SESSION_STORE_PATH,
+      maxSessions: parseInt(process.env.SESSION_MAX || '1000', 10),
+    },
+
+    // Usage accounting configuration
+    usage: {
+      enabled: process.env.USAGE_ENABLED !== 'false',
+      path: process.env.USAGE_PATH,
+      retentionDays: parseInt(process.env.USAGE_RETENTION_DAYS || '90', 10),
+    },
+
+    // File access sandbox
+    files: {
+      roots: parseList(process.env.ALLOWED_ROOTS).length > 0
+        ? parseList(process.env.ALLOWED_ROOTS)
+        : [process.cwd()],
+      denyPatterns: parseList(
+        process.env.FILE_DENY_PATTERNS ||
+          '.env,.env.*,*.pem,*.key,*.p12,*.pfx,id_rsa*,id_dsa*,id_ecdsa*,id_ed25519*,.npmrc,.netrc,.pypirc,.git-credentials,.ssh,.aws,.gnupg'
+      ),
+      maxFileSize: parseInt(process.env.FILE_MAX_SIZE || '1048576', 10),
+    },
+
+    // Type-checking of generated files
+    typecheck: {
+      enabled: process.env.TYPECHECK_ENABLED === 'true',
+      autoFix: process.env.TYPECHECK_AUTOFIX === 'true',
+      maxDiagnostics: parseInt(process.env.TYPECHECK_MAX_DIAGNOSTICS || '20', 10),
+    },
+
+    // Formatting of generated files
+    format: {
+      enabled: process.env.FORMAT_ENABLED === 'true',
+      eslint: process.env.FORMAT_ESLINT === 'true',
+      trustProject: process.env.FORMAT_TRUST_PROJECT === 'true',
+    },
+
+    // Outbound HTTP resilience
+    outbound: {
+      timeout: parseInt(process.env.HTTP_TIMEOUT || '30000', 10),
+      retries: parseInt(process.env.HTTP_RETRIES || '2', 10),
+      backoffBase: parseInt(process.env.HTTP_BACKOFF_BASE || '500', 10),
+      backoffMax: parseInt(process.env.HTTP_BACKOFF_MAX || '10000', 10),
+      breakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+      breakerResetTimeout: parseInt(process.env.CIRCUIT_BREAKER_RESET || '30000', 10),
+    },
+
     // Callback server configuration
     callbackServer: {
       startPort: parseInt(process.env.CALLBACK_START_PORT || '9221', 10),
       timeout: parseInt(process.env.CALLBACK_TIMEOUT || '600000', 10),
     },
 
+    // Record/replay configuration
+    cassette: {
+      mode: process.env.PROVIDER_REPLAY ? 'replay' : process.env.PROVIDER_RECORD ? 'record' : 'off',
+      path: process.env.PROVIDER_REPLAY || process.env.PROVIDER_RECORD,
+    },
+
     // Logging configuration
     logging: {
       level: (process.env.LOG_LEVEL || 'info') as 'debug' | 'info' | 'warn' | 'error',
@@ -128,15 +290,111 @@ export function validateConfig(config: Config): void {
     errors.push('Port must be between 1 and 65535');
   }
 
-  // Validate UI provider configuration
-  if (config.uiProvider.type === 'magic' && !config.uiProvider.magic) {
+  // Validate UI provider configuration (plugin types are checked once plugins are loaded)
+  parseProviderPlugins(process.env.UI_PROVIDER_PLUGINS, errors);
+  for (const [index, plugin] of config.uiProvider.plugins.entries()) {
+    if (!plugin || typeof plugin.module !== 'string' || !plugin.module) {
+      errors.push(`UI_PROVIDER_PLUGINS entry ${index} is missing a "module"`);
+    }
+  }
+
+  if (config.uiProvider.providers.includes('magic') && !config.uiProvider.magic) {
     errors.push('Magic UI provider selected but not configured (missing API key)');
   }
 
-  if (config.uiProvider.type === 'v0' && !config.uiProvider.v0) {
+  if (config.uiProvider.providers.includes('v0') && !config.uiProvider.v0) {
     errors.push('v0 provider selected but not configured (missing V0_API_KEY)');
   }
 
+  if (config.uiProvider.providers.includes('local') && !config.uiProvider.local) {
+    errors.push('Local template provider selected but not configured (missing LOCAL_TEMPLATES_DIR)');
+  }
+
+  if (config.uiProvider.providers.includes('openai') && !config.uiProvider.openai) {
+    errors.push('OpenAI-compatible provider selected but not configured (missing OPENAI_BASE_URL)');
+  }
+
+  if (config.uiProvider.magic?.headless && config.mode === 'stdio') {
+    errors.push('MAGIC_HEADLESS requires the HTTP server (SERVER_MODE=http or dual) to receive results');
+  }
+
+  if (config.uiProvider.openai && !config.uiProvider.openai.model) {
+    errors.push('OpenAI-compatible provider configured but OPENAI_MODEL is missing');
+  }
+
+  if (!(config.uiProvider.compareTimeout > 0)) {
+    errors.push('COMPARE_TIMEOUT must be a positive number of milliseconds');
+  }
+
+  if (config.cache.enabled && !(config.cache.maxEntries > 0)) {
+    errors.push('CACHE_MAX_ENTRIES must be a positive number');
+  }
+
+  if (Object.values(config.cache.ttl).some((ttl) => !(ttl >= 0))) {
+    errors.push('CACHE_TTL_* values must be non-negative numbers of milliseconds');
+  }
+
+  if (!['memory', 'file'].includes(config.rateLimit.store)) {
+    errors.push('RATE_LIMIT_STORE must be \'memory\' or \'file\'');
+  }
+
+  if (config.rateLimit.store === 'file' && !config.rateLimit.storePath) {
+    errors.push('RATE_LIMIT_STORE=file requires RATE_LIMIT_STORE_PATH');
+  }
+
+  parseRateLimits(process.env.RATE_LIMITS || DEFAULT_RATE_LIMITS, errors);
+  if (config.rateLimit.rules.some((rule) => rule.limit < 1)) {
+    errors.push('RATE_LIMITS limits must be at least 1');
+  }
+
+  if (!(config.rateLimit.quota.daily >= 0) || !(config.rateLimit.quota.monthly >= 0)) {
+    errors.push('QUOTA_DAILY and QUOTA_MONTHLY must be non-negative numbers');
+  }
+
+  if (!(config.sessions.maxSessions > 0)) {
+    errors.push('SESSION_MAX must be a positive number');
+  }
+
+  if (!(config.usage.retentionDays >= 0)) {
+    errors.push('USAGE_RETENTION_DAYS must be a non-negative number');
+  }
+
+  if (config.files.roots.some((root) => !path.isAbsolute(root))) {
+    errors.push('ALLOWED_ROOTS must be absolute paths');
+  }
+
+  if (!(config.files.maxFileSize > 0)) {
+    errors.push('FILE_MAX_SIZE must be a positive number of bytes');
+  }
+
+  if (!(config.typecheck.maxDiagnostics > 0)) {
+    errors.push('TYPECHECK_MAX_DIAGNOSTICS must be a positive number');
+  }
+
+  if (!(config.outbound.timeout > 0)) {
+    errors.push('HTTP_TIMEOUT must be a positive number of milliseconds');
+  }
+
+  if (!(config.outbound.retries >= 0)) {
+    errors.push('HTTP_RETRIES must be a non-negative number');
+  }
+
+  if (!(config.outbound.backoffBase >= 0) || !(config.outbound.backoffMax >= config.outbound.backoffBase)) {
+    errors.push('HTTP_BACKOFF_BASE must be non-negative and not greater than HTTP_BACKOFF_MAX');
+  }
+
+  if (!(config.outbound.breakerThreshold >= 1) || !(config.outbound.breakerResetTimeout > 0)) {
+    errors.push('CIRCUIT_BREAKER_THRESHOLD must be at least 1 and CIRCUIT_BREAKER_RESET positive');
+  }
+
+  if (new Set(config.uiProvider.providers).size !== config.uiProvider.providers.length) {
+    errors.push('UI_PROVIDER must not list the same provider more than once');
+  }
+
+  if (process.env.PROVIDER_RECORD && process.env.PROVIDER_REPLAY) {
+    errors.push('PROVIDER_RECORD and PROVIDER_REPLAY cannot be set at the same time');
+  }
+
   if (config.auth.enabled) {
     if (config.auth.methods.length === 0) {
       errors.push('At least one authentication method must be enabled');
@@ -0,0 +1,24 @@
+import { toCsv } from './csv.js';
+
+describe('toCsv', () => {
+  it('formats the given columns in order with a header line', () => {
+    const rows = [
+      { principal: 'basic:alice', calls: 3, chatId: 'chat_1' },
+      { principal: 'basic:bob', calls: 1 },
+    ];
+
+    expect(toCsv(rows, ['principal', 'calls', 'chatId'])).toBe(
+      'principal,calls,chatId\r\nbasic:alice,3,chat_1\r\nbasic:bob,1,\r\n'
+    );
+  });
+
+  it('quotes values with delimiters, quotes or line breaks', () => {
+    const rows = [{ text: 'a,b' }, { text: 'say "hi"' }, { text: 'two\nlines' }, { text: false }];
+
+    expect(toCsv(rows, ['text'])).toBe('text\r\n"a,b"\r\n"say ""hi"""\r\n"two\nlines"\r\nfalse\r\n');
+  });
+
+  it('returns only the header without rows', () => {
+    expect(toCsv<{ id: string }>([], ['id'])).toBe('id\r\n');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * CSV formatting utilities
+ */
+
+/**
+ * Quote a value when it contains a delimiter, quote or line break
+ */
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as RFC 4180 CSV with a header line
+ *
+ * @param columns Keys to include, in order
+ */
+export function toCsv<T extends object>(rows: T[], columns: Array<keyof T & string>): string {
+  const lines = [columns.join(',')];
+
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvValue(row[column])).join(','));
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
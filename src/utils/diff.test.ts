@@ -0,0 +1,121 @@
+import { createUnifiedDiff, diffHunks, diffStats, DiffHunk } from './diff.js';
+
+/**
+ * Apply hunks to a text the way `patch` would, to check that diffs round-trip
+ */
+function applyHunks(oldText: string, hunks: DiffHunk[]): string {
+  const oldLines = oldText.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const result: string[] = [];
+  let next = 0;
+
+  for (const hunk of hunks) {
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    result.push(...oldLines.slice(next, start));
+    next = start;
+
+    for (const [index, line] of hunk.lines.entries()) {
+      if (line.startsWith('\\')) continue;
+      const ending = hunk.lines[index + 1]?.startsWith('\\') ? '' : '\n';
+      if (line[0] !== '+') next++;
+      if (line[0] !== '-') result.push(line.slice(1) + ending);
+    }
+  }
+
+  return [...result, ...oldLines.slice(next)].join('');
+}
+
+const lines = (count: number, label: string) =>
+  Array.from({ length: count }, (_, index) => `${label} ${index}\n`).join('');
+
+describe('diff', () => {
+  it('returns no hunks for identical texts', () => {
+    expect(diffHunks('a\nb\n', 'a\nb\n')).toEqual([]);
+    expect(createUnifiedDiff('a/x', 'b/x', 'a\n', 'a\n')).toBe('');
+  });
+
+  it('creates a unified diff with context', () => {
+    const diff = createUnifiedDiff('a/button.tsx', 'b/button.tsx', 'one\ntwo\nthree\n', 'one\n2\nthree\n');
+
+    expect(diff).toBe([
+      '--- a/button.tsx',
+      '+++ b/button.tsx',
+      '@@ -1,3 +1,3 @@',
+      ' one',
+      '-two',
+      '+2',
+      ' three',
+      '',
+    ].join('\n'));
+  });
+
+  it('starts empty ranges at the line before them', () => {
+    const [hunk] = diffHunks('a\nb\n', 'a\nb\nc\n', 0);
+
+    expect(hunk.header).toBe('@@ -2,0 +3,1 @@');
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const oldText = lines(20, 'line');
+    const newText = oldText.replace('line 2\n', 'changed 2\n').replace('line 17\n', 'changed 17\n');
+
+    const hunks = diffHunks(oldText, newText);
+
+    expect(hunks.map((hunk) => hunk.header)).toEqual(['@@ -1,6 +1,6 @@', '@@ -15,6 +15,6 @@']);
+    expect(applyHunks(oldText, hunks)).toBe(newText);
+  });
+
+  it('counts added and removed lines', () => {
+    expect(diffStats('a\nb\nc\n', 'a\nc\nd\ne\n')).toEqual({ additions: 2, deletions: 1 });
+    expect(diffStats('', 'a\n')).toEqual({ additions: 1, deletions: 0 });
+  });
+
+  it('marks lines without a trailing newline', () => {
+    const hunks = diffHunks('a\nb', 'a\nb\n');
+
+    expect(hunks[0].lines).toEqual([' a', '-b', '\\ No newline at end of file', '+b']);
+    expect(applyHunks('a\nb', hunks)).toBe('a\nb\n');
+    expect(applyHunks('a\nb\n', diffHunks('a\nb\n', 'a\nc'))).toBe('a\nc');
+  });
+
+  it('preserves CRLF line endings', () => {
+    const oldText = 'one\r\ntwo\r\nthree\r\n';
+    const newText = 'one\r\n2\r\nthree\r\n';
+
+    const hunks = diffHunks(oldText, newText);
+
+    expect(hunks[0].lines).toEqual([' one\r', '-two\r', '+2\r', ' three\r']);
+    expect(applyHunks(oldText, hunks)).toBe(newText);
+  });
+
+  it('reports line ending changes', () => {
+    expect(diffStats('a\nb\n', 'a\r\nb\r\n')).toEqual({ additions: 2, deletions: 2 });
+  });
+
+  it('round-trips edits between arbitrary texts', () => {
+    const oldText = 'a\nb\nc\nd\ne\nf\ng\n';
+    const newText = 'x\nb\nc\ny\ne\nz\ng\nh';
+
+    expect(applyHunks(oldText, diffHunks(oldText, newText, 1))).toBe(newText);
+    expect(applyHunks(newText, diffHunks(newText, oldText, 1))).toBe(oldText);
+  });
+
+  it('replaces the whole text of very different large files', () => {
+    const oldText = lines(5000, 'old');
+    const newText = lines(5000, 'new');
+
+    const startedAt = Date.now();
+    const hunks = diffHunks(oldText, newText);
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toEqual(expect.objectContaining({ additions: 5000, deletions: 5000 }));
+    expect(applyHunks(oldText, hunks)).toBe(newText);
+  });
+
+  it('diffs small changes in large files line by line', () => {
+    const oldText = lines(20000, 'line');
+    const newText = oldText.replace('line 100\n', 'changed\n').replace('line 19000\n', '');
+
+    expect(diffStats(oldText, newText)).toEqual({ additions: 1, deletions: 2 });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Line-based text diffing with unified diff output
+ */
+
+type DiffOp = { type: 'equal' | 'insert' | 'delete'; line: string };
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * A hunk of a unified diff; line numbers are 1-based
+ */
+export interface DiffHunk extends DiffStats {
+  header: string; // e.g. '@@ -3,7 +3,8 @@'
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Hunk body, each line prefixed with ' ', '+' or '-' as in `diff -u`: CRLF lines keep
+  // their '\r' and a line without a newline is followed by '\ No newline at end of file'
+  lines: string[];
+}
+
+/**
+ * Largest edit distance computed line by line; beyond it, texts are diffed as a
+ * whole-file replacement to bound time and memory (O(D²) for the trace)
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Split text into lines, each keeping its line ending (the last one may have none)
+ *
+ * Lines are compared with their endings, so CRLF and end-of-file newline
+ * changes show up in diffs.
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Compute an edit script between two line arrays
+ *
+ * The common prefix and suffix are matched first; the rest is diffed with
+ * Myers' algorithm, or replaced as a whole beyond MAX_EDIT_DISTANCE.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = shortestEdit(middleA, middleB) ?? [
+    ...middleA.map((line): DiffOp => ({ type: 'delete', line })),
+    ...middleB.map((line): DiffOp => ({ type: 'insert', line })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((line): DiffOp => ({ type: 'equal', line })),
+    ...middle,
+    ...a.slice(endA).map((line): DiffOp => ({ type: 'equal', line })),
+  ];
+}
+
+/**
+ * Compute the shortest edit script between two line arrays (Myers' algorithm)
+ *
+ * @returns undefined if the edit distance exceeds MAX_EDIT_DISTANCE
+ */
+function shortestEdit(a: string[], b: string[]): DiffOp[] | undefined {
+  const n = a.length;
+  const m = b.length;
+
+  // trace[d][k + d] is the furthest x reached on diagonal k with d edits
+  const trace: Int32Array[] = [];
+  const furthest = (d: number, k: number) => trace[d][k + d];
+  const movesDown = (d: number, k: number) =>
+    k === -d || (k !== d && furthest(d - 1, k - 1) < furthest(d - 1, k + 1));
+
+  let found = false;
+  for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE) && !found; d++) {
+    const v = new Int32Array(2 * d + 1);
+    trace.push(v);
+    for (let k = -d; k <= d; k += 2) {
+      let x = d === 0 ? 0 : movesDown(d, k) ? furthest(d - 1, k + 1) : furthest(d - 1, k - 1) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + d] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) {
+    return undefined;
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const k = x - y;
+    const prevK = movesDown(d, k) ? k + 1 : k - 1;
+    const prevX = furthest(d - 1, prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: 'insert', line: b[--y] });
+    } else {
+      ops.push({ type: 'delete', line: a[--x] });
+    }
+  }
+  while (x > 0) {
+    ops.push({ type: 'equal', line: a[--x] });
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Count added and removed lines between two texts
+ */
+export function diffStats(oldText: string, newText: string): DiffStats {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  return {
+    additions: ops.filter((op) => op.type === 'insert').length,
+    deletions: ops.filter((op) => op.type === 'delete').length,
+  };
+}
+
+/**
+ * Hunk lines of an op, without its line feed; a line without one is followed
+ * by the '\ No newline at end of file' marker
+ */
+function formatLine(op: DiffOp): string[] {
+  const prefix = op.type === 'insert' ? '+' : op.type === 'delete' ? '-' : ' ';
+  return op.line.endsWith('\n')
+    ? [`${prefix}${op.line.slice(0, -1)}`]
+    : [`${prefix}${op.line}`, NO_NEWLINE_MARKER];
+}
+
+/**
+ * Group an edit script into hunks with their line ranges in both texts
+ */
+function computeHunks(ops: DiffOp[], context: number): DiffHunk[] {
+  // Track line numbers of every op in both texts
+  const positions: Array<{ oldLine: number; newLine: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    positions.push({ oldLine, newLine });
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  // Group changes into hunks, merging those whose context overlaps
+  const ranges: Array<{ start: number; end: number }> = [];
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  return ranges.map(({ start, end }) => {
+    const slice = ops.slice(start, end + 1);
+    const oldLines = slice.filter((op) => op.type !== 'insert').length;
+    const newLines = slice.filter((op) => op.type !== 'delete').length;
+    // Empty ranges start at the line before them, as in `diff -u`
+    const oldStart = oldLines === 0 ? positions[start].oldLine - 1 : positions[start].oldLine;
+    const newStart = newLines === 0 ? positions[start].newLine - 1 : positions[start].newLine;
+
+    return {
+      header: `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`,
+      oldStart,
+      oldLines,
+      newStart,
+      newLines,
+      additions: slice.filter((op) => op.type === 'insert').length,
+      deletions: slice.filter((op) => op.type === 'delete').length,
+      lines: slice.flatMap((op) => formatLine(op)),
+    };
+  });
+}
+
+/**
+ * Split the changes between two texts into unified diff hunks
+ *
+ * @param context Number of unchanged lines around each change
+ */
+export function diffHunks(oldText: string, newText: string, context = 3): DiffHunk[] {
+  return computeHunks(diffLines(splitLines(oldText), splitLines(newText)), context);
+}
+
+/**
+ * Create a unified diff between two texts
+ *
+ * Returns an empty string when the texts are identical.
+ *
+ * @param oldName Label for the original text (e.g. 'a/button.tsx')
+ * @param newName Label for the updated text (e.g. 'b/button.tsx')
+ * @param context Number of unchanged lines around each change
+ */
+export function createUnifiedDiff(
+  oldName: string,
+  newName: string,
+  oldText: string,
+  newText: string,
+  context = 3
+): string {
+  return formatUnifiedDiff(oldName, newName, diffHunks(oldText, newText, context));
+}
+
+/**
+ * Format hunks as a unified diff
+ *
+ * Returns an empty string when there are no hunks.
+ */
+export function formatUnifiedDiff(oldName: string, newName: string, hunks: DiffHunk[]): string {
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const lines = [`--- ${oldName}`, `+++ ${newName}`];
+  for (const hunk of hunks) {
+    lines.push(hunk.header, ...hunk.lines);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -50,3 +50,9 @@ export class TimeoutError extends AppError {
     super(message, 504, 'TIMEOUT_ERROR');
   }
 }
+
+export class RateLimitError extends AppError {
+  constructor(message: string, public retryAfter: number, details?: any) {
+    super(message, 429, 'RATE_LIMIT_EXCEEDED', { retryAfter, ...details });
+  }
+}
@@ -1,17 +1,24 @@
 /**
- * HTTP client for communicating with 21st.dev API
+ * HTTP client for communicating with 21st.dev and other upstream APIs
+ *
+ * Requests go through the shared outbound client, so they get retries,
+ * backoff and circuit breaking.
  */
 
 import { config } from './config.js';
 import { logger } from './logger.js';
 import { ExternalServiceError } from './errors.js';
+import { cassette } from './cassette.js';
+import { outboundClient } from './outbound-client.js';
 
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
 interface HttpClientConfig {
   baseUrl: string;
   apiKey?: string;
-  timeout?: number;
+  timeout?: number; // Defaults to HTTP_TIMEOUT
+  serviceName?: string;
+  headers?: Record<string, string>;
 }
 
 interface HttpResponse<T> {
@@ -25,7 +32,7 @@ class HttpClient {
 
   constructor(config: HttpClientConfig) {
     this.config = {
-      timeout: 30000,
+      serviceName: '21st.dev',
       ...config,
     };
   }
@@ -35,50 +42,78 @@ class HttpClient {
     endpoint: string,
     data?: unknown,
     options: RequestInit = {}
+  ): Promise<HttpResponse<T>> {
+    // Credentials are sent as headers and are deliberately not part of the recorded request
+    const recorded = await cassette.run(
+      'http',
+      { method, url: `${this.config.baseUrl}${endpoint}`, body: data ?? null },
+      async () => {
+        const response = await this.send<T>(method, endpoint, data, options);
+        return {
+          status: response.status,
+          data: response.data,
+          headers: Object.fromEntries(response.headers.entries()),
+        };
+      }
+    );
+
+    return {
+      status: recorded.status,
+      data: recorded.data,
+      headers: new Headers(recorded.headers),
+    };
+  }
+
+  private async send<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data?: unknown,
+    options: RequestInit = {}
   ): Promise<HttpResponse<T>> {
     const url = `${this.config.baseUrl}${endpoint}`;
+    const service = this.config.serviceName as string;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'User-Agent': 'Magic-MCP-Server/1.0',
       ...(this.config.apiKey ? { 'x-api-key': this.config.apiKey } : {}),
+      ...this.config.headers,
       ...options.headers as Record<string, string>,
     };
 
     logger.debug(`HTTP ${method} ${url}`, { endpoint, method });
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
-
-    try {
-      const response = await fetch(url, {
+    // Timeouts, network failures and open circuits surface as ExternalServiceError
+    const response = await outboundClient.fetch(
+      url,
+      {
         ...options,
         method,
         headers,
-        signal: controller.signal,
         ...(data ? { body: JSON.stringify(data) } : {}),
-      });
-
-      clearTimeout(timeoutId);
-
-      logger.debug(`HTTP ${method} ${url} - ${response.status}`, {
-        endpoint,
-        method,
-        status: response.status,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        throw new ExternalServiceError(
-          `21st.dev API request failed: ${response.status} ${response.statusText}`,
-          '21st.dev',
-          {
-            status: response.status,
-            statusText: response.statusText,
-            response: errorText,
-          }
-        );
-      }
+      },
+      { service, timeout: this.config.timeout }
+    );
+
+    logger.debug(`HTTP ${method} ${url} - ${response.status}`, {
+      endpoint,
+      method,
+      status: response.status,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new ExternalServiceError(
+        `${service} API request failed: ${response.status} ${response.statusText}`,
+        service,
+        {
+          status: response.status,
+          statusText: response.statusText,
+          response: errorText,
+        }
+      );
+    }
 
+    try {
       const responseData = await response.json() as T;
 
       return {
@@ -87,31 +122,13 @@ class HttpClient {
         headers: response.headers,
       };
     } catch (error) {
-      clearTimeout(timeoutId);
-
       if (error instanceof ExternalServiceError) {
-        throw error;
+        throw error; // Body timed out
       }
-
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new ExternalServiceError(
-            'Request to 21st.dev API timed out',
-            '21st.dev',
-            { timeout: this.config.timeout }
-          );
-        }
-
-        throw new ExternalServiceError(
-          `Failed to communicate with 21st.dev API: ${error.message}`,
-          '21st.dev',
-          { originalError: error.message }
-        );
-      }
-
       throw new ExternalServiceError(
-        'Unknown error communicating with 21st.dev API',
-        '21st.dev'
+        `Failed to communicate with ${service} API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        service,
+        { originalError: error instanceof Error ? error.message : 'Unknown error' }
       );
     }
   }
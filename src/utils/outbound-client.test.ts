@@ -0,0 +1,156 @@
+import { OutboundClient } from './outbound-client.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+/**
+ * Fake fetch answering each call with the next of the given responses
+ */
+function fakeFetch(...responses: Array<() => Response>) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    return next();
+  });
+}
+
+const status = (code: number, headers: Record<string, string> = {}) => () => new Response(null, { status: code, headers });
+
+/**
+ * Fake fetch that answers with headers, then stalls the body until the request is aborted
+ */
+function stalledBody(_url: unknown, init?: RequestInit): Promise<Response> {
+  const body = new ReadableStream<Uint8Array>({
+    start(stream) {
+      stream.enqueue(new TextEncoder().encode('{"partial":'));
+      init?.signal?.addEventListener('abort', () => stream.error(new Error('This operation was aborted')));
+    },
+  });
+  return Promise.resolve(new Response(body, { status: 200 }));
+}
+
+describe('OutboundClient', () => {
+  const outbound = { ...config.outbound };
+  let client: OutboundClient;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    Object.assign(config.outbound, {
+      timeout: 1000,
+      retries: 2,
+      backoffBase: 100,
+      backoffMax: 5000,
+      breakerThreshold: 3,
+      breakerResetTimeout: 30000,
+    });
+    client = new OutboundClient();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    Object.assign(config.outbound, outbound);
+  });
+
+  it('retries idempotent requests with jittered exponential backoff', async () => {
+    const fetch = fakeFetch(status(500), status(502), status(200));
+    const warn = jest.spyOn(logger, 'warn');
+
+    const response = client.fetch('https://api.example.com/a', {}, { service: 'Example' });
+
+    // Retries wait at most the doubled ceilings of 100ms and 200ms
+    await jest.advanceTimersByTimeAsync(300);
+
+    expect((await response).status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    const [first, second] = warn.mock.calls.map(([, meta]) => (meta as { delay: number }).delay);
+    expect(first).toBeLessThanOrEqual(100);
+    expect(second).toBeLessThanOrEqual(200);
+  });
+
+  it('returns the last response once retries are exhausted', async () => {
+    fakeFetch(status(500), status(500), status(500));
+
+    const response = client.fetch('https://api.example.com/a', {}, { service: 'Example' });
+    await jest.advanceTimersByTimeAsync(300);
+
+    expect((await response).status).toBe(500);
+  });
+
+  it('retries other methods only on statuses asking to try again later, honouring Retry-After', async () => {
+    const fetch = fakeFetch(status(500), status(503, { 'Retry-After': '2' }), status(201));
+
+    expect((await client.fetch('https://api.example.com/a', { method: 'POST' }, { service: 'Example' })).status).toBe(500);
+
+    const response = client.fetch('https://api.example.com/a', { method: 'POST' }, { service: 'Example' });
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect((await response).status).toBe(201);
+  });
+
+  it('does not wait for a Retry-After beyond the maximum backoff', async () => {
+    const fetch = fakeFetch(status(429, { 'Retry-After': '60' }));
+
+    const response = await client.fetch('https://api.example.com/a', {}, { service: 'Example' });
+
+    expect(response.status).toBe(429);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out requests whose headers do not arrive', async () => {
+    jest.spyOn(global, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+
+    const response = client.fetch('https://api.example.com/a', { method: 'POST' }, { service: 'Example' });
+    const rejected = expect(response).rejects.toThrow('Request to Example API timed out');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await rejected;
+  });
+
+  it('times out responses whose body stalls after the headers', async () => {
+    jest.spyOn(global, 'fetch').mockImplementation(stalledBody);
+
+    const response = await client.fetch('https://api.example.com/a', { method: 'POST' }, { service: 'Example' });
+    const rejected = expect(response.text()).rejects.toThrow('Request to Example API timed out');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await rejected;
+  });
+
+  it('opens the circuit after repeated failures and closes it after a successful trial', async () => {
+    const fetch = fakeFetch(status(500), status(500), status(500), status(200));
+    const request = () => client.fetch('https://api.example.com/a', {}, { service: 'Example', retries: 0 });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await request()).status).toBe(500);
+    }
+    await expect(request()).rejects.toThrow('Example API is unavailable (circuit open after repeated failures)');
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(client.getBreakerStates()).toEqual([
+      expect.objectContaining({ host: 'api.example.com', service: 'Example', state: 'open', failures: 3 }),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(client.getBreakerStates()[0].state).toBe('half-open');
+
+    expect((await request()).status).toBe(200);
+    expect(client.getBreakerStates()[0]).toEqual(expect.objectContaining({ state: 'closed', failures: 0 }));
+  });
+
+  it('reopens the circuit when the trial request fails', async () => {
+    fakeFetch(status(500), status(500), status(500), status(503));
+    const request = () => client.fetch('https://api.example.com/a', {}, { service: 'Example', retries: 0 });
+
+    for (let i = 0; i < 3; i++) {
+      await request();
+    }
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect((await request()).status).toBe(503);
+    expect(client.getBreakerStates()[0].state).toBe('open');
+  });
+});
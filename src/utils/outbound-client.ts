@@ -0,0 +1,305 @@
+/**
+ * Resilient outbound HTTP client
+ *
+ * Shared by every upstream call: per-attempt timeouts covering the body,
+ * retries with jittered exponential backoff, and a circuit breaker per host
+ * so a failing upstream is not hammered while it recovers.
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { ExternalServiceError } from './errors.js';
+
+interface OutboundRequestOptions {
+  service: string; // Upstream name used in errors and logs, e.g. 'SVGL'
+  timeout?: number;
+  retries?: number;
+  idempotent?: boolean; // Defaults to true for GET, HEAD, PUT, DELETE and OPTIONS
+}
+
+type BreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Public view of a host's circuit breaker
+ */
+export interface CircuitBreakerStatus {
+  host: string;
+  service: string;
+  state: BreakerState;
+  failures: number;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+interface CircuitBreaker {
+  host: string;
+  service: string;
+  state: BreakerState;
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+// Statuses that mean "try again later" and are retried for any method
+const RETRY_LATER_STATUSES = [429, 503];
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class OutboundClient {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  /**
+   * Fetch with retries, backoff, timeout and circuit breaking
+   *
+   * Resolves with the final response, including non-2xx responses once
+   * retries are exhausted, so callers keep their own status handling.
+   *
+   * @throws ExternalServiceError on timeouts, network errors or an open circuit
+   */
+  async fetch(url: string, init: RequestInit, options: OutboundRequestOptions): Promise<Response> {
+    const { outbound } = config;
+    const method = (init.method || 'GET').toUpperCase();
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+    const retries = options.retries ?? outbound.retries;
+    const breaker = this.getBreaker(url, options.service);
+
+    for (let attempt = 0; ; attempt++) {
+      this.admit(breaker);
+
+      let response: Response;
+      try {
+        response = await this.attempt(url, init, options.timeout ?? outbound.timeout, options.service);
+      } catch (error) {
+        this.recordFailure(breaker);
+
+        if (!idempotent || attempt >= retries || breaker.state === 'open') {
+          throw error;
+        }
+
+        const delay = this.backoff(attempt);
+        logger.warn('Outbound request failed, retrying', {
+          service: options.service,
+          url,
+          attempt: attempt + 1,
+          delay,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        await sleep(delay);
+        continue;
+      }
+
+      if (response.status >= 500) {
+        this.recordFailure(breaker);
+      } else {
+        this.recordSuccess(breaker);
+      }
+
+      const retryable = RETRY_LATER_STATUSES.includes(response.status) ||
+        (idempotent && response.status >= 500);
+      if (!retryable || attempt >= retries || breaker.state === 'open') {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== undefined && retryAfter > outbound.backoffMax) {
+        // The upstream asks for a longer pause than we are willing to wait
+        return response;
+      }
+
+      const delay = retryAfter ?? this.backoff(attempt);
+      logger.warn('Outbound request returned a retryable status, retrying', {
+        service: options.service,
+        url,
+        status: response.status,
+        attempt: attempt + 1,
+        delay,
+      });
+
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Circuit breaker state of every host contacted so far
+   */
+  getBreakerStates(): CircuitBreakerStatus[] {
+    return [...this.breakers.values()].map((breaker) => {
+      this.refresh(breaker);
+      return {
+        host: breaker.host,
+        service: breaker.service,
+        state: breaker.state,
+        failures: breaker.failures,
+        openedAt: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : undefined,
+        retryAt: breaker.state === 'open' && breaker.openedAt
+          ? new Date(breaker.openedAt + config.outbound.breakerResetTimeout).toISOString()
+          : undefined,
+      };
+    });
+  }
+
+  /**
+   * Single attempt with a timeout
+   *
+   * The timeout stays armed until the response body has been read, so an
+   * upstream that stalls after sending its headers still times out.
+   */
+  private async attempt(url: string, init: RequestInit, timeout: number, service: string): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const timedOut = () => new ExternalServiceError(`Request to ${service} API timed out`, service, { timeout });
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw timedOut();
+      }
+      throw new ExternalServiceError(
+        `Failed to communicate with ${service} API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        service,
+        { originalError: error instanceof Error ? error.message : 'Unknown error' }
+      );
+    }
+
+    if (!response.body) {
+      clearTimeout(timeoutId);
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(stream) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            clearTimeout(timeoutId);
+            stream.close();
+          } else {
+            stream.enqueue(value);
+          }
+        } catch (error) {
+          clearTimeout(timeoutId);
+          stream.error(controller.signal.aborted ? timedOut() : error);
+        }
+      },
+      cancel(reason) {
+        clearTimeout(timeoutId);
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  /**
+   * Full-jitter exponential backoff delay for a retry
+   */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(config.outbound.backoffMax, config.outbound.backoffBase * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private getBreaker(url: string, service: string): CircuitBreaker {
+    const host = new URL(url).host;
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = { host, service, state: 'closed', failures: 0, trialInFlight: false };
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Move an open breaker to half-open once its reset timeout has passed
+   */
+  private refresh(breaker: CircuitBreaker): void {
+    if (
+      breaker.state === 'open' &&
+      breaker.openedAt !== undefined &&
+      Date.now() - breaker.openedAt >= config.outbound.breakerResetTimeout
+    ) {
+      breaker.state = 'half-open';
+      breaker.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Reject the request while the host's circuit is open
+   *
+   * A half-open circuit admits a single trial request.
+   */
+  private admit(breaker: CircuitBreaker): void {
+    this.refresh(breaker);
+
+    if (breaker.state === 'closed') {
+      return;
+    }
+    if (breaker.state === 'half-open' && !breaker.trialInFlight) {
+      breaker.trialInFlight = true;
+      return;
+    }
+
+    throw new ExternalServiceError(
+      `${breaker.service} API is unavailable (circuit open after repeated failures)`,
+      breaker.service,
+      { host: breaker.host, circuit: breaker.state }
+    );
+  }
+
+  private recordSuccess(breaker: CircuitBreaker): void {
+    if (breaker.state !== 'closed') {
+      logger.info('Circuit breaker closed', { host: breaker.host, service: breaker.service });
+    }
+    breaker.state = 'closed';
+    breaker.failures = 0;
+    breaker.openedAt = undefined;
+    breaker.trialInFlight = false;
+  }
+
+  private recordFailure(breaker: CircuitBreaker): void {
+    breaker.failures++;
+    breaker.trialInFlight = false;
+
+    if (breaker.state === 'half-open' || breaker.failures >= config.outbound.breakerThreshold) {
+      if (breaker.state !== 'open') {
+        logger.warn('Circuit breaker opened', {
+          host: breaker.host,
+          service: breaker.service,
+          failures: breaker.failures,
+        });
+      }
+      breaker.state = 'open';
+      breaker.openedAt = Date.now();
+    }
+  }
+}
+
+// Export singleton instance
+export const outboundClient = new OutboundClient();
@@ -0,0 +1,27 @@
+/**
+ * Principal of the request being handled
+ *
+ * HTTP requests run in a principal scope set after authentication, so
+ * services can attribute work without access to the Hono context. Work
+ * outside an HTTP request comes from the stdio MCP server.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const MCP_PRINCIPAL = 'mcp';
+
+const principalStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function on behalf of a principal
+ */
+export function runAsPrincipal<T>(principal: string, fn: () => Promise<T>): Promise<T> {
+  return principalStorage.run(principal, fn);
+}
+
+/**
+ * Principal of the current request, or 'mcp' outside an HTTP request
+ */
+export function currentPrincipal(): string {
+  return principalStorage.getStore() ?? MCP_PRINCIPAL;
+}
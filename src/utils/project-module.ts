@@ -0,0 +1,71 @@
+/**
+ * Loading of tools (TypeScript, Prettier, ESLint) from a target project
+ *
+ * Loading a project's package runs code from the project directory, so callers
+ * only load project packages with FORMAT_TRUST_PROJECT=true (and use
+ * loadServerModule otherwise), and even then only packages installed inside
+ * the file sandbox (ALLOWED_ROOTS) are loaded.
+ */
+
+import { createRequire } from 'module';
+import path from 'path';
+import { logger } from './logger.js';
+import { fileSandbox } from '../services/file-sandbox.js';
+
+/**
+ * Resolve a package from the project's installation
+ *
+ * @returns undefined if the project does not have the package, or it is installed outside the sandbox
+ */
+async function resolveInProject(root: string, name: string): Promise<string | undefined> {
+  let resolved: string;
+  try {
+    resolved = createRequire(path.join(root, 'package.json')).resolve(name);
+  } catch {
+    return undefined;
+  }
+
+  try {
+    return await fileSandbox.resolve(resolved);
+  } catch {
+    logger.warn('Ignoring project package installed outside the allowed roots', { root, name, path: resolved });
+    return undefined;
+  }
+}
+
+/**
+ * Load a package from the project's installation, falling back to the server's own
+ *
+ * @param root Project directory, already checked against the sandbox
+ * @returns undefined if neither has the package installed
+ */
+export async function loadProjectModule<T>(root: string, name: string): Promise<T | undefined> {
+  const resolved = await resolveInProject(root, name);
+  if (resolved) {
+    try {
+      return createRequire(path.join(root, 'package.json'))(resolved);
+    } catch (error) {
+      logger.warn('Failed to load project package, using the server\'s own', {
+        root,
+        name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return loadServerModule<T>(name);
+}
+
+/**
+ * Load a package from the server's own installation
+ *
+ * @returns undefined if the server does not have the package installed
+ */
+export async function loadServerModule<T>(name: string): Promise<T | undefined> {
+  try {
+    const module = await import(name);
+    return module.default ?? module;
+  } catch {
+    return undefined;
+  }
+}
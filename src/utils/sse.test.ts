@@ -0,0 +1,117 @@
+import { Hono } from 'hono';
+import { streamUiEvents } from './sse.js';
+import { ExternalServiceError } from './errors.js';
+import { streamCreateUi } from '../services/providers/ui-stream.js';
+import { UiProvider, UiStreamEvent } from '../services/providers/ui-provider.interface.js';
+import type { CreateUiRequest } from '../types/index.js';
+
+const request: CreateUiRequest = {
+  message: 'Create a pricing table',
+  searchQuery: 'pricing table',
+  absolutePathToCurrentFile: '/project/src/app/page.tsx',
+  absolutePathToProjectDirectory: '/project',
+  standaloneRequestQuery: 'pricing table with 3 tiers',
+};
+
+/**
+ * Provider with a blocking createUi, and optionally a native stream
+ */
+function fakeProvider(overrides: Partial<UiProvider> = {}): UiProvider {
+  return {
+    name: 'fake',
+    getCapabilities: () => ({
+      sessions: false,
+      streaming: false,
+      previewUrls: false,
+      structuredFiles: true,
+      headless: true,
+      supportedFrameworks: ['react'],
+    }),
+    isReady: async () => true,
+    getStatus: async () => ({ available: true, configured: true }),
+    createUi: async () => ({ text: 'done', provider: 'fake', sessionId: 'sess_1' }),
+    fetchUi: async () => ({ text: '' }),
+    refineUi: async () => ({ text: '' }),
+    ...overrides,
+  };
+}
+
+/**
+ * Stream a provider's creation and parse the SSE response into events
+ */
+async function streamEvents(provider: UiProvider): Promise<Array<{ id: string; event: string; data: UiStreamEvent }>> {
+  const app = new Hono();
+  app.post('/stream', (c) => streamUiEvents(c, () => streamCreateUi(provider, request)));
+
+  const response = await app.request('/stream', { method: 'POST' });
+  expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+  return (await response.text())
+    .split('\n\n')
+    .filter(Boolean)
+    .map((message) => {
+      const fields = Object.fromEntries(message.split('\n').map((line) => {
+        const separator = line.indexOf(': ');
+        return [line.slice(0, separator), line.slice(separator + 2)];
+      }));
+      return { id: fields.id, event: fields.event, data: JSON.parse(fields.data) };
+    });
+}
+
+describe('streaming over Server-Sent Events', () => {
+  it('streams generating, completed and result for providers without native streaming', async () => {
+    const events = await streamEvents(fakeProvider());
+
+    expect(events.map(({ id, event }) => [id, event])).toEqual([['0', 'status'], ['1', 'status'], ['2', 'result']]);
+    expect(events.map(({ data }) => data)).toEqual([
+      { type: 'status', status: 'generating', provider: 'fake' },
+      { type: 'status', status: 'completed', provider: 'fake', sessionId: 'sess_1' },
+      { type: 'result', response: { text: 'done', provider: 'fake', sessionId: 'sess_1' } },
+    ]);
+  });
+
+  it('forwards the events of native streams', async () => {
+    const provider = fakeProvider({
+      async *streamCreateUi() {
+        yield { type: 'status', status: 'chat-created', provider: 'fake', sessionId: 'chat_1' };
+        yield { type: 'delta', content: 'export ' };
+        yield { type: 'file', name: 'pricing.tsx', content: 'export {}' };
+        yield { type: 'result', response: { text: 'export {}', sessionId: 'chat_1' } };
+      },
+    });
+
+    const events = await streamEvents(provider);
+
+    expect(events.map(({ event }) => event)).toEqual(['status', 'delta', 'file', 'result']);
+    expect(events[2].data).toEqual({ type: 'file', name: 'pricing.tsx', content: 'export {}' });
+  });
+
+  it('ends with an error event when generation fails after the stream started', async () => {
+    const provider = fakeProvider({
+      async *streamCreateUi() {
+        yield { type: 'delta', content: 'export ' };
+        throw new ExternalServiceError('v0.dev stream ended without a chat id', 'v0.dev');
+      },
+    });
+
+    const events = await streamEvents(provider);
+
+    expect(events.map(({ event }) => event)).toEqual(['delta', 'error']);
+    expect(events[1].data).toEqual({
+      type: 'error',
+      error: 'v0.dev stream ended without a chat id',
+      code: 'EXTERNAL_SERVICE_ERROR',
+    });
+  });
+
+  it('hides the message of unexpected errors', async () => {
+    const events = await streamEvents(fakeProvider({
+      createUi: async () => { throw new Error('secret internals'); },
+    }));
+
+    expect(events.map(({ data }) => data)).toEqual([
+      { type: 'status', status: 'generating', provider: 'fake' },
+      { type: 'error', error: 'Internal server error' },
+    ]);
+  });
+});
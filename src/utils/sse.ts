@@ -0,0 +1,69 @@
+/**
+ * Server-Sent Events helpers for streaming UI generation
+ */
+
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { logger } from './logger.js';
+import { AppError } from './errors.js';
+import type { UiStreamEvent } from '../services/providers/ui-provider.interface.js';
+
+type StreamErrorHandler = (error: unknown) => Promise<void> | void;
+
+/**
+ * Run a handler if the request's event stream fails
+ *
+ * Streams answer 200 before generating, so middleware that undoes work on
+ * failed requests (such as refunding quotas) registers here instead of
+ * checking the response status.
+ */
+export function onStreamError(c: Context, handler: StreamErrorHandler): void {
+  const handlers: StreamErrorHandler[] = c.get('streamErrorHandlers') ?? [];
+  c.set('streamErrorHandlers', [...handlers, handler]);
+}
+
+/**
+ * Stream UiStreamEvents to the client as SSE
+ *
+ * Each event is sent with its `type` as the SSE event name and the JSON
+ * encoded event as data. Failures are reported as a final 'error' event,
+ * since the HTTP status has already been sent.
+ */
+export function streamUiEvents(c: Context, events: () => AsyncIterable<UiStreamEvent>): Response {
+  return streamSSE(c, async (stream) => {
+    let id = 0;
+
+    try {
+      for await (const event of events()) {
+        if (stream.aborted) {
+          logger.debug('SSE client disconnected', { path: c.req.path });
+          return;
+        }
+        await stream.writeSSE({
+          id: String(id++),
+          event: event.type,
+          data: JSON.stringify(event),
+        });
+      }
+    } catch (error) {
+      logger.error('Streaming request failed', error, { path: c.req.path });
+
+      const event: UiStreamEvent = {
+        type: 'error',
+        error: error instanceof AppError ? error.message : 'Internal server error',
+        code: error instanceof AppError ? error.code : undefined,
+      };
+      await stream.writeSSE({
+        id: String(id++),
+        event: event.type,
+        data: JSON.stringify(event),
+      });
+
+      for (const handler of (c.get('streamErrorHandlers') ?? []) as StreamErrorHandler[]) {
+        await Promise.resolve(handler(error)).catch((handlerError) => {
+          logger.error('Stream error handler failed', handlerError, { path: c.req.path });
+        });
+      }
+    }
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Persistence of in-memory state to a file
+ *
+ * Services keep their state in memory and call save() after each change.
+ * Writes are coalesced into one per second and go through a temporary file
+ * that is renamed over the target, so the file is never left half-written.
+ * Pending changes are written synchronously when the process exits.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync, promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+
+const SAVE_DELAY = 1000;
+
+const stateFiles = new Set<StateFile>();
+
+process.on('exit', () => {
+  for (const stateFile of stateFiles) {
+    stateFile.flush();
+  }
+});
+
+export class StateFile {
+  private file: string;
+  private description: string;
+  private serialize: () => string;
+  private saveTimer?: NodeJS.Timeout;
+  private writes: Promise<void> = Promise.resolve();
+  private changes = 0;
+  private savedChanges = 0;
+
+  /**
+   * @param file Path of the file
+   * @param description What the file holds, for log messages (e.g. 'session history')
+   * @param serialize Current contents of the file
+   */
+  constructor(file: string, description: string, serialize: () => string) {
+    this.file = file;
+    this.description = description;
+    this.serialize = serialize;
+    stateFiles.add(this);
+  }
+
+  /**
+   * Read and parse the file
+   *
+   * @returns undefined if the file does not exist or cannot be parsed (logged)
+   */
+  load<T>(parse: (contents: string) => T): T | undefined {
+    if (!existsSync(this.file)) {
+      return undefined;
+    }
+
+    try {
+      return parse(readFileSync(this.file, 'utf-8'));
+    } catch (error) {
+      logger.warn(`Failed to load ${this.description}, starting empty`, {
+        path: this.file,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Persist the state shortly after a change, coalescing bursts of changes
+   */
+  save(): void {
+    this.changes++;
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.writes = this.writes
+        .then(() => this.write())
+        .catch((error) => logger.error(`Failed to persist ${this.description}`, error));
+    }, SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write unsaved changes synchronously (e.g. on exit)
+   */
+  flush(): void {
+    if (this.savedChanges === this.changes) return;
+
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+
+    try {
+      // A separate temporary file, as an asynchronous write may still be in progress
+      const temp = `${this.file}.exit.tmp`;
+      const changes = this.changes;
+      mkdirSync(path.dirname(this.file), { recursive: true });
+      writeFileSync(temp, this.serialize(), 'utf-8');
+      renameSync(temp, this.file);
+      this.savedChanges = changes;
+    } catch (error) {
+      logger.error(`Failed to persist ${this.description}`, error);
+    }
+  }
+
+  private async write(): Promise<void> {
+    const temp = `${this.file}.tmp`;
+    const changes = this.changes;
+
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(temp, this.serialize(), 'utf-8');
+    await fs.rename(temp, this.file);
+    this.savedChanges = Math.max(this.savedChanges, changes);
+  }
+}
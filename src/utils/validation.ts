@@ -4,6 +4,22 @@
 
 import { z } from 'zod';
 
+const providerField = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Optional UI provider to use for this request (e.g. \'magic\', \'v0\', \'local\', \'openai\' or a plugin provider). Defaults to the server\'s configured provider');
+
+const applyField = z
+  .enum(['dry-run', 'write'])
+  .optional()
+  .describe('Apply the generated files to the project: \'dry-run\' returns unified diffs without writing, \'write\' writes them (backing up replaced files)');
+
+const overwriteField = z
+  .boolean()
+  .optional()
+  .describe('Also write files that conflict with existing project files. Defaults to false');
+
 export const createUiSchema = z.object({
   message: z.string().min(1).describe('Full users message'),
   searchQuery: z
@@ -23,6 +39,24 @@ export const createUiSchema = z.object({
     .string()
     .min(1)
     .describe('You need to formulate what component user wants to create, based on his message, possible chat history and a place where he makes the request. Extract additional context about what should be done to create a ui component/page based on the user\'s message, search query, and conversation history, files. Don\'t hallucinate and be on point.'),
+  provider: providerField,
+  apply: applyField,
+  overwrite: overwriteField,
+});
+
+export const compareUiSchema = createUiSchema.omit({ provider: true, apply: true, overwrite: true }).extend({
+  providers: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe('Providers to compare. Defaults to every configured provider'),
+  timeout: z
+    .number()
+    .int()
+    .min(1000)
+    .max(600000)
+    .optional()
+    .describe('Per-provider timeout in milliseconds. Defaults to the server\'s COMPARE_TIMEOUT'),
 });
 
 export const fetchUiSchema = z.object({
@@ -32,6 +66,7 @@ export const fetchUiSchema = z.object({
     .min(1)
     .max(100)
     .describe('Search query for 21st.dev (library for searching UI components) to find a UI component that matches the user\'s message. Must be a two-four words max or phrase'),
+  provider: providerField,
 });
 
 export const refineUiSchema = z.object({
@@ -43,6 +78,23 @@ export const refineUiSchema = z.object({
   context: z
     .string()
     .describe('Extract the specific UI elements and aspects that need improvement based on user messages, code, and conversation history. Identify exactly which components (buttons, forms, modals, etc.) the user is referring to and what aspects (styling, layout, responsiveness, etc.) they want to enhance. Do not include generic improvements - focus only on what the user explicitly mentions or what can be reasonably inferred from the available context. If nothing specific is mentioned or you cannot determine what needs improvement, return an empty string.'),
+  sessionId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Optional session ID to continue, from a previous generation or fork'),
+  provider: providerField,
+  absolutePathToProjectDirectory: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Absolute path to the project root directory, used when applying files. Defaults to the nearest directory above the refined file with a package.json'),
+  apply: applyField,
+  overwrite: overwriteField,
+  responseFormat: z
+    .enum(['full', 'diff'])
+    .optional()
+    .describe("Optional: 'diff' returns a unified diff of the refined file against its current content instead of the whole component"),
 });
 
 export const logoSearchSchema = z.object({
@@ -54,7 +106,82 @@ export const logoSearchSchema = z.object({
   format: z.enum(['JSX', 'TSX', 'SVG']).describe('Output format'),
 });
 
+const sessionIdField = z
+  .string()
+  .min(1)
+  .describe('Session ID returned by a previous generation (e.g. the v0 chat ID)');
+
+export const listVersionsSchema = z.object({
+  sessionId: sessionIdField,
+  provider: providerField,
+});
+
+export const getVersionSchema = z.object({
+  sessionId: sessionIdField,
+  versionId: z.string().min(1).describe('Version ID to fetch'),
+  provider: providerField,
+});
+
+export const diffVersionsSchema = z.object({
+  sessionId: sessionIdField,
+  fromVersionId: z.string().min(1).describe('Older version ID to compare from'),
+  toVersionId: z.string().min(1).describe('Newer version ID to compare to'),
+  provider: providerField,
+});
+
+export const restoreVersionSchema = z.object({
+  sessionId: sessionIdField,
+  versionId: z.string().min(1).describe('Version ID to restore as the base for the next refinement'),
+  provider: providerField,
+});
+
+export const forkSessionSchema = z.object({
+  sessionId: sessionIdField,
+  versionId: z.string().min(1).optional().describe('Version ID to fork from. Defaults to the latest version'),
+  provider: providerField,
+});
+
+export const magicJobSchema = z.object({
+  jobId: z.string().min(1).describe('Job ID returned by a headless Magic component builder call'),
+});
+
+export const applyFilesSchema = z.object({
+  sessionId: z.string().min(1).describe('Session ID returned by create-ui or refine-ui'),
+  versionId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Turn (version) of the stored session to apply. Defaults to the latest'),
+  absolutePathToProjectDirectory: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Absolute path to the project root directory. Defaults to the one of the generating request'),
+  mode: z
+    .enum(['dry-run', 'write'])
+    .default('dry-run')
+    .describe('\'dry-run\' returns unified diffs without writing; \'write\' writes the files'),
+  overwrite: overwriteField,
+});
+
+export const rollbackSchema = z.object({
+  absolutePathToProjectDirectory: z.string().min(1).describe('Absolute path to the project root directory'),
+  backupId: z
+    .string()
+    .regex(/^[\w-]+$/, 'Invalid backup ID')
+    .describe('Backup ID returned when the files were written'),
+});
+
 export type CreateUiInput = z.infer<typeof createUiSchema>;
+export type CompareUiInput = z.infer<typeof compareUiSchema>;
 export type FetchUiInput = z.infer<typeof fetchUiSchema>;
 export type RefineUiInput = z.infer<typeof refineUiSchema>;
 export type LogoSearchInput = z.infer<typeof logoSearchSchema>;
+export type ListVersionsInput = z.infer<typeof listVersionsSchema>;
+export type GetVersionInput = z.infer<typeof getVersionSchema>;
+export type DiffVersionsInput = z.infer<typeof diffVersionsSchema>;
+export type RestoreVersionInput = z.infer<typeof restoreVersionSchema>;
+export type ForkSessionInput = z.infer<typeof forkSessionSchema>;
+export type MagicJobInput = z.infer<typeof magicJobSchema>;
+export type ApplyFilesInput = z.infer<typeof applyFilesSchema>;
+export type RollbackInput = z.infer<typeof rollbackSchema>;